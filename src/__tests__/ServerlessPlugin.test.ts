@@ -1,5 +1,9 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
 import { ServerlessPlugin } from '../index';
 import { PluginConfig, OrcdkConfig } from '@orcdkestrator/core';
+import { ServerlessService } from '../types';
 
 describe('ServerlessPlugin', () => {
   let plugin: ServerlessPlugin;
@@ -36,4 +40,250 @@ describe('ServerlessPlugin', () => {
   it('should initialize successfully', async () => {
     await expect(plugin.initialize(mockConfig, mockOrcdkConfig)).resolves.not.toThrow();
   });
+
+  describe('when deploying services', () => {
+    let root: string;
+    let cli: { ensureCompatible: jest.Mock; deployFunction: jest.Mock };
+
+    const createService = (name: string, config: string, handlers: Record<string, string> = {}): ServerlessService => {
+      const servicePath = path.join(root, name);
+      fs.mkdirSync(servicePath, { recursive: true });
+      fs.writeFileSync(path.join(servicePath, 'serverless.yml'), config);
+
+      return {
+        name,
+        path: servicePath,
+        configFile: path.join(servicePath, 'serverless.yml'),
+        provider: 'serverless',
+        dependencies: [],
+        handlers
+      };
+    };
+
+    beforeEach(async () => {
+      root = fs.mkdtempSync(path.join(os.tmpdir(), 'orcdk-plugin-'));
+      await plugin.initialize({ ...mockConfig, config: { referenceValidation: { enabled: false } } }, mockOrcdkConfig);
+
+      // Given a CLI and packaging that succeed without running Serverless
+      cli = {
+        ensureCompatible: jest.fn().mockResolvedValue({ flavor: 'serverless', version: { major: 3, minor: 38, patch: 0 } }),
+        deployFunction: jest.fn().mockResolvedValue(undefined)
+      };
+      Object.assign(plugin as any, { cli, hotReload: { startWatching: jest.fn() } });
+      jest.spyOn(plugin, 'packageArtifact').mockResolvedValue({ directory: path.join(root, 'artifact') } as any);
+      jest.spyOn(plugin as any, 'deployPackage').mockResolvedValue(undefined);
+      jest.spyOn(plugin as any, 'extractServiceOutputs').mockResolvedValue(undefined);
+      jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+      fs.rmSync(root, { recursive: true, force: true });
+    });
+
+    it('should hot reload the deployed service, not the one in the deploy options', async () => {
+      // Given orders deployed with options naming another service, as deployAll passes them
+      const orders = createService('orders', 'service: orders\n', { api: 'src/orders.handler' });
+      const billing = createService('billing', 'service: billing\n', { charge: 'src/billing.handler' });
+      await plugin.deployServiceLocal(orders, { service: billing, stage: 'dev' });
+
+      // When an orders handler changes
+      await (plugin as any).handleHandlerUpdated({ service: 'orders', file: 'src/orders.ts', handler: 'api', timestamp: 0 });
+
+      // Then the orders function is redeployed
+      expect(cli.deployFunction).toHaveBeenCalledTimes(1);
+      expect(cli.deployFunction).toHaveBeenCalledWith(orders.path, 'api', 'dev', undefined, expect.anything());
+    });
+
+    it('should refuse to deploy an artifact to a stage it was not built for', async () => {
+      // Given an artifact packaged for dev
+      const orders = createService('orders', 'service: orders\n');
+      const artifact = {
+        service: 'orders',
+        stage: 'dev',
+        version: 'dev-abc1234def56',
+        hash: 'abc1234def56',
+        directory: path.join(root, 'artifact'),
+        createdAt: '2024-01-01T00:00:00.000Z'
+      };
+      (plugin as any).deployPackage.mockRestore();
+
+      // When deploying it to prod
+      // Then the deploy is rejected before anything runs
+      await expect((plugin as any).deployPackage(orders, artifact, { service: orders, stage: 'prod' }))
+        .rejects.toThrow('Artifact dev-abc1234def56 of orders was built for stage dev and can\'t be deployed to prod');
+    });
+
+    it('should wait for the configured stack name before retrying a deploy', async () => {
+      // Given a service deploying to a custom stack name and region
+      const orders = createService(
+        'orders',
+        'service: orders\nprovider:\n  name: aws\n  stackName: ${sls:stage}-orders-api\n  region: eu-west-1\n'
+      );
+      const inspector = { waitForStackSettled: jest.fn().mockResolvedValue(undefined) };
+      Object.assign(plugin as any, { stackInspector: inspector });
+      jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+      // When a deploy is retried because its stack is busy
+      await (plugin as any).prepareDeployRetry(orders, { service: orders, stage: 'prod' }, {
+        attempt: 1,
+        maxAttempts: 3,
+        delay: 0,
+        classification: { reason: 'stack busy', waitForStack: true },
+        error: new Error('UPDATE_IN_PROGRESS')
+      }, 'deployer');
+
+      // Then the retry waits for that stack
+      expect(inspector.waitForStackSettled).toHaveBeenCalledWith(
+        'prod-orders-api',
+        { region: 'eu-west-1', profile: 'deployer' },
+        expect.anything()
+      );
+    });
+
+    it('should read the alternate config a deploy passes with --config', async () => {
+      // Given a service with a separate config for prod
+      const orders = createService('orders', 'service: orders\n');
+      fs.writeFileSync(
+        path.join(orders.path, 'serverless.prod.yml'),
+        'service: orders\nprovider:\n  name: aws\n  stackName: orders-prod-api\n'
+      );
+      const inspector = { waitForStackSettled: jest.fn().mockResolvedValue(undefined) };
+      Object.assign(plugin as any, { stackInspector: inspector });
+      jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+      // When a deploy with that config is retried
+      await (plugin as any).prepareDeployRetry(
+        orders,
+        { service: orders, stage: 'prod', cliOptions: { config: 'serverless.prod.yml' } },
+        { attempt: 1, maxAttempts: 3, delay: 0, classification: { reason: 'stack busy', waitForStack: true }, error: new Error('busy') }
+      );
+
+      // Then the stack named in that config is awaited
+      expect(inspector.waitForStackSettled).toHaveBeenCalledWith('orders-prod-api', expect.anything(), expect.anything());
+    });
+
+    it('should read deployed outputs with the deploy\'s AWS profile', async () => {
+      // Given a deploy with its own AWS profile
+      const orders = createService('orders', 'service: orders\n');
+      const read = jest.fn().mockResolvedValue(undefined);
+      Object.assign(plugin as any, { serviceInfoReader: { read } });
+      (plugin as any).extractServiceOutputs.mockRestore();
+
+      // When reading the service's outputs
+      await (plugin as any).extractServiceOutputs(orders, { service: orders, stage: 'dev', cliOptions: { awsProfile: 'deployer' } });
+
+      // Then that profile is used
+      expect(read).toHaveBeenCalledWith(orders.path, 'dev', expect.objectContaining({ profile: 'deployer' }));
+    });
+
+    /**
+     * A compose project where orders takes a param from the outputs of users
+     */
+    const createComposeProject = (usersOutputs: Record<string, string> | null) => {
+      const file = path.join(root, 'serverless-compose.yml');
+      const users = createService('users', 'service: users\nprovider:\n  name: aws\n  stackName: users-api-${sls:stage}\n');
+      const orders = createService('orders', 'service: orders\n');
+      users.compose = { name: 'users', file, path: users.path, params: {}, dependsOn: [] };
+      orders.compose = { name: 'orders', file, path: orders.path, params: { usersTable: '${users.TableName}' }, dependsOn: ['users'] };
+      const inspector = {
+        getStackOutputs: jest.fn(async (stackName: string) => (stackName === 'users-api-dev' ? usersOutputs : null))
+      };
+      Object.assign(plugin as any, {
+        services: [users, orders],
+        composeProjects: [{ file, services: [users.compose, orders.compose], order: ['users', 'orders'] }],
+        stackInspector: inspector
+      });
+
+      return { users, orders, inspector };
+    };
+
+    it('should pass outputs of deployed compose services to the params of their dependents', async () => {
+      // Given a compose project where the users stack has the output orders needs
+      const { users, orders } = createComposeProject({ TableName: 'users-dev-table' });
+      const deployService = jest.spyOn(plugin, 'deployService').mockResolvedValue(undefined);
+
+      // When deploying the project
+      await plugin.deployCompose({ service: users, stage: 'dev' });
+
+      // Then orders is deployed with the output read from the users stack
+      expect(deployService).toHaveBeenCalledTimes(2);
+      expect(deployService).toHaveBeenLastCalledWith(orders, expect.objectContaining({
+        params: { usersTable: 'users-dev-table' }
+      }));
+    });
+
+    it('should dry run a compose project whose services were never deployed', async () => {
+      // Given a compose project with nothing deployed
+      const { users, orders } = createComposeProject(null);
+      const deployService = jest.spyOn(plugin, 'deployService').mockResolvedValue(undefined);
+
+      // When dry running the project
+      await plugin.deployCompose({ service: users, stage: 'dev', dryRun: true });
+
+      // Then orders is packaged with a placeholder for the missing output
+      expect(deployService).toHaveBeenLastCalledWith(orders, expect.objectContaining({
+        params: { usersTable: '<users.TableName>' }
+      }));
+    });
+
+    it('should remove compose services without reading outputs of their dependencies', async () => {
+      // Given a compose project whose users stack is already gone
+      const { users, orders, inspector } = createComposeProject(null);
+      const removeService = jest.spyOn(plugin, 'removeService').mockResolvedValue(undefined);
+
+      // When removing the project
+      await plugin.removeCompose({ service: users, stage: 'dev' });
+
+      // Then dependents are removed first, with placeholders for the outputs
+      expect(removeService.mock.calls.map(([service]) => service)).toEqual([orders, users]);
+      expect(removeService).toHaveBeenCalledWith(orders, expect.objectContaining({
+        params: { usersTable: '<users.TableName>' }
+      }));
+      expect(inspector.getStackOutputs).not.toHaveBeenCalled();
+    });
+
+    it('should resolve the config once per deploy', async () => {
+      // Given a remote deploy that validates references and looks up dependency stacks
+      const orders = createService('orders', 'service: orders\n');
+      Object.assign((plugin as any).config, { referenceValidation: { enabled: true }, enableRemoteDeployment: true });
+      const load = jest.spyOn((plugin as any).configLoader, 'load');
+      const options = { service: orders, stage: 'dev', environment: 'dev' };
+
+      // When deploying the service twice with the same options
+      await plugin.deployService(orders, options);
+      await plugin.deployService(orders, options);
+
+      // Then each deploy loads the config once, and the second doesn't reuse the first's
+      expect(load).toHaveBeenCalledTimes(2);
+      expect(load).toHaveBeenCalledWith(orders.configFile);
+    });
+
+    it('should not fall back to detected dependencies when the config no longer references any', async () => {
+      // Given a service detected with a stack reference that was since removed from its config
+      const orders = createService('orders', 'service: orders\n');
+      orders.dependencyRecords = [{ kind: 'cloudformation', stack: 'users-dev', output: 'TableName', sourceFile: orders.configFile }];
+
+      // When resolving its dependency stacks for a deploy
+      const stacks = await (plugin as any).resolveDependencyStacks(orders, { service: orders, stage: 'dev' });
+
+      // Then there are none
+      expect(stacks).toEqual([]);
+    });
+
+    it('should fall back to detected dependencies when the config cannot be scanned', async () => {
+      // Given a detected service whose config became unreadable
+      const orders = createService('orders', 'service: orders\n');
+      orders.dependencyRecords = [{ kind: 'cloudformation', stack: 'users-dev', output: 'TableName', sourceFile: orders.configFile }];
+      fs.writeFileSync(orders.configFile, 'service: [orders\n');
+      const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+      // When resolving its dependency stacks for a deploy
+      const stacks = await (plugin as any).resolveDependencyStacks(orders, { service: orders, stage: 'dev' });
+
+      // Then the detected stack is used, saying why
+      expect(stacks).toEqual([{ stackName: 'users-dev', region: undefined }]);
+      expect(warn).toHaveBeenCalledWith(expect.stringContaining(`Could not rescan ${orders.configFile} for stage dev`));
+    });
+  });
 });
@@ -0,0 +1,145 @@
+import { ServerlessArtifactStore, ARTIFACT_MANIFEST_FILE } from '../artifact-store';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+describe('ServerlessArtifactStore', () => {
+  let rootDir: string;
+  let store: ServerlessArtifactStore;
+
+  async function stage(files: Record<string, string>): Promise<string> {
+    const dir = await store.createStagingDirectory('api');
+    for (const [name, content] of Object.entries(files)) {
+      await fs.promises.mkdir(path.dirname(path.join(dir, name)), { recursive: true });
+      await fs.promises.writeFile(path.join(dir, name), content);
+    }
+    return dir;
+  }
+
+  beforeEach(() => {
+    rootDir = fs.mkdtempSync(path.join(os.tmpdir(), 'orcdk-artifacts-'));
+    store = new ServerlessArtifactStore(rootDir);
+  });
+
+  afterEach(() => {
+    fs.rmSync(rootDir, { recursive: true, force: true });
+  });
+
+  describe('when committing a package', () => {
+    it('should create a versioned artifact with a manifest', async () => {
+      // Given a packaged staging directory
+      const stagingDir = await stage({
+        'api.zip': 'zip-bytes',
+        'cloudformation-template-update-stack.json': '{}'
+      });
+
+      // When committing
+      const artifact = await store.commit(stagingDir, { service: 'api', stage: 'dev', region: 'eu-west-1' });
+
+      // Then the artifact is versioned by stage and content hash
+      expect(artifact.version).toBe(`dev-${artifact.hash.substring(0, 12)}`);
+      expect(artifact.hash).toMatch(/^[a-f0-9]{64}$/);
+      expect(artifact.directory).toBe(path.join(rootDir, 'api', artifact.version));
+      expect(fs.existsSync(stagingDir)).toBe(false);
+      expect(fs.existsSync(path.join(artifact.directory, 'api.zip'))).toBe(true);
+
+      const manifest = JSON.parse(fs.readFileSync(path.join(artifact.directory, ARTIFACT_MANIFEST_FILE), 'utf-8'));
+      expect(manifest).toMatchObject({ service: 'api', stage: 'dev', region: 'eu-west-1', hash: artifact.hash });
+    });
+
+    it('should reuse an artifact with identical content', async () => {
+      // Given the same package built twice
+      const first = await store.commit(await stage({ 'api.zip': 'same' }), { service: 'api', stage: 'dev' });
+      const second = await store.commit(await stage({ 'api.zip': 'same' }), { service: 'api', stage: 'dev' });
+
+      // Then both resolve to one artifact
+      expect(second.directory).toBe(first.directory);
+      expect(second.createdAt).toBe(first.createdAt);
+      expect(await store.list('api')).toHaveLength(1);
+    });
+
+    it('should hash nested files independently of the manifest', async () => {
+      // Given a package with nested files
+      const artifact = await store.commit(
+        await stage({ 'nested/layer.zip': 'layer', 'api.zip': 'code' }),
+        { service: 'api', stage: 'dev' }
+      );
+
+      // When recomputing the hash after the manifest was written
+      // Then it is unchanged
+      expect(await store.computeHash(artifact.directory)).toBe(artifact.hash);
+    });
+  });
+
+  describe('when reading artifacts', () => {
+    it('should verify untouched artifacts', async () => {
+      // Given a committed artifact
+      const artifact = await store.commit(await stage({ 'api.zip': 'code' }), { service: 'api', stage: 'dev' });
+
+      // When verifying
+      // Then it passes
+      await expect(store.verify(artifact)).resolves.toBeUndefined();
+      await expect(store.read(artifact.directory)).resolves.toEqual(artifact);
+    });
+
+    it('should detect modified artifacts', async () => {
+      // Given an artifact changed after packaging
+      const artifact = await store.commit(await stage({ 'api.zip': 'code' }), { service: 'api', stage: 'dev' });
+      fs.writeFileSync(path.join(artifact.directory, 'api.zip'), 'tampered');
+
+      // When verifying
+      // Then the hash mismatch is reported
+      await expect(store.verify(artifact)).rejects.toThrow('has been modified');
+    });
+
+    it('should reject directories without a manifest', async () => {
+      await expect(store.read(rootDir)).rejects.toThrow('Not a Serverless artifact');
+    });
+
+    it('should list artifacts newest first', async () => {
+      // Given artifacts for two stages
+      const dev = await store.commit(await stage({ 'api.zip': 'v1' }), { service: 'api', stage: 'dev' });
+      await new Promise(resolve => setTimeout(resolve, 5));
+      const prod = await store.commit(await stage({ 'api.zip': 'v2' }), { service: 'api', stage: 'prod' });
+
+      // When listing
+      const artifacts = await store.list('api');
+
+      // Then the latest comes first and staging directories are skipped
+      expect(artifacts.map(a => a.version)).toEqual([prod.version, dev.version]);
+      expect(await store.list('unknown')).toEqual([]);
+    });
+  });
+
+  describe('when retaining artifacts', () => {
+    const commitBuilds = async (builds: string[], stageName = 'dev') => {
+      const artifacts = [];
+      for (const build of builds) {
+        artifacts.push(await store.commit(await stage({ 'api.zip': build }), { service: 'api', stage: stageName }));
+        // Keep creation times apart so the order is stable
+        await new Promise(resolve => setTimeout(resolve, 5));
+      }
+      return artifacts;
+    };
+
+    it('should keep only the newest artifacts of each stage', async () => {
+      // Given a store that keeps two artifacts and a prod artifact
+      store = new ServerlessArtifactStore(rootDir, { retain: 2 });
+      const [prod] = await commitBuilds(['prod-1'], 'prod');
+
+      // When committing three dev builds
+      const [first, second, third] = await commitBuilds(['v1', 'v2', 'v3']);
+
+      // Then the oldest dev build is deleted and prod is untouched
+      expect((await store.list('api')).map(a => a.version)).toEqual([third!.version, second!.version, prod!.version]);
+      expect(fs.existsSync(first!.directory)).toBe(false);
+    });
+
+    it('should keep every artifact when retention is disabled', async () => {
+      store = new ServerlessArtifactStore(rootDir, { retain: 0 });
+      await commitBuilds(['v1', 'v2', 'v3', 'v4', 'v5', 'v6']);
+
+      expect(await store.list('api')).toHaveLength(6);
+    });
+  });
+});
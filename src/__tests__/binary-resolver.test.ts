@@ -0,0 +1,187 @@
+import { ServerlessBinaryResolver } from '../binary-resolver';
+import * as fs from 'fs';
+import * as path from 'path';
+
+// Mock dependencies
+jest.mock('fs', () => ({
+  existsSync: jest.fn()
+}));
+
+describe('ServerlessBinaryResolver', () => {
+  const projectRoot = path.join(process.cwd(), 'repo');
+  const servicePath = path.join(projectRoot, 'services/api');
+  let resolver: ServerlessBinaryResolver;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(fs, 'existsSync').mockReturnValue(false);
+    resolver = new ServerlessBinaryResolver({ projectRoot, binaryPath: 'tools/sls' });
+  });
+
+  describe('when resolving binaries', () => {
+    it('should prefer a binary in the service node_modules', async () => {
+      // Given a local v3 binary
+      const localBin = path.join(servicePath, 'node_modules', '.bin', 'serverless');
+      jest.spyOn(fs, 'existsSync').mockImplementation(p => p === localBin);
+      const probe = jest.spyOn(resolver as any, 'probeVersion').mockResolvedValue('Framework Core: 3.38.0\nPlugin: 7.2.0');
+
+      // When resolving
+      const binary = await resolver.resolve(servicePath);
+
+      // Then the local binary is used
+      expect(binary.source).toBe('local');
+      expect(binary.command).toBe(localBin);
+      expect(binary.version).toEqual({ major: 3, minor: 38, patch: 0 });
+      expect(binary.flavor).toBe('serverless');
+      expect(probe).toHaveBeenCalledTimes(1);
+    });
+
+    it('should find binaries hoisted to the project root', async () => {
+      // Given a binary in the monorepo root
+      const rootBin = path.join(projectRoot, 'node_modules', '.bin', 'sls');
+      jest.spyOn(fs, 'existsSync').mockImplementation(p => p === rootBin);
+      jest.spyOn(resolver as any, 'probeVersion').mockResolvedValue('Framework Core: 3.1.0');
+
+      // When resolving
+      const binary = await resolver.resolve(servicePath);
+
+      // Then the hoisted binary is used
+      expect(binary.command).toBe(rootBin);
+    });
+
+    it('should fall back to npx and then the configured path', async () => {
+      // Given npx cannot find serverless
+      const probe = jest.spyOn(resolver as any, 'probeVersion')
+        .mockResolvedValueOnce(null)
+        .mockResolvedValueOnce('osls 3.51.0');
+
+      // When resolving
+      const binary = await resolver.resolve(servicePath);
+
+      // Then the configured binary is used
+      expect(probe).toHaveBeenNthCalledWith(1, expect.stringMatching(/npx/), ['--no-install', 'serverless'], servicePath);
+      expect(binary.source).toBe('configured');
+      expect(binary.command).toBe(path.join(projectRoot, 'tools/sls'));
+      expect(binary.flavor).toBe('osls');
+    });
+
+    it('should throw a descriptive error when nothing resolves', async () => {
+      // Given no working binary
+      jest.spyOn(resolver as any, 'probeVersion').mockResolvedValue(null);
+
+      // When resolving
+      // Then the tried locations are listed
+      await expect(resolver.resolve(servicePath)).rejects.toThrow(/not found.*npx serverless/);
+    });
+  });
+
+  describe('when probing versions', () => {
+    it('should capture the output of a working binary', async () => {
+      // Given a runnable binary
+      // When probing its version
+      const output = await (resolver as any).probeVersion(process.execPath, [], process.cwd());
+
+      // Then the version output is returned
+      expect(output).toMatch(/^v\d+\./);
+    });
+
+    it('should return null for a missing binary', async () => {
+      // Given a binary that doesn't exist
+      // When probing its version
+      const output = await (resolver as any).probeVersion(path.join(projectRoot, 'missing-binary'), [], process.cwd());
+
+      // Then null is returned
+      expect(output).toBeNull();
+    });
+
+    it('should skip binaries whose version cannot be parsed', async () => {
+      // Given npx printing something unexpected
+      jest.spyOn(resolver as any, 'probeVersion')
+        .mockResolvedValueOnce('unexpected output')
+        .mockResolvedValueOnce('Framework Core: 3.38.0');
+
+      // When resolving
+      const binary = await resolver.resolve(servicePath);
+
+      // Then the next candidate is used
+      expect(binary.source).toBe('configured');
+    });
+
+    it('should skip npx when disabled', async () => {
+      // Given npx disabled and no configured path
+      resolver = new ServerlessBinaryResolver({ projectRoot, useNpx: false });
+      const probe = jest.spyOn(resolver as any, 'probeVersion');
+
+      // When resolving
+      // Then nothing is tried
+      await expect(resolver.resolve(servicePath)).rejects.toThrow('not found');
+      expect(probe).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('when determining capabilities', () => {
+    it('should flag v4 as login-gated with built-in builds', () => {
+      expect(resolver.getCapabilities('serverless', { major: 4, minor: 4, patch: 7 })).toEqual({
+        params: true,
+        compose: true,
+        builtInBuild: true,
+        requiresLogin: true
+      });
+    });
+
+    it('should not require login for osls or v3', () => {
+      expect(resolver.getCapabilities('osls', { major: 4, minor: 0, patch: 0 }).requiresLogin).toBe(false);
+      expect(resolver.getCapabilities('serverless', { major: 3, minor: 38, patch: 0 }).requiresLogin).toBe(false);
+    });
+
+    it('should not support params before v3', () => {
+      expect(resolver.getCapabilities('serverless', { major: 2, minor: 72, patch: 3 }).params).toBe(false);
+    });
+  });
+
+  describe('when checking frameworkVersion', () => {
+    it('should reject a binary outside the constraint', async () => {
+      // Given a v4 binary
+      jest.spyOn(resolver as any, 'probeVersion').mockResolvedValue('Serverless ϟ Framework 4.4.7');
+      const binary = await resolver.resolve(servicePath);
+
+      // When checking against ^3
+      // Then a clear error is raised
+      expect(() => resolver.assertFrameworkVersion(binary, '^3.0.0', 'api'))
+        .toThrow("Service api requires Serverless Framework '^3.0.0' but serverless 4.4.7");
+    });
+
+    it('should accept matching or missing constraints', async () => {
+      // Given a v3 binary
+      jest.spyOn(resolver as any, 'probeVersion').mockResolvedValue('Framework Core: 3.38.0');
+      const binary = await resolver.resolve(servicePath);
+
+      // When checking
+      // Then no error is raised
+      expect(() => resolver.assertFrameworkVersion(binary, '3', 'api')).not.toThrow();
+      expect(() => resolver.assertFrameworkVersion(binary, undefined, 'api')).not.toThrow();
+    });
+  });
+
+  describe('when checking licence credentials', () => {
+    const originalEnv = process.env;
+
+    afterEach(() => {
+      process.env = originalEnv;
+    });
+
+    it('should accept a configured access key', () => {
+      expect(resolver.hasLicenceCredentials('AKEY')).toBe(true);
+    });
+
+    it('should accept an access key from the environment', () => {
+      process.env = { ...originalEnv, SERVERLESS_ACCESS_KEY: 'AKEY' };
+      expect(resolver.hasLicenceCredentials()).toBe(true);
+    });
+
+    it('should report missing credentials', () => {
+      process.env = { ...originalEnv, SERVERLESS_ACCESS_KEY: undefined, SERVERLESS_LICENSE_KEY: undefined };
+      expect(resolver.hasLicenceCredentials()).toBe(false);
+    });
+  });
+});
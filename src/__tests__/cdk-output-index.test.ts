@@ -0,0 +1,84 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { CdkOutputIndex } from '../cdk-output-index';
+import { CdkStack } from '../types';
+
+describe('CdkOutputIndex', () => {
+  let cdkOut: string;
+
+  const stack: CdkStack = { id: 'NetworkStack', stackName: 'network-prod', dependencies: [] };
+
+  const template = {
+    Resources: {
+      VpcIdParameter: {
+        Type: 'AWS::SSM::Parameter',
+        Properties: { Name: '/network/vpc-id', Type: 'String', Value: { Ref: 'Vpc' } },
+        Metadata: { 'aws:cdk:path': 'NetworkStack/VpcIdParameter/Resource' }
+      },
+      SubnetsParameter: {
+        Type: 'AWS::SSM::Parameter',
+        Properties: { Name: { 'Fn::Join': ['', ['/', { Ref: 'AWS::StackName' }, '/subnets']] }, Type: 'StringList' }
+      },
+      GeneratedParameter: {
+        Type: 'AWS::SSM::Parameter',
+        Properties: { Name: { Ref: 'ParameterName' } }
+      },
+      Vpc: { Type: 'AWS::EC2::VPC' }
+    },
+    Outputs: {
+      VpcId: {
+        Value: { Ref: 'Vpc' },
+        Export: { Name: 'network-prod-VpcId' },
+        Metadata: { 'aws:cdk:path': 'NetworkStack/VpcId' }
+      },
+      Region: { Value: { Ref: 'AWS::Region' } }
+    }
+  };
+
+  beforeEach(() => {
+    cdkOut = fs.mkdtempSync(path.join(os.tmpdir(), 'orcdk-cdk-out-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(cdkOut, { recursive: true, force: true });
+  });
+
+  it('should index literal parameter names, outputs and exports from templates', async () => {
+    // Given a synthesized template and a stack whose template is missing
+    fs.writeFileSync(path.join(cdkOut, 'NetworkStack.template.json'), JSON.stringify(template));
+
+    // When indexing
+    const index = await CdkOutputIndex.load([
+      { ...stack, templateFile: path.join(cdkOut, 'NetworkStack.template.json') },
+      { id: 'DataStack', stackName: 'data-prod', dependencies: [], templateFile: path.join(cdkOut, 'missing.json') }
+    ]);
+
+    // Then each is found with the construct that writes it
+    expect(index.findParameter('/network/vpc-id')).toEqual({
+      stackId: 'NetworkStack',
+      stackName: 'network-prod',
+      logicalId: 'VpcIdParameter',
+      constructPath: 'NetworkStack/VpcIdParameter/Resource'
+    });
+    expect(index.findParameter('/network-prod/subnets')?.logicalId).toBe('SubnetsParameter');
+    expect(index.findExport('network-prod-VpcId')?.constructPath).toBe('NetworkStack/VpcId');
+    expect(index.findOutput('network-prod', 'Region')?.logicalId).toBe('Region');
+    expect(index.findOutput('NetworkStack', 'VpcId')?.stackName).toBe('network-prod');
+  });
+
+  it('should resolve SSM, CloudFormation and import references', () => {
+    const index = new CdkOutputIndex();
+    index.addTemplate(stack, template);
+    const reference = { sourceFile: 'serverless.yml' };
+
+    expect(index.resolve({ ...reference, kind: 'ssm', stack: 'network', parameter: '/network/vpc-id' })?.logicalId)
+      .toBe('VpcIdParameter');
+    expect(index.resolve({ ...reference, kind: 'cloudformation', stack: 'network-prod', output: 'VpcId' })?.logicalId)
+      .toBe('VpcId');
+    expect(index.resolve({ ...reference, kind: 'import', exportName: 'network-prod-VpcId' })?.stackId)
+      .toBe('NetworkStack');
+    expect(index.resolve({ ...reference, kind: 'ssm', stack: 'network', parameter: '/network/unknown' })).toBeUndefined();
+    expect(index.resolve({ ...reference, kind: 'param', parameter: 'vpcId' })).toBeUndefined();
+  });
+});
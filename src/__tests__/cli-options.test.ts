@@ -0,0 +1,81 @@
+import { buildCliArgs, mergeCliOptions, validateCliOptions } from '../cli-options';
+
+describe('cli-options', () => {
+  describe('when building arguments', () => {
+    it('should pass params and typed options through', () => {
+      // Given params and pass-through options
+      const args = buildCliArgs(
+        'deploy',
+        { dbName: 'users', 'feature.flag': 'on' },
+        { awsProfile: 'prod', config: 'serverless.prod.yml', conceal: true, verbose: true, opts: { tenant: 'acme', replicas: 3 } }
+      );
+
+      // Then each becomes a CLI flag
+      expect(args).toEqual([
+        '--config', 'serverless.prod.yml',
+        '--aws-profile', 'prod',
+        '--param', 'dbName=users',
+        '--param', 'feature.flag=on',
+        '--verbose',
+        '--conceal',
+        '--tenant', 'acme',
+        '--replicas', '3'
+      ]);
+    });
+
+    it('should only pass --conceal to commands that print secrets', () => {
+      expect(buildCliArgs('package', {}, { conceal: true })).toEqual([]);
+      expect(buildCliArgs('info', {}, { conceal: true })).toEqual(['--conceal']);
+    });
+
+    it('should render boolean opts as flags', () => {
+      expect(buildCliArgs('remove', {}, { opts: { 'skip-checks': true, dry: false } })).toEqual(['--skip-checks']);
+    });
+
+    it('should return no arguments without options', () => {
+      expect(buildCliArgs('package')).toEqual([]);
+    });
+  });
+
+  describe('when validating options', () => {
+    it('should reject options the plugin manages', () => {
+      expect(() => validateCliOptions({}, { opts: { stage: 'prod' } }))
+        .toThrow("Option 'stage' is managed by the plugin");
+    });
+
+    it('should report every problem at once', () => {
+      // Given several invalid values
+      const invoke = () => validateCliOptions(
+        { 'bad name': 'x', multi: 'a\nb' },
+        { awsProfile: 'my profile', config: '../serverless.yml', opts: { '-x': 'y', obj: {} as any } }
+      );
+
+      // Then a single error lists them all
+      expect(invoke).toThrow(/param name 'bad name'[\s\S]*param 'multi'[\s\S]*awsProfile[\s\S]*config[\s\S]*option name '-x'[\s\S]*option 'obj'/);
+    });
+
+    it('should accept valid options', () => {
+      expect(() => validateCliOptions({ key: 'value' }, { config: 'serverless.ts', opts: { tenant: 'acme' } })).not.toThrow();
+    });
+  });
+
+  describe('when merging defaults', () => {
+    it('should let overrides win and merge maps', () => {
+      // Given service defaults and deployment overrides
+      const merged = mergeCliOptions(
+        { params: { a: '1', b: '2' }, cliOptions: { awsProfile: 'dev', opts: { tenant: 'acme', region2: 'x' } } },
+        { params: { b: '3' }, cliOptions: { awsProfile: 'prod', opts: { tenant: 'globex' } } }
+      );
+
+      // Then overrides take precedence key by key
+      expect(merged).toEqual({
+        params: { a: '1', b: '3' },
+        cliOptions: { awsProfile: 'prod', opts: { tenant: 'globex', region2: 'x' } }
+      });
+    });
+
+    it('should handle missing defaults and overrides', () => {
+      expect(mergeCliOptions()).toEqual({ params: {}, cliOptions: {} });
+    });
+  });
+});
@@ -0,0 +1,131 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ServerlessBinary } from '../binary-resolver';
+import { ServerlessCLI } from '../cli';
+
+describe('ServerlessCLI', () => {
+  let root: string;
+  let fakeBinary: ServerlessBinary;
+  let cli: ServerlessCLI;
+
+  beforeAll(() => {
+    // A fake serverless binary that records its PID, then runs until it is terminated
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'orcdk-cli-'));
+    fakeBinary = {
+      command: path.join(root, 'serverless'),
+      prefixArgs: [],
+      source: 'configured',
+      location: path.join(root, 'serverless'),
+      flavor: 'serverless',
+      version: { major: 3, minor: 38, patch: 0 },
+      capabilities: { params: true, compose: true, builtInBuild: false, requiresLogin: false }
+    };
+    fs.writeFileSync(
+      fakeBinary.command,
+      "#!/usr/bin/env node\nrequire('fs').writeFileSync('serverless.pid', String(process.pid));\nsetInterval(() => {}, 1000);\n",
+      { mode: 0o755 }
+    );
+    jest.spyOn(process.stdout, 'write').mockReturnValue(true);
+  });
+
+  afterAll(() => {
+    jest.restoreAllMocks();
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  beforeEach(() => {
+    cli = new ServerlessCLI();
+    jest.spyOn(cli, 'resolveBinary').mockResolvedValue(fakeBinary);
+  });
+
+  const isRunning = (pid: number): boolean => {
+    try {
+      process.kill(pid, 0);
+      return true;
+    } catch {
+      return false;
+    }
+  };
+
+  /**
+   * Start a deploy in its own directory and wait until the fake binary is running
+   */
+  const startDeploy = async (options: { signal?: AbortSignal; timeout?: number } = {}) => {
+    const servicePath = fs.mkdtempSync(path.join(root, 'service-'));
+    const pidFile = path.join(servicePath, 'serverless.pid');
+    let settled = false;
+    const deploy = cli.deploy(servicePath, 'dev', undefined, options);
+    // Keep an early rejection from being reported as unhandled
+    deploy.catch(() => undefined).finally(() => {
+      settled = true;
+    });
+
+    while (!fs.existsSync(pidFile) && !settled) {
+      await new Promise(resolve => setTimeout(resolve, 20));
+    }
+
+    return { deploy, servicePath, pid: settled ? 0 : Number(fs.readFileSync(pidFile, 'utf-8')) };
+  };
+
+  it('should reject and kill the command when it times out', async () => {
+    // Given a command that never finishes and a short timeout
+    const { deploy, pid } = await startDeploy({ timeout: 500 });
+
+    // When the timeout passes
+    // Then the command rejects and the binary is gone
+    await expect(deploy).rejects.toThrow('Serverless command timed out after 500ms: serverless deploy --stage dev');
+    expect(pid).toBeGreaterThan(0);
+    expect(isRunning(pid)).toBe(false);
+  });
+
+  it('should reject and kill the command when aborted mid-run', async () => {
+    // Given a running command
+    const controller = new AbortController();
+    const { deploy, pid } = await startDeploy({ signal: controller.signal });
+
+    // When aborting
+    controller.abort();
+
+    // Then the command rejects and the binary is gone
+    await expect(deploy).rejects.toThrow('Serverless command aborted: serverless deploy --stage dev');
+    expect(isRunning(pid)).toBe(false);
+  });
+
+  it('should terminate every in-flight command on cancelAll', async () => {
+    // Given two running commands
+    const first = await startDeploy();
+    const second = await startDeploy();
+
+    // When cancelling everything
+    cli.cancelAll();
+
+    // Then both reject and neither binary is left
+    await expect(first.deploy).rejects.toThrow('Serverless command cancelled');
+    await expect(second.deploy).rejects.toThrow('Serverless command cancelled');
+    expect(isRunning(first.pid)).toBe(false);
+    expect(isRunning(second.pid)).toBe(false);
+  });
+
+  it('should not start a command cancelled while its binary is resolved', async () => {
+    // Given binary resolution that is still running
+    let resolveBinary: (binary: ServerlessBinary) => void = () => undefined;
+    jest.spyOn(cli, 'resolveBinary').mockReturnValue(new Promise(resolve => {
+      resolveBinary = resolve;
+    }));
+    const controller = new AbortController();
+    const onLine = jest.fn();
+    const aborted = cli.deploy(process.cwd(), 'dev', undefined, { signal: controller.signal, onLine });
+    const cancelled = cli.remove(process.cwd(), 'dev', undefined, { onLine });
+
+    // When aborting one and cancelling everything before resolution finishes
+    controller.abort();
+    cli.cancelAll();
+    resolveBinary(fakeBinary);
+
+    // Then neither command runs
+    await expect(aborted).rejects.toThrow('Serverless command aborted before start: serverless deploy --stage dev');
+    await expect(cancelled).rejects.toThrow('Serverless command cancelled before start: serverless remove --stage dev');
+    expect(onLine).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,102 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ServerlessComposeReader } from '../compose';
+
+describe('ServerlessComposeReader', () => {
+  let tmpDir: string;
+  let reader: ServerlessComposeReader;
+
+  const write = (content: string): string => {
+    const file = path.join(tmpDir, 'serverless-compose.yml');
+    fs.writeFileSync(file, content);
+    return file;
+  };
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'orcdk-compose-'));
+    reader = new ServerlessComposeReader();
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it('should read services with params and dependencies', async () => {
+    // Given services wired together with output references and dependsOn
+    const file = write([
+      'services:',
+      '  api:',
+      '    path: services/api',
+      '    params:',
+      '      queueUrl: ${jobs.queueUrl}',
+      '      stage: ${sls:stage}',
+      '  jobs:',
+      '    path: services/jobs',
+      '    config: serverless.jobs.yml',
+      '    dependsOn: shared',
+      '  shared:',
+      '    path: services/shared'
+    ].join('\n'));
+
+    // When reading the compose file
+    const compose = await reader.read(file);
+
+    // Then services are modelled and ordered after their dependencies
+    expect(compose.services[0]).toEqual({
+      name: 'api',
+      file,
+      path: path.join(tmpDir, 'services/api'),
+      config: undefined,
+      params: { queueUrl: '${jobs.queueUrl}', stage: '${sls:stage}' },
+      dependsOn: ['jobs']
+    });
+    expect(compose.services[1]).toMatchObject({ config: 'serverless.jobs.yml', dependsOn: ['shared'] });
+    expect(compose.order).toEqual(['shared', 'jobs', 'api']);
+  });
+
+  it('should reject unknown dependencies and cycles', async () => {
+    const unknown = write('services:\n  api:\n    path: api\n    dependsOn: [missing]\n');
+    await expect(reader.read(unknown)).rejects.toThrow("'api' depends on unknown service 'missing'");
+
+    const cyclic = write([
+      'services:',
+      '  a:',
+      '    path: a',
+      '    params:',
+      '      value: ${b.out}',
+      '  b:',
+      '    path: b',
+      '    dependsOn: a'
+    ].join('\n'));
+    await expect(reader.read(cyclic)).rejects.toThrow('Circular dependency in ' + cyclic + ': a -> b -> a');
+  });
+
+  it('should require a path for every service', async () => {
+    const file = write('services:\n  api:\n    params: {}\n');
+
+    await expect(reader.read(file)).rejects.toThrow("Compose service 'api' in " + file + ' must have a path');
+  });
+
+  it('should resolve params from the outputs of deployed services', () => {
+    const service = {
+      name: 'api',
+      file: 'serverless-compose.yml',
+      path: '/project/api',
+      params: { queueUrl: '${jobs.queueUrl}', tags: { team: 'orders' }, stage: '${sls:stage}' },
+      dependsOn: ['jobs']
+    };
+
+    expect(ServerlessComposeReader.resolveParams(service, { jobs: { queueUrl: 'https://sqs/jobs' } })).toEqual({
+      queueUrl: 'https://sqs/jobs',
+      tags: '{"team":"orders"}',
+      stage: '${sls:stage}'
+    });
+    expect(() => ServerlessComposeReader.resolveParams(service, {})).toThrow(
+      "Cannot resolve param 'queueUrl' of 'api': output 'queueUrl' of 'jobs' is not available"
+    );
+    expect(ServerlessComposeReader.resolveParams(service, {}, { placeholders: true })).toMatchObject({
+      queueUrl: '<jobs.queueUrl>'
+    });
+  });
+});
@@ -0,0 +1,139 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ServerlessConfigLoader } from '../config-loader';
+
+describe('ServerlessConfigLoader', () => {
+  let tmpDir: string;
+  let loader: ServerlessConfigLoader;
+
+  const write = (name: string, content: string): string => {
+    const file = path.join(tmpDir, name);
+    fs.writeFileSync(file, content);
+    return file;
+  };
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'orcdk-config-'));
+    loader = new ServerlessConfigLoader({ timeout: 10000 });
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it('should load YAML and JSON configs', async () => {
+    const yml = write('serverless.yml', 'service: yaml-api\nfunctions:\n  hello:\n    handler: handler.hello\n');
+    const json = write('serverless.json', JSON.stringify({ service: 'json-api' }));
+
+    expect(await loader.load(yml)).toMatchObject({ service: 'yaml-api', functions: { hello: { handler: 'handler.hello' } } });
+    expect(await loader.load(json)).toEqual({ service: 'json-api' });
+  });
+
+  it('should read CloudFormation tags in YAML as their long form', async () => {
+    // Given resources written with short-form intrinsic functions
+    const file = write('serverless.yml', [
+      'service: tagged',
+      'resources:',
+      '  Resources:',
+      '    Queue:',
+      '      Type: AWS::SQS::Queue',
+      '      Properties:',
+      '        QueueName: !Sub ${AWS::StackName}-queue',
+      '        KmsMasterKeyId: !ImportValue shared-KeyId',
+      '        RedrivePolicy:',
+      '          deadLetterTargetArn: !GetAtt DeadLetters.Arn',
+      '        Tags: !If [IsProd, [{ Key: env, Value: !Ref Stage }], !Ref AWS::NoValue]',
+      ''
+    ].join('\n'));
+
+    // When loading it
+    const config = await loader.load(file);
+
+    // Then each tag becomes the function it stands for
+    expect(config.resources).toEqual({
+      Resources: {
+        Queue: {
+          Type: 'AWS::SQS::Queue',
+          Properties: {
+            QueueName: { 'Fn::Sub': '${AWS::StackName}-queue' },
+            KmsMasterKeyId: { 'Fn::ImportValue': 'shared-KeyId' },
+            RedrivePolicy: { deadLetterTargetArn: { 'Fn::GetAtt': ['DeadLetters', 'Arn'] } },
+            Tags: { 'Fn::If': ['IsProd', [{ Key: 'env', Value: { Ref: 'Stage' } }], { Ref: 'AWS::NoValue' }] }
+          }
+        }
+      }
+    });
+  });
+
+  it('should evaluate CommonJS configs in a child process', async () => {
+    // Given a JS config that computes values and reads the environment
+    const file = write('serverless.js', `
+      module.exports = {
+        service: 'js-api',
+        provider: { name: 'aws', stage: process.env.ORCDK_TEST_STAGE || 'dev' },
+        functions: { hello: { handler: ['src', 'hello.main'].join('/') } }
+      };
+    `);
+    process.env.ORCDK_TEST_STAGE = 'qa';
+
+    try {
+      // When loading it
+      const config = await loader.load(file);
+
+      // Then the evaluated object is returned
+      expect(config).toEqual({
+        service: 'js-api',
+        provider: { name: 'aws', stage: 'qa' },
+        functions: { hello: { handler: 'src/hello.main' } }
+      });
+    } finally {
+      delete process.env.ORCDK_TEST_STAGE;
+    }
+  });
+
+  it('should await configs that export a promise or a default export', async () => {
+    const promised = write('serverless.cjs', "module.exports = Promise.resolve({ service: 'async-api' });");
+    const esm = write('serverless.mjs', "export default { service: 'esm-api' };");
+
+    expect(await loader.load(promised)).toEqual({ service: 'async-api' });
+    expect(await loader.load(esm)).toEqual({ service: 'esm-api' });
+  });
+
+  it('should stop configs that do not finish within the timeout', async () => {
+    // Given a config that never finishes
+    const file = write('serverless.js', 'setInterval(() => {}, 1000); module.exports = new Promise(() => {});');
+    const impatient = new ServerlessConfigLoader({ timeout: 500 });
+
+    // When loading it, then it times out
+    await expect(impatient.load(file)).rejects.toThrow('timed out after 500ms');
+  });
+
+  it('should report errors thrown by the config', async () => {
+    const file = write('serverless.js', "throw new Error('missing STAGE');");
+
+    await expect(loader.load(file)).rejects.toThrow(/Failed to evaluate .*missing STAGE/s);
+  });
+
+  it('should reject configs that are not objects', async () => {
+    const file = write('serverless.yml', '- just\n- a list\n');
+
+    await expect(loader.load(file)).rejects.toThrow('must define an object');
+  });
+
+  it('should keep the config Serverless prefers in each directory', () => {
+    const files = [
+      '/project/api/serverless.ts',
+      '/project/api/serverless.yml',
+      '/project/jobs/serverless.ts',
+      '/project/web/serverless.json',
+      '/project/web/serverless.js'
+    ];
+
+    expect(ServerlessConfigLoader.selectPreferred(files)).toEqual([
+      '/project/api/serverless.yml',
+      '/project/jobs/serverless.ts',
+      '/project/web/serverless.json'
+    ]);
+  });
+});
@@ -0,0 +1,167 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as yaml from 'js-yaml';
+import { ServerlessConfigValidator, locatePath } from '../config-validator';
+
+describe('ServerlessConfigValidator', () => {
+  let tmpDir: string;
+  let validator: ServerlessConfigValidator;
+
+  const write = (name: string, content: string): string => {
+    const file = path.join(tmpDir, name);
+    fs.writeFileSync(file, content);
+    return file;
+  };
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'orcdk-validate-'));
+    validator = new ServerlessConfigValidator();
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it('should accept a valid config', async () => {
+    const config = {
+      service: 'api',
+      provider: { name: 'aws', runtime: 'nodejs20.x' },
+      functions: {
+        hello: { handler: 'src/hello.handler', events: [{ http: 'GET /hello' }, { sqs: { arn: 'arn:aws:sqs:::q' } }] },
+        image: { image: 'api:latest' },
+        java: { handler: 'com.example.Handler::handleRequest', runtime: 'java21' }
+      }
+    };
+
+    expect(await validator.validate(write('serverless.yml', ''), config)).toEqual([]);
+  });
+
+  it('should report problems at their line and column', async () => {
+    // Given a YAML config with several problems
+    const content = [
+      'service: api',
+      'provider:',
+      '  name: awz',
+      'functions:',
+      '  hello:',
+      '    handler: handler',
+      '    events:',
+      '      - http: /hello',
+      '      - schedule:',
+      '          enabled: true',
+      '      - carrierPigeon: true',
+      '  world:',
+      '    events: []'
+    ].join('\n');
+    const file = write('serverless.yml', content);
+
+    // When validating it
+    const diagnostics = await validator.validate(file, yaml.load(content) as Record<string, unknown>);
+
+    // Then each problem points at the offending key
+    expect(diagnostics).toEqual([
+      { file, line: 3, column: 3, path: 'provider.name', severity: 'error', message: "Unknown provider 'awz'" },
+      {
+        file, line: 6, column: 5, path: 'functions.hello.handler', severity: 'error',
+        message: "Handler 'handler' of 'hello' must be '<file path>.<exported function>'"
+      },
+      {
+        file, line: 8, column: 9, path: 'functions.hello.events[0].http', severity: 'error',
+        message: "http event '/hello' must be '<METHOD> <path>'"
+      },
+      {
+        file, line: 9, column: 9, path: 'functions.hello.events[1].schedule', severity: 'error',
+        message: 'schedule event needs a rate'
+      },
+      {
+        file, line: 11, column: 9, path: 'functions.hello.events[2].carrierPigeon', severity: 'warning',
+        message: "Unknown event type 'carrierPigeon'"
+      },
+      { file, line: 12, column: 3, path: 'functions.world.handler', severity: 'error', message: "Function 'world' needs a handler" }
+    ]);
+  });
+
+  it('should require a service and a provider', async () => {
+    const file = write('serverless.json', JSON.stringify({ functions: {} }, null, 2));
+
+    const diagnostics = await validator.validate(file, { functions: {} });
+
+    expect(diagnostics.map(d => d.message)).toEqual(['service is required and must be a name', 'provider is required']);
+  });
+
+  it('should skip values that are resolved at deploy time', async () => {
+    const config = {
+      service: 'api',
+      provider: { name: '${param:provider}' },
+      functions: { hello: { handler: '${self:custom.handler}', events: [{ httpApi: '${param:route}' }] } }
+    };
+
+    expect(await validator.validate(write('serverless.yml', ''), config)).toEqual([]);
+  });
+
+  it('should locate YAML and JSON parse errors', () => {
+    // Given a YAML error and a JSON error
+    let yamlError: unknown;
+    try {
+      yaml.load('service: api\nprovider:\n  name: aws\n bad: indent\n');
+    } catch (error) {
+      yamlError = error;
+    }
+    const jsonFile = write('serverless.json', '{\n  "service": "api",\n}');
+    let jsonError: unknown;
+    try {
+      JSON.parse(fs.readFileSync(jsonFile, 'utf-8'));
+    } catch (error) {
+      jsonError = error;
+    }
+
+    // When turning them into diagnostics
+    const fromYaml = validator.fromError('serverless.yml', yamlError);
+    const fromJson = validator.fromError(jsonFile, jsonError);
+
+    // Then their location is kept
+    expect(fromYaml).toMatchObject({ file: 'serverless.yml', line: 4, severity: 'error' });
+    expect(fromYaml.message).toMatch(/^Failed to load config: /);
+    expect(fromJson).toMatchObject({ line: 3, column: 1 });
+  });
+
+  it('should find key paths in YAML and JSON', () => {
+    const yamlContent = 'a:\n  # note\n  b:\n    - x: 1\n    -\n      y: 2\n  c: { d: 1 }\n';
+    expect(locatePath(yamlContent, ['a', 'b', 1, 'y'])).toEqual({ line: 6, column: 7 });
+    expect(locatePath(yamlContent, ['a', 'c', 'd'])).toEqual({ line: 7, column: 8 });
+    expect(locatePath(yamlContent, ['a', 'c', 'e'])).toEqual({ line: 7, column: 3 });
+    expect(locatePath(yamlContent, ['missing'])).toBeUndefined();
+
+    const jsonContent = '{\n  "a": {\n    "b": [\n      { "c": 1 },\n      { "c": 2 }\n    ]\n  }\n}';
+    expect(locatePath(jsonContent, ['a', 'b', 0, 'c'])).toEqual({ line: 4, column: 9 });
+    expect(locatePath(jsonContent, ['a', 'b', 1, 'c'])).toEqual({ line: 5, column: 9 });
+  });
+
+  it('should find key paths through list items, anchors and block scalars', () => {
+    // Given events in a list, keys merged from an anchor and a block scalar
+    const content = [
+      'defaults: &defaults',
+      '  environment:',
+      '    TABLE: orders',
+      'functions:',
+      '  api:',
+      '    <<: *defaults',
+      '    description: |',
+      '      events:',
+      '        - http: not a key',
+      '    events:',
+      '      - sqs: queue',
+      '      - http:',
+      '          path: /orders',
+      ''
+    ].join('\n');
+
+    // When locating keys under them
+    // Then the second event, the merged key and the key after the block scalar are found
+    expect(locatePath(content, ['functions', 'api', 'events', 1, 'http'])).toEqual({ line: 12, column: 9 });
+    expect(locatePath(content, ['functions', 'api', 'events', 1, 'http', 'path'])).toEqual({ line: 13, column: 11 });
+    expect(locatePath(content, ['functions', 'api', 'environment', 'TABLE'])).toEqual({ line: 3, column: 5 });
+    expect(locatePath(content, ['functions', 'api', 'events'])).toEqual({ line: 10, column: 5 });
+  });
+});
@@ -0,0 +1,137 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ServerlessDependencyGraph, findCdkOutDir, readCdkStacks } from '../dependency-graph';
+import { CdkStack, ServerlessDependency, ServerlessService } from '../types';
+
+describe('ServerlessDependencyGraph', () => {
+  const service = (name: string, records: Array<Partial<ServerlessDependency>> = []): ServerlessService => ({
+    name,
+    path: `/project/${name}`,
+    configFile: `/project/${name}/serverless.yml`,
+    provider: 'serverless',
+    dependencies: records.map(r => r.stack!),
+    dependencyRecords: records.map(r => ({ kind: 'cloudformation', sourceFile: `/project/${name}/serverless.yml`, ...r }) as ServerlessDependency)
+  });
+
+  const cdkStacks: CdkStack[] = [
+    { id: 'NetworkStack', stackName: 'network-prod', dependencies: [] },
+    { id: 'DataStack', stackName: 'data-prod', dependencies: ['NetworkStack'] }
+  ];
+
+  it('should link services to CDK stacks, other services and external stacks', () => {
+    // Given services reading from CDK stacks, another service and an unknown stack
+    const services = [
+      service('orders', [
+        { stack: 'data-prod', output: 'TableName' },
+        { kind: 'ssm', stack: 'NetworkStack', parameter: '/network/vpc-id' },
+        { stack: 'legacy-stack', output: 'BucketName' }
+      ]),
+      service('billing', [{ kind: 'compose', stack: 'orders', output: 'QueueUrl' }, { stack: 'billing-prod' }])
+    ];
+
+    // When building the graph
+    const graph = new ServerlessDependencyGraph(services, cdkStacks, 'prod');
+
+    // Then references resolve by stack name, construct ID or service name
+    expect(graph.getNode('serverless:orders')?.dependsOn).toEqual(['cdk:DataStack', 'cdk:NetworkStack', 'external:legacy-stack']);
+    expect(graph.getNode('serverless:billing')).toEqual({
+      id: 'serverless:billing',
+      kind: 'serverless',
+      name: 'billing',
+      stackName: 'billing-prod',
+      dependsOn: ['serverless:orders']
+    });
+    expect(graph.getNode('external:legacy-stack')?.kind).toBe('external');
+    expect(graph.getDependencies('serverless:billing').map(n => n.name)).toEqual(['orders']);
+    expect(graph.getDependents('cdk:NetworkStack').map(n => n.id)).toEqual(['cdk:DataStack', 'serverless:orders']);
+  });
+
+  it('should deploy dependencies first and remove them last', () => {
+    // Given a service declared before the service and stack it reads from
+    const services = [
+      service('billing', [{ kind: 'compose', stack: 'orders' }]),
+      service('orders', [{ stack: 'data-prod' }])
+    ];
+    const graph = new ServerlessDependencyGraph(services, cdkStacks, 'prod');
+
+    // When ordering
+    const order = graph.getDeployOrder();
+
+    // Then every node comes after its dependencies
+    expect(order).toEqual(['cdk:NetworkStack', 'cdk:DataStack', 'serverless:orders', 'serverless:billing']);
+    expect(graph.getRemovalOrder()).toEqual([...order].reverse());
+  });
+
+  it('should report cycles instead of an order', () => {
+    // Given two services reading each other's outputs
+    const services = [
+      service('orders', [{ stack: 'billing-dev' }]),
+      service('billing', [{ stack: 'orders-dev' }]),
+      service('reports', [{ stack: 'orders-dev' }])
+    ];
+    const graph = new ServerlessDependencyGraph(services);
+
+    // When ordering
+    // Then the cycle is named
+    expect(graph.findCycles()).toEqual([['serverless:orders', 'serverless:billing', 'serverless:orders']]);
+    expect(() => graph.getDeployOrder()).toThrow(
+      'Circular dependencies between stacks:\n  - serverless:orders -> serverless:billing -> serverless:orders'
+    );
+  });
+});
+
+describe('readCdkStacks', () => {
+  let cdkRoot: string;
+
+  beforeEach(() => {
+    cdkRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'orcdk-cdk-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(cdkRoot, { recursive: true, force: true });
+  });
+
+  const writeManifest = (dir: string, artifacts: Record<string, unknown>): void => {
+    fs.mkdirSync(dir, { recursive: true });
+    fs.writeFileSync(path.join(dir, 'manifest.json'), JSON.stringify({ version: '36.0.0', artifacts }));
+  };
+
+  it('should read stacks and their stack dependencies, including nested stages', async () => {
+    // Given a cloud assembly in a custom output directory with a stage assembly
+    fs.writeFileSync(path.join(cdkRoot, 'cdk.json'), JSON.stringify({ app: 'npx ts-node bin/app.ts', output: 'build/cdk' }));
+    const cdkOut = path.join(cdkRoot, 'build', 'cdk');
+    writeManifest(cdkOut, {
+      'ApiStack.assets': { type: 'cdk:asset-manifest' },
+      NetworkStack: {
+        type: 'aws:cloudformation:stack',
+        properties: { stackName: 'network-dev', templateFile: 'NetworkStack.template.json' }
+      },
+      ApiStack: { type: 'aws:cloudformation:stack', dependencies: ['ApiStack.assets', 'NetworkStack'] },
+      'assembly-Prod': { type: 'cdk:cloud-assembly', properties: { directoryName: 'assembly-Prod' } }
+    });
+    writeManifest(path.join(cdkOut, 'assembly-Prod'), {
+      ProdApiStack: { type: 'aws:cloudformation:stack', properties: { stackName: 'Prod-ApiStack' } }
+    });
+
+    // When reading the stacks
+    const stacks = await readCdkStacks(await findCdkOutDir(cdkRoot));
+
+    // Then asset manifests are left out
+    expect(stacks).toEqual([
+      {
+        id: 'NetworkStack',
+        stackName: 'network-dev',
+        dependencies: [],
+        templateFile: path.join(cdkOut, 'NetworkStack.template.json')
+      },
+      { id: 'ApiStack', stackName: 'ApiStack', dependencies: ['NetworkStack'] },
+      { id: 'ProdApiStack', stackName: 'Prod-ApiStack', dependencies: [] }
+    ]);
+  });
+
+  it('should find no stacks before the app is synthesized', async () => {
+    expect(await findCdkOutDir(cdkRoot)).toBe(path.join(cdkRoot, 'cdk.out'));
+    expect(await readCdkStacks(path.join(cdkRoot, 'cdk.out'))).toEqual([]);
+  });
+});
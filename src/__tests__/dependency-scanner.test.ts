@@ -1,4 +1,6 @@
 import { ServerlessDependencyScanner } from '../dependency-scanner';
+import { CdkOutputIndex } from '../cdk-output-index';
+import { ServerlessDependencyGraph } from '../dependency-graph';
 import { EventBus } from '@orcdkestrator/core';
 import * as fs from 'fs';
 
@@ -125,6 +127,18 @@ custom:
       );
     });
     
+    it('should not emit detection events when rescanning without them', async () => {
+      // Given a config with an SSM reference
+      const content = { custom: { vpcId: '${ssm:/vpc-stack/vpc-id}' } };
+
+      // When scanning it with events off
+      const records = await scanner.scanConfig(content, 'serverless.js', 'dev', { emit: false });
+
+      // Then the reference is found but not reported
+      expect(records).toHaveLength(1);
+      expect(mockEventBus.emitEvent).not.toHaveBeenCalled();
+    });
+    
     it('should handle SSM references in different sections', async () => {
       // Given SSM in various locations
       const yamlContent = `
@@ -245,6 +259,332 @@ custom:
     });
   });
   
+  describe('when resolving variables for a stage', () => {
+    it('should use concrete stack names from resolved references', async () => {
+      // Given references built from local variables
+      const yamlContent = `
+service: my-service
+provider:
+  stage: \${opt:stage, 'dev'}
+custom:
+  network: network-\${self:provider.stage}
+  vpcId: \${cf:\${self:custom.network}.VpcId}
+  dbHost: \${ssm:/\${self:provider.stage}/rds-stack/endpoint}
+`;
+      jest.spyOn(fs.promises, 'readFile').mockResolvedValue(yamlContent);
+      
+      // When scanning for the prod stage
+      const deps = await scanner.scanDependencies('serverless.yml', undefined, { stage: 'prod' });
+      
+      // Then the stack names are the ones deployed for prod
+      expect(deps).toEqual(expect.arrayContaining(['network-prod', 'rds-stack']));
+      expect(mockEventBus.emitEvent).toHaveBeenCalledWith(
+        'serverless:dependency:detected',
+        expect.objectContaining({ type: 'cloudformation', target: 'network-prod', outputName: 'VpcId' }),
+        'ServerlessDependencyScanner'
+      );
+    });
+  });
+  
+  describe('when naming stacks for a stage', () => {
+    it('should record the concrete stack with its stage-agnostic name', async () => {
+      // Given stacks named after the stage, which comes from provider.stage unless passed
+      const yamlContent = `
+service: my-service
+provider:
+  stage: \${opt:stage, 'dev'}
+custom:
+  apiId: \${cf:\${self:provider.stage}-api-stack.RestApiId}
+  tableName: \${cf:data_\${sls:stage}.TableName}
+  vpcId: \${ssm:/\${opt:stage}-network-stack/vpc-id}
+  shared: \${cf:shared-stack.BucketName}
+`;
+      jest.spyOn(fs.promises, 'readFile').mockResolvedValue(yamlContent);
+
+      // When scanning for prod
+      const records = await scanner.scanDependencyRecords('serverless.yml', undefined, { stage: 'prod', options: {} });
+      const deps = await scanner.scanDependencies('serverless.yml', undefined, { stage: 'prod' });
+
+      // Then the stacks are the ones that exist for prod, and the logical names drop the stage
+      expect(records.map(r => [r.stack, r.logicalStack])).toEqual([
+        ['prod-network-stack', 'network-stack'],
+        ['prod-api-stack', 'api-stack'],
+        ['data_prod', 'data'],
+        ['shared-stack', 'shared-stack']
+      ]);
+      expect(deps).toEqual(['prod-network-stack', 'prod-api-stack', 'data_prod', 'shared-stack']);
+      expect(mockEventBus.emitEvent).toHaveBeenCalledWith(
+        'serverless:dependency:detected',
+        expect.objectContaining({ target: 'prod-api-stack', logicalTarget: 'api-stack' }),
+        'ServerlessDependencyScanner'
+      );
+    });
+
+    it('should fall back to the config stage and keep names it cannot resolve', async () => {
+      // Given a config stage and a stack named after a variable only known at deploy time
+      const yamlContent = `
+provider:
+  stage: qa
+custom:
+  apiId: \${cf:qa-api-stack.RestApiId}
+  other: \${cf:\${sls:instanceId}-cache-stack.Output}
+`;
+      jest.spyOn(fs.promises, 'readFile').mockResolvedValue(yamlContent);
+
+      // When scanning without a stage
+      const records = await scanner.scanDependencyRecords('serverless.yml', undefined, {});
+
+      // Then provider.stage is used, and the unresolved name is reduced as before
+      expect(records.map(r => [r.stack, r.logicalStack])).toEqual([
+        ['qa-api-stack', 'api-stack'],
+        ['cache-stack', 'cache-stack']
+      ]);
+    });
+  });
+  
+  describe('when scanning dependency records', () => {
+    it('should describe each reference with its kind, stack and where it is written', async () => {
+      // Given a service reading an SSM parameter and a CloudFormation output
+      const yamlContent = `
+service: my-service
+custom:
+  apiId: \${ssm:/api-stack/rest-api-id}
+  vpcId: \${cf:network-stack.VpcId}
+  subnets: \${cf:network-stack.SubnetIds}
+  vpcAgain: \${cf:network-stack.VpcId}
+`;
+      jest.spyOn(fs.promises, 'readFile').mockResolvedValue(yamlContent);
+      
+      // When scanning for records
+      const records = await scanner.scanDependencyRecords('serverless.yml');
+      
+      // Then each distinct reference is recorded once
+      expect(records).toEqual([
+        {
+          kind: 'ssm',
+          stack: 'api-stack',
+          logicalStack: 'api-stack',
+          parameter: '/api-stack/rest-api-id',
+          expression: '${ssm:/api-stack/rest-api-id}',
+          sourceFile: 'serverless.yml',
+          line: 4,
+          column: 10,
+          path: 'custom.apiId'
+        },
+        {
+          kind: 'cloudformation',
+          stack: 'network-stack',
+          logicalStack: 'network-stack',
+          output: 'VpcId',
+          expression: '${cf:network-stack.VpcId}',
+          sourceFile: 'serverless.yml',
+          line: 5,
+          column: 10,
+          path: 'custom.vpcId'
+        },
+        {
+          kind: 'cloudformation',
+          stack: 'network-stack',
+          logicalStack: 'network-stack',
+          output: 'SubnetIds',
+          expression: '${cf:network-stack.SubnetIds}',
+          sourceFile: 'serverless.yml',
+          line: 6,
+          column: 12,
+          path: 'custom.subnets'
+        }
+      ]);
+      expect(mockEventBus.emitEvent).toHaveBeenCalledWith(
+        'serverless:dependency:detected',
+        expect.objectContaining({
+          type: 'ssm',
+          target: 'api-stack',
+          parameterPath: '/api-stack/rest-api-id',
+          line: 4,
+          column: 10,
+          path: 'custom.apiId'
+        }),
+        'ServerlessDependencyScanner'
+      );
+    });
+
+    it('should locate references in lists, resolved variables and short-form imports', async () => {
+      // Given references nested in a function, a list and a resource written with !ImportValue
+      const yamlContent = `
+service: orders
+functions:
+  api:
+    environment:
+      TABLE: \${cf:data-\${sls:stage}.TableName}
+    layers:
+      - arn:aws:lambda:us-east-1:1:layer:base:1
+      - \${ssm:/layers/shared-stack/arn}
+resources:
+  Resources:
+    Queue:
+      Properties:
+        KmsMasterKeyId: !ImportValue shared-KeyId
+`;
+      jest.spyOn(fs.promises, 'readFile').mockResolvedValue(yamlContent);
+
+      // When scanning for prod, which rewrites the CloudFormation reference
+      const records = await scanner.scanDependencyRecords('serverless.yml', undefined, { stage: 'prod' });
+
+      // Then resolved values point at their key and the others at the reference itself
+      expect(records.map(r => [r.expression, r.line, r.column, r.path])).toEqual([
+        ['${ssm:/layers/shared-stack/arn}', 9, 9, 'functions.api.layers[1]'],
+        ['${cf:data-prod.TableName}', 6, 7, 'functions.api.environment.TABLE'],
+        ['{"Fn::ImportValue":"shared-KeyId"}', 14, 9, 'resources.Resources.Queue.Properties.KmsMasterKeyId']
+      ]);
+    });
+  });
+
+  describe('when scanning other reference syntaxes', () => {
+    it('should record region-qualified SSM and CloudFormation references', async () => {
+      // Given references to other regions in both syntaxes, a param and a fallback
+      const yamlContent = `
+custom:
+  certArn: \${cf(us-east-1):cert-stack.CertificateArn}
+  edgeTable: \${cf.eu-west-1:edge-stack.TableName}
+  vpcId: \${ssm(us-west-2):/network-stack/vpc-id}
+  secret: \${ssm(raw):/secrets-stack/api-key}
+  dbHost: \${ssm:/rds-stack/endpoint, 'localhost'}
+`;
+      jest.spyOn(fs.promises, 'readFile').mockResolvedValue(yamlContent);
+
+      // When scanning for records
+      const records = await scanner.scanDependencyRecords('serverless.yml');
+
+      // Then regions are kept apart from params, and fallbacks are dropped
+      expect(records).toEqual([
+        expect.objectContaining({ kind: 'ssm', stack: 'network-stack', parameter: '/network-stack/vpc-id', region: 'us-west-2' }),
+        expect.objectContaining({ kind: 'ssm', stack: 'secrets-stack', region: undefined }),
+        expect.objectContaining({ kind: 'ssm', stack: 'rds-stack', parameter: '/rds-stack/endpoint' }),
+        expect.objectContaining({
+          kind: 'cloudformation',
+          stack: 'cert-stack',
+          output: 'CertificateArn',
+          region: 'us-east-1',
+          expression: '${cf(us-east-1):cert-stack.CertificateArn}'
+        }),
+        expect.objectContaining({ kind: 'cloudformation', stack: 'edge-stack', output: 'TableName', region: 'eu-west-1' })
+      ]);
+      expect(mockEventBus.emitEvent).toHaveBeenCalledWith(
+        'serverless:dependency:detected',
+        expect.objectContaining({
+          type: 'cloudformation',
+          target: 'cert-stack',
+          region: 'us-east-1',
+          expression: '${cf(us-east-1):cert-stack.CertificateArn}'
+        }),
+        'ServerlessDependencyScanner'
+      );
+    });
+
+    it('should record imports, S3 objects, params and AWS variables without a stack', async () => {
+      // Given a resource importing an export in short and long form, and other variable sources
+      const yamlContent = `
+provider:
+  environment:
+    CONFIG: \${s3:config-bucket/api/settings.json}
+    TOKEN: \${param:apiToken}
+    ACCOUNT: \${aws:accountId}
+resources:
+  Resources:
+    Topic:
+      Type: AWS::SNS::Topic
+      Properties:
+        KmsMasterKeyId: !ImportValue shared-KeyArn
+        TopicName:
+          Fn::ImportValue:
+            Fn::Sub: \${AWS::StackName}-TopicName
+`;
+      jest.spyOn(fs.promises, 'readFile').mockResolvedValue(yamlContent);
+
+      // When scanning for records
+      const records = await scanner.scanDependencyRecords('serverless.yml');
+
+      // Then each is recorded, but none adds a stack dependency
+      expect(records).toEqual([
+        expect.objectContaining({ kind: 'import', exportName: 'shared-KeyArn', expression: '{"Fn::ImportValue":"shared-KeyArn"}' }),
+        expect.objectContaining({ kind: 'import', exportName: '{"Fn::Sub":"${AWS::StackName}-TopicName"}' }),
+        expect.objectContaining({ kind: 's3', bucket: 'config-bucket', key: 'api/settings.json' }),
+        expect.objectContaining({ kind: 'param', parameter: 'apiToken', expression: '${param:apiToken}' }),
+        expect.objectContaining({ kind: 'aws', parameter: 'accountId' })
+      ]);
+      expect(records.every(r => r.stack === undefined)).toBe(true);
+      expect(await scanner.scanDependencies('serverless.yml')).toEqual([]);
+      expect(mockEventBus.emitEvent).toHaveBeenCalledWith(
+        'serverless:dependency:detected',
+        expect.objectContaining({ type: 's3', target: 'config-bucket/api/settings.json' }),
+        'ServerlessDependencyScanner'
+      );
+    });
+  });
+  
+  describe('when resolving references against CDK stacks', () => {
+    it('should point references at the exact stack and report orphans', async () => {
+      // Given an SSM path whose stack can't be guessed and outputs of a CDK stack
+      const yamlContent = `
+custom:
+  vpcId: \${ssm:/prod/shared/vpc-id}
+  apiUrl: \${cf:ApiStack.ApiUrl}
+  missing: \${ssm:/prod/shared/unknown}
+  bucket: \${s3:config-bucket/settings.json}
+`;
+      jest.spyOn(fs.promises, 'readFile').mockResolvedValue(yamlContent);
+      const records = await scanner.scanDependencyRecords('serverless.yml');
+      const index = new CdkOutputIndex();
+      index.addTemplate({ id: 'NetworkStack', stackName: 'prod-network', dependencies: [] }, {
+        Resources: {
+          VpcIdParameter: {
+            Type: 'AWS::SSM::Parameter',
+            Properties: { Name: '/prod/shared/vpc-id' },
+            Metadata: { 'aws:cdk:path': 'NetworkStack/VpcIdParameter/Resource' }
+          }
+        }
+      });
+      index.addTemplate({ id: 'ApiStack', stackName: 'prod-api', dependencies: [] }, { Outputs: { ApiUrl: {} } });
+
+      // When resolving them
+      const orphans = scanner.resolveCdkSources(records, index, 'prod');
+
+      // Then matched references name the stack that writes them
+      expect(records[0]).toMatchObject({
+        stack: 'prod-network',
+        logicalStack: 'network',
+        cdk: { stackId: 'NetworkStack', constructPath: 'NetworkStack/VpcIdParameter/Resource' }
+      });
+      expect(records[2]).toMatchObject({ stack: 'prod-api', cdk: { logicalId: 'ApiUrl' } });
+      expect(orphans.map(o => o.expression)).toEqual(['${ssm:/prod/shared/unknown}']);
+    });
+
+    it('should not keep stacks guessed from SSM paths that no CDK stack writes', async () => {
+      // Given an SSM path that looks like it names a stack the CDK app doesn't have
+      jest.spyOn(fs.promises, 'readFile').mockResolvedValue('custom:\n  endpoint: ${ssm:/shared/cache-stack/endpoint}\n');
+      const records = await scanner.scanDependencyRecords('serverless.yml');
+      const network = { id: 'NetworkStack', stackName: 'prod-network', dependencies: [] };
+      const index = new CdkOutputIndex();
+      index.addTemplate(network, { Outputs: { VpcId: {} } });
+      expect(records[0].stack).toBe('cache-stack');
+
+      // When resolving it against the synthesized stacks
+      const orphans = scanner.resolveCdkSources(records, index, 'prod');
+
+      // Then it's an orphan without a stack, and the graph gets no node for the guess
+      expect(orphans).toEqual([expect.objectContaining({ parameter: '/shared/cache-stack/endpoint', stack: undefined })]);
+      const graph = new ServerlessDependencyGraph([{
+        name: 'orders',
+        path: '.',
+        configFile: 'serverless.yml',
+        provider: 'serverless',
+        dependencies: [],
+        dependencyRecords: records
+      }], [network], 'prod');
+      expect(graph.getNodes().map(n => n.id)).toEqual(['cdk:NetworkStack', 'serverless:orders']);
+    });
+  });
+  
   describe('when handling edge cases', () => {
     it('should not detect dependencies from non-SSM/CF references', async () => {
       // Given other variable types
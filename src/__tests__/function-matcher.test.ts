@@ -0,0 +1,44 @@
+import { findFunctionsForFile } from '../function-matcher';
+
+describe('findFunctionsForFile', () => {
+  const handlers = {
+    getUser: 'src/handlers/user.get',
+    updateUser: 'src/handlers/user.update',
+    auth: './src/functions/auth/handler.main',
+    legacy: 'handler.hello'
+  };
+
+  it('should match every function exported from the changed module', () => {
+    // Given a change to a handler module
+    // When matching
+    const functions = findFunctionsForFile(handlers, 'src/handlers/user.ts');
+
+    // Then both functions in the module are affected
+    expect(functions).toEqual(['getUser', 'updateUser']);
+  });
+
+  it('should ignore a leading ./ in handler paths', () => {
+    expect(findFunctionsForFile(handlers, 'src/functions/auth/handler.js')).toEqual(['auth']);
+  });
+
+  it('should match root-level handlers', () => {
+    expect(findFunctionsForFile(handlers, 'handler.py')).toEqual(['legacy']);
+  });
+
+  it('should treat unmatched files as shared code', () => {
+    // Given a change to a shared library file
+    // When matching
+    const functions = findFunctionsForFile(handlers, 'lib/db.ts');
+
+    // Then every function is affected
+    expect(functions).toEqual(['getUser', 'updateUser', 'auth', 'legacy']);
+  });
+
+  it('should match files and handlers without extensions', () => {
+    expect(findFunctionsForFile({ bin: 'bootstrap' }, 'bootstrap')).toEqual(['bin']);
+  });
+
+  it('should return nothing when no handlers are known', () => {
+    expect(findFunctionsForFile({}, 'src/handlers/user.ts')).toEqual([]);
+  });
+});
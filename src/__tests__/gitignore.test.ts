@@ -0,0 +1,29 @@
+import { gitignoreToGlobs } from '../gitignore';
+
+describe('gitignoreToGlobs', () => {
+  it('should match unanchored patterns at any depth', () => {
+    expect(gitignoreToGlobs('fixtures\n*.log\n')).toEqual([
+      '**/fixtures/**',
+      '**/fixtures',
+      '**/*.log/**',
+      '**/*.log'
+    ]);
+  });
+
+  it('should anchor patterns with a leading or middle slash', () => {
+    expect(gitignoreToGlobs('/examples\ndocs/generated\n')).toEqual([
+      'examples/**',
+      'examples',
+      'docs/generated/**',
+      'docs/generated'
+    ]);
+  });
+
+  it('should only ignore the contents of directory patterns', () => {
+    expect(gitignoreToGlobs('tmp/\n**/cache/\n')).toEqual(['**/tmp/**', '**/cache/**']);
+  });
+
+  it('should skip comments, blank lines and negations', () => {
+    expect(gitignoreToGlobs('# build output\n\n!keep.yml\n\\#literal\n')).toEqual(['**/#literal/**', '**/#literal']);
+  });
+});
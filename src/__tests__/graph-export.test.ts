@@ -0,0 +1,100 @@
+import { ServerlessDependencyGraph } from '../dependency-graph';
+import { ServerlessGraphExporter } from '../graph-export';
+import { CdkStack, ServerlessDependency, ServerlessService } from '../types';
+
+describe('ServerlessGraphExporter', () => {
+  const service = (name: string, records: Array<Partial<ServerlessDependency>>): ServerlessService => ({
+    name,
+    path: `/project/${name}`,
+    configFile: `/project/${name}/serverless.yml`,
+    provider: 'serverless',
+    dependencies: [],
+    dependencyRecords: records.map(r => ({ kind: 'cloudformation', sourceFile: `/project/${name}/serverless.yml`, ...r }) as ServerlessDependency)
+  });
+
+  const cdkStacks: CdkStack[] = [
+    { id: 'NetworkStack', stackName: 'network-prod', dependencies: [] },
+    { id: 'DataStack', stackName: 'data-prod', dependencies: ['NetworkStack'] },
+    { id: 'AuditStack', stackName: 'audit-prod', dependencies: [] }
+  ];
+
+  const services = [
+    service('orders', [
+      { stack: 'data-prod', output: 'TableName' },
+      {
+        kind: 'ssm',
+        stack: 'network-prod',
+        parameter: '/network/vpc-id',
+        cdk: { stackId: 'NetworkStack', stackName: 'network-prod', logicalId: 'VpcIdParameter' }
+      },
+      { kind: 'import', exportName: 'shared-KeyId' },
+      { kind: 'param', parameter: 'domain' }
+    ]),
+    service('billing', [{ kind: 'compose', stack: 'orders' }]),
+    service('reports', [{ stack: 'audit-prod', output: 'BucketName' }])
+  ];
+
+  const exporter = new ServerlessGraphExporter(services, new ServerlessDependencyGraph(services, cdkStacks, 'prod'));
+
+  it('should type nodes and label edges with the reference kind', () => {
+    // When building the diagram
+    const { nodes, edges } = exporter.build();
+
+    // Then parameters and exports sit between services and the stacks that write them
+    expect(nodes.map(n => [n.id, n.kind])).toEqual([
+      ['cdk:NetworkStack', 'cdk-stack'],
+      ['cdk:DataStack', 'cdk-stack'],
+      ['cdk:AuditStack', 'cdk-stack'],
+      ['serverless:orders', 'service'],
+      ['serverless:billing', 'service'],
+      ['serverless:reports', 'service'],
+      ['ssm:/network/vpc-id', 'ssm-parameter'],
+      ['export:shared-KeyId', 'export']
+    ]);
+    expect(edges).toEqual([
+      { from: 'cdk:DataStack', to: 'cdk:NetworkStack', kind: 'depends-on', label: 'depends-on' },
+      { from: 'serverless:orders', to: 'cdk:DataStack', kind: 'cloudformation', label: 'cloudformation: TableName' },
+      { from: 'serverless:orders', to: 'ssm:/network/vpc-id', kind: 'ssm', label: 'ssm' },
+      { from: 'ssm:/network/vpc-id', to: 'cdk:NetworkStack', kind: 'written-by', label: 'written-by' },
+      { from: 'serverless:orders', to: 'export:shared-KeyId', kind: 'import', label: 'import' },
+      { from: 'serverless:billing', to: 'serverless:orders', kind: 'compose', label: 'compose' },
+      { from: 'serverless:reports', to: 'cdk:AuditStack', kind: 'cloudformation', label: 'cloudformation: BucketName' }
+    ]);
+  });
+
+  it('should keep only what a service depends on and what depends on it', () => {
+    // When filtering to orders
+    const { nodes } = exporter.build({ service: 'orders' });
+
+    // Then the unrelated service and stack are left out
+    expect(nodes.map(n => n.id)).toEqual([
+      'cdk:NetworkStack',
+      'cdk:DataStack',
+      'serverless:orders',
+      'serverless:billing',
+      'ssm:/network/vpc-id',
+      'export:shared-KeyId'
+    ]);
+    expect(() => exporter.build({ service: 'missing' })).toThrow("Service 'missing' is not in the dependency graph");
+  });
+
+  it('should render DOT, Mermaid and JSON', () => {
+    // Given the subgraph around reports
+    const options = { service: 'reports' };
+
+    // When rendering each format
+    // Then each names the nodes and labels the edges
+    expect(exporter.render('dot', options)).toBe([
+      'digraph dependencies {',
+      '  rankdir=LR;',
+      '  "cdk:AuditStack" [label="AuditStack", shape=box3d];',
+      '  "serverless:reports" [label="reports", shape=box];',
+      '  "serverless:reports" -> "cdk:AuditStack" [label="cloudformation: BucketName"];',
+      '}'
+    ].join('\n'));
+    expect(exporter.render('mermaid', { service: 'orders' })).toContain('  n0[["NetworkStack"]]');
+    expect(exporter.render('mermaid', { service: 'orders' })).toContain('  n4 -.->|"written-by"| n0');
+    expect(JSON.parse(exporter.render('json', options))).toEqual(exporter.build(options));
+    expect(() => exporter.render('svg' as 'dot')).toThrow("Unknown graph format 'svg', expected dot, mermaid or json");
+  });
+});
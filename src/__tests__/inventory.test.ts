@@ -0,0 +1,131 @@
+import { buildInventory, ServerlessInventoryQuery } from '../inventory';
+import { ServerlessService, ServerlessYamlConfig } from '../types';
+
+describe('buildInventory', () => {
+  it('should list functions with provider defaults and their events', () => {
+    // Given a service with several event types
+    const config = {
+      service: 'orders',
+      provider: { runtime: 'nodejs20.x', memorySize: 512, timeout: 10 },
+      functions: {
+        api: {
+          handler: 'src/api.handler',
+          timeout: 29,
+          events: [{ http: 'get /orders' }, { httpApi: { method: 'post', path: '/orders' } }],
+          layers: [{ Ref: 'CommonLambdaLayer' }, 'arn:aws:lambda:us-east-1:123:layer:shared:3']
+        },
+        worker: {
+          handler: 'src/worker.handler',
+          runtime: 'python3.12',
+          memorySize: 1024,
+          events: [
+            { sqs: { arn: { 'Fn::GetAtt': ['OrdersQueue', 'Arn'] }, batchSize: 10 } },
+            { stream: { type: 'dynamodb', arn: 'arn:aws:dynamodb:us-east-1:123:table/orders/stream/2024' } },
+            { s3: { bucket: 'orders-uploads', event: 's3:ObjectCreated:*' } },
+            { schedule: 'rate(5 minutes)' },
+            { websocket: '$connect' }
+          ]
+        }
+      }
+    } as unknown as ServerlessYamlConfig;
+
+    // When building the inventory
+    const { functions } = buildInventory(config);
+
+    // Then functions carry their settings and supported events
+    expect(functions[0]).toEqual({
+      name: 'api',
+      handler: 'src/api.handler',
+      runtime: 'nodejs20.x',
+      memorySize: 512,
+      timeout: 29,
+      events: [
+        { type: 'http', method: 'GET', path: '/orders' },
+        { type: 'httpApi', method: 'POST', path: '/orders' }
+      ],
+      layers: ['CommonLambdaLayer', 'arn:aws:lambda:us-east-1:123:layer:shared:3']
+    });
+    expect(functions[1]).toMatchObject({ runtime: 'python3.12', memorySize: 1024, timeout: 10 });
+    expect(functions[1]?.events).toEqual([
+      { type: 'sqs', resource: 'OrdersQueue' },
+      { type: 'stream', source: 'arn:aws:dynamodb:us-east-1:123:table/orders/stream/2024' },
+      { type: 's3', source: 'orders-uploads' },
+      { type: 'schedule', source: 'rate(5 minutes)' }
+    ]);
+  });
+
+  it('should list layers, resources and plugins', () => {
+    // Given layers, resource fragments and plugins in object form
+    const config = {
+      service: 'orders',
+      layers: { common: { path: 'layers/common', compatibleRuntimes: ['nodejs20.x'] } },
+      resources: [
+        { Resources: { OrdersQueue: { Type: 'AWS::SQS::Queue', Properties: { QueueName: 'orders-prod' } } } },
+        { Resources: { Alarm: { Type: 'AWS::CloudWatch::Alarm' } }, Outputs: {} }
+      ],
+      plugins: { localPath: './plugins', modules: ['serverless-offline'] }
+    } as unknown as ServerlessYamlConfig;
+
+    // When building the inventory
+    const inventory = buildInventory(config);
+
+    // Then each is listed
+    expect(inventory.layers).toEqual([{ name: 'common', path: 'layers/common', compatibleRuntimes: ['nodejs20.x'] }]);
+    expect(inventory.resources).toEqual([
+      { logicalId: 'OrdersQueue', type: 'AWS::SQS::Queue', name: 'orders-prod' },
+      { logicalId: 'Alarm', type: 'AWS::CloudWatch::Alarm', name: undefined }
+    ]);
+    expect(inventory.plugins).toEqual(['serverless-offline']);
+    expect(inventory.pluginsLocalPath).toBe('./plugins');
+  });
+});
+
+describe('ServerlessInventoryQuery', () => {
+  const service = (name: string, config: Record<string, unknown>): ServerlessService => ({
+    name,
+    path: `/project/${name}`,
+    configFile: `/project/${name}/serverless.yml`,
+    provider: 'serverless',
+    dependencies: [],
+    inventory: buildInventory({ service: name, ...config } as ServerlessYamlConfig)
+  });
+
+  const services = [
+    service('orders', {
+      functions: { process: { handler: 'process.handler', events: [{ sqs: { arn: { 'Fn::GetAtt': ['OrdersQueue', 'Arn'] } } }] } },
+      resources: { Resources: { OrdersQueue: { Type: 'AWS::SQS::Queue', Properties: { QueueName: 'orders-prod' } } } },
+      plugins: ['serverless-offline']
+    }),
+    service('billing', {
+      functions: { charge: { handler: 'charge.handler', events: [{ sqs: 'arn:aws:sqs:us-east-1:123:orders-prod' }] } }
+    })
+  ];
+
+  it('should find the service that owns a queue by name, logical ID or ARN', () => {
+    const query = new ServerlessInventoryQuery(services);
+
+    expect(query.findResourceOwner('orders-prod')?.service.name).toBe('orders');
+    expect(query.findResourceOwner('OrdersQueue')?.resource.type).toBe('AWS::SQS::Queue');
+    expect(query.findResourceOwner('arn:aws:sqs:us-east-1:123:orders-prod')?.service.name).toBe('orders');
+    expect(query.findResourceOwner('unknown-queue')).toBeUndefined();
+  });
+
+  it('should find every consumer of a queue across services', () => {
+    // Given one consumer using Fn::GetAtt and another using the ARN
+    const query = new ServerlessInventoryQuery(services);
+
+    // When looking up consumers
+    const consumers = query.findEventConsumers('sqs', 'orders-prod');
+
+    // Then both are found
+    expect(consumers.map(c => `${c.service.name}.${c.function.name}`)).toEqual(['orders.process', 'billing.charge']);
+  });
+
+  it('should find functions and plugin users', () => {
+    const query = new ServerlessInventoryQuery(services);
+
+    expect(query.findFunction('charge')?.service.name).toBe('billing');
+    expect(query.findFunction('charge', 'orders')).toBeUndefined();
+    expect(query.findServicesUsingPlugin('serverless-offline').map(s => s.name)).toEqual(['orders']);
+  });
+});
@@ -0,0 +1,161 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { InvokeSource, ServerlessInvoker } from '../invoker';
+import { ServerlessService } from '../types';
+
+jest.mock('@orcdkestrator/core', () => ({
+  EventTypes: {
+    'serverless:invoke:result': 'serverless:invoke:result',
+    'serverless:invoke:summary': 'serverless:invoke:summary'
+  }
+}));
+
+describe('ServerlessInvoker', () => {
+  let tmpDir: string;
+  let service: ServerlessService;
+  let eventBus: { emitEvent: jest.Mock };
+  let source: InvokeSource & { invoke: jest.Mock };
+  let invoker: ServerlessInvoker;
+
+  const writeFixture = (relativePath: string, payload: unknown): void => {
+    const file = path.join(tmpDir, 'events', relativePath);
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    fs.writeFileSync(file, JSON.stringify(payload));
+  };
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'orcdk-invoke-'));
+    service = {
+      name: 'api',
+      path: tmpDir,
+      configFile: path.join(tmpDir, 'serverless.yml'),
+      provider: 'serverless',
+      dependencies: [],
+      handlers: { getUser: 'src/user.get', auth: 'src/auth.main', cron: 'src/cron.run' }
+    };
+    eventBus = { emitEvent: jest.fn() };
+    source = { invoke: jest.fn() };
+    invoker = new ServerlessInvoker(source, eventBus as any);
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+    jest.restoreAllMocks();
+  });
+
+  describe('discoverFixtures', () => {
+    it('should find single and named fixtures keyed by function name', async () => {
+      // Given fixtures for two of three functions, plus one for an unknown function
+      writeFixture('getUser.json', { id: 1 });
+      writeFixture('auth/valid.json', { token: 'ok' });
+      writeFixture('auth/expired.json', { token: 'old' });
+      writeFixture('auth/notes.txt', 'ignored');
+      writeFixture('unknown.json', {});
+
+      // When discovering fixtures
+      const fixtures = await invoker.discoverFixtures(service);
+
+      // Then each known function's fixtures are returned
+      expect(fixtures.map(f => `${f.function}:${f.name}`)).toEqual([
+        'getUser:default',
+        'auth:expired',
+        'auth:valid'
+      ]);
+    });
+
+    it('should return nothing without an events directory', async () => {
+      expect(await invoker.discoverFixtures(service)).toEqual([]);
+    });
+  });
+
+  describe('parseOutput', () => {
+    it('should separate local logs from the trailing JSON result', () => {
+      const output = 'loading user 1\n{"level":"info"} is not the end\n{\n  "statusCode": 200,\n  "body": "ok"\n}\n';
+
+      expect(invoker.parseOutput(output)).toEqual({
+        result: { statusCode: 200, body: 'ok' },
+        logs: ['loading user 1', '{"level":"info"} is not the end']
+      });
+    });
+
+    it('should split remote output at the log separator', () => {
+      const output = [
+        '"done"',
+        '--------------------------------------------------------------------',
+        'START RequestId: abc Version: $LATEST',
+        'REPORT RequestId: abc\tDuration: 12.34 ms\tBilled Duration: 13 ms'
+      ].join('\n');
+
+      const parsed = invoker.parseOutput(output);
+
+      expect(parsed.result).toBe('done');
+      expect(parsed.logs).toHaveLength(2);
+    });
+
+    it('should keep output without a JSON result as logs', () => {
+      expect(invoker.parseOutput('hello\nworld')).toEqual({ logs: ['hello', 'world'] });
+    });
+  });
+
+  describe('invokeAll', () => {
+    it('should invoke each fixture and summarize the results', async () => {
+      // Given two fixtures, one of which returns a Lambda error payload
+      writeFixture('getUser.json', { id: 1 });
+      writeFixture('auth.json', { token: 'bad' });
+      source.invoke.mockImplementation(async (_path: string, fn: string) =>
+        fn === 'auth'
+          ? '{"errorType":"Unauthorized","errorMessage":"bad token"}'
+          : 'fetching\n{"statusCode":200}'
+      );
+      const summaryFile = path.join(tmpDir, 'reports', 'invoke.json');
+
+      // When invoking locally
+      const summary = await invoker.invokeAll(service, {
+        stage: 'dev',
+        summaryFile,
+        commandOptions: { timeout: 1000 }
+      });
+
+      // Then results are captured, emitted and written as JSON
+      expect(summary).toMatchObject({ service: 'api', stage: 'dev', mode: 'local', total: 2, passed: 1, failed: 1 });
+      expect(summary.results[0]).toMatchObject({
+        function: 'getUser',
+        success: true,
+        result: { statusCode: 200 },
+        logs: ['fetching']
+      });
+      expect(summary.results[1]).toMatchObject({ function: 'auth', success: false, error: 'Unauthorized: bad token' });
+      expect(source.invoke).toHaveBeenCalledWith(tmpDir, 'getUser', 'dev', undefined, expect.objectContaining({
+        local: true,
+        path: path.join(tmpDir, 'events', 'getUser.json'),
+        timeout: 1000
+      }));
+      expect(eventBus.emitEvent).toHaveBeenCalledWith(
+        'serverless:invoke:result',
+        expect.objectContaining({ service: 'api', function: 'auth', mode: 'local' }),
+        'ServerlessInvoker'
+      );
+      expect(eventBus.emitEvent).toHaveBeenCalledWith('serverless:invoke:summary', summary, 'ServerlessInvoker');
+      expect(JSON.parse(fs.readFileSync(summaryFile, 'utf-8')).failed).toBe(1);
+    });
+
+    it('should record CLI failures and reported durations of remote invokes', async () => {
+      // Given one remote invoke that succeeds and one that fails
+      writeFixture('getUser.json', {});
+      writeFixture('cron.json', {});
+      source.invoke
+        .mockResolvedValueOnce('null\n' + '-'.repeat(68) + '\nREPORT RequestId: abc\tDuration: 8.5 ms')
+        .mockRejectedValueOnce(new Error('Serverless command failed with code 1: timeout'));
+
+      // When invoking remotely
+      const summary = await invoker.invokeAll(service, { stage: 'prod', mode: 'remote' });
+
+      // Then both outcomes are recorded
+      expect(summary.results[0]).toMatchObject({ success: true, reportedDuration: 8.5 });
+      expect(summary.results[1]).toMatchObject({ success: false, logs: [], error: expect.stringContaining('timeout') });
+      expect(source.invoke.mock.calls[0][4]).toMatchObject({ local: false, log: true });
+    });
+  });
+});
@@ -0,0 +1,196 @@
+import { LogLineParser, LogSource, ServerlessLogStreamer } from '../log-streamer';
+import { LogsCommandOptions } from '../cli';
+import { ServerlessLogEntry, ServerlessService } from '../types';
+
+jest.mock('@orcdkestrator/core', () => ({
+  EventTypes: { 'serverless:logs:entry': 'serverless:logs:entry' }
+}));
+
+const REQUEST_ID = '8f5c2a1e-1b2c-4d3e-9f00-123456789abc';
+
+describe('LogLineParser', () => {
+  let parser: LogLineParser;
+
+  beforeEach(() => {
+    parser = new LogLineParser('api', 'getUser');
+  });
+
+  it('should parse lifecycle lines and carry the request id', () => {
+    // Given an invocation's output
+    // When parsing each line
+    const start = parser.parse(`START RequestId: ${REQUEST_ID} Version: $LATEST`);
+    const message = parser.parse('2024-01-15 10:00:00.123 INFO   looking up user');
+    const end = parser.parse(`END RequestId: ${REQUEST_ID}`);
+
+    // Then lines are classified and share the request id
+    expect(start).toMatchObject({ type: 'start', requestId: REQUEST_ID, message: 'Version: $LATEST' });
+    expect(message).toMatchObject({
+      type: 'message',
+      requestId: REQUEST_ID,
+      level: 'INFO',
+      timestamp: '2024-01-15T10:00:00.123Z',
+      message: 'looking up user'
+    });
+    expect(end).toMatchObject({ type: 'end', requestId: REQUEST_ID });
+  });
+
+  it('should parse CloudWatch lines with a request id and UTC offset', () => {
+    const entry = parser.parse(`2024-01-15 10:00:00.123 (+02:00)\t${REQUEST_ID}\tERROR\tboom`);
+
+    expect(entry).toMatchObject({
+      service: 'api',
+      function: 'getUser',
+      timestamp: '2024-01-15T10:00:00.123+02:00',
+      requestId: REQUEST_ID,
+      level: 'ERROR',
+      message: 'boom'
+    });
+  });
+
+  it('should attach continuation lines to the current request', () => {
+    // Given an error followed by a stack trace
+    parser.parse(`2024-01-15T10:00:00.123Z\t${REQUEST_ID}\tERROR\tfailed`);
+
+    // When parsing the stack trace
+    const entry = parser.parse('    at handler (/var/task/index.js:3:9)');
+
+    // Then it belongs to the same request
+    expect(entry).toMatchObject({ type: 'message', requestId: REQUEST_ID });
+    expect(entry?.level).toBeUndefined();
+  });
+
+  it('should clear the request id after REPORT and skip blank lines', () => {
+    parser.parse(`START RequestId: ${REQUEST_ID}`);
+    const report = parser.parse(`REPORT RequestId: ${REQUEST_ID}\tDuration: 12.3 ms`);
+
+    expect(report).toMatchObject({ type: 'report', message: 'Duration: 12.3 ms' });
+    expect(parser.parse('next line')?.requestId).toBeUndefined();
+    expect(parser.parse('   ')).toBeNull();
+  });
+});
+
+describe('ServerlessLogStreamer', () => {
+  const service: ServerlessService = {
+    name: 'api',
+    path: '/project/api',
+    configFile: 'serverless.yml',
+    provider: 'serverless',
+    dependencies: []
+  };
+  let eventBus: { emitEvent: jest.Mock };
+
+  beforeEach(() => {
+    eventBus = { emitEvent: jest.fn() };
+  });
+
+  /**
+   * A log source that prints canned lines per function, then waits for abort if tailing
+   */
+  function createSource(output: Record<string, string[]>): LogSource & { calls: LogsCommandOptions[] } {
+    const calls: LogsCommandOptions[] = [];
+
+    return {
+      calls,
+      async logs(_servicePath, functionName, _stage, _region, options = {}) {
+        calls.push(options);
+        (output[functionName] || []).forEach(line => options.onLine?.(line, 'stdout'));
+
+        if (options.tail) {
+          await new Promise<void>((_, reject) => {
+            options.signal?.addEventListener('abort', () => reject(new Error('aborted')));
+          });
+        }
+      }
+    };
+  }
+
+  it('should multiplex functions into prefixed entries and events', async () => {
+    // Given two functions with log output
+    const source = createSource({
+      getUser: ['2024-01-15 10:00:00.123 INFO   hello'],
+      auth: ['2024-01-15 10:00:01.000 WARN   denied']
+    });
+    const entries: ServerlessLogEntry[] = [];
+    const streamer = new ServerlessLogStreamer(source, eventBus as any);
+
+    // When streaming without tailing
+    const stream = streamer.stream(service, ['getUser', 'auth'], {
+      stage: 'dev',
+      tail: false,
+      echo: false,
+      commandOptions: { params: { env: 'dev' } },
+      onEntry: entry => entries.push(entry)
+    });
+    await stream.done;
+
+    // Then entries carry aligned prefixes and are emitted on the bus
+    expect(entries.map(e => [e.function, e.prefix, e.level])).toEqual([
+      ['getUser', '[getUser]', 'INFO'],
+      ['auth', '[auth   ]', 'WARN']
+    ]);
+    expect(eventBus.emitEvent).toHaveBeenCalledWith(
+      'serverless:logs:entry',
+      expect.objectContaining({ function: 'auth', message: 'denied' }),
+      'ServerlessLogStreamer'
+    );
+    expect(source.calls[0]).toMatchObject({ tail: false, params: { env: 'dev' } });
+  });
+
+  it('should stop tailing without failing', async () => {
+    // Given a tailing stream
+    const source = createSource({ getUser: [] });
+    const streamer = new ServerlessLogStreamer(source, eventBus as any);
+    const stream = streamer.stream(service, ['getUser'], { stage: 'dev', echo: false });
+
+    // When stopping it
+    stream.stop();
+
+    // Then it completes cleanly
+    await expect(stream.done).resolves.toBeUndefined();
+    expect(source.calls[0]?.tail).toBe(true);
+  });
+
+  it('should stop when the caller aborts', async () => {
+    const controller = new AbortController();
+    const streamer = new ServerlessLogStreamer(createSource({}), eventBus as any);
+    const stream = streamer.stream(service, ['getUser'], { stage: 'dev', signal: controller.signal });
+
+    controller.abort();
+
+    await expect(stream.done).resolves.toBeUndefined();
+  });
+
+  it('should surface failures of a running stream', async () => {
+    // Given a source that fails, e.g. for an unknown function
+    const source: LogSource = {
+      logs: jest.fn().mockRejectedValue(new Error('Function "missing" doesn\'t exist'))
+    };
+    const streamer = new ServerlessLogStreamer(source, eventBus as any);
+
+    // When streaming
+    const stream = streamer.stream(service, ['missing'], { stage: 'dev' });
+
+    // Then the failure is reported
+    await expect(stream.done).rejects.toThrow('doesn\'t exist');
+  });
+
+  it('should stop the other streams as soon as one fails', async () => {
+    // Given a tailing stream and one that fails
+    const source = createSource({ getUser: [] });
+    const logs = source.logs;
+    source.logs = jest.fn(async (servicePath, functionName, stage, region, options) => {
+      if (functionName === 'missing') {
+        throw new Error('Function "missing" doesn\'t exist');
+      }
+      return logs(servicePath, functionName, stage, region, options);
+    });
+    const streamer = new ServerlessLogStreamer(source, eventBus as any);
+
+    // When streaming both
+    const stream = streamer.stream(service, ['getUser', 'missing'], { stage: 'dev', echo: false });
+
+    // Then the failure is reported without waiting for the tailing stream, which is stopped
+    await expect(stream.done).rejects.toThrow('doesn\'t exist');
+    expect(source.calls[0]?.signal?.aborted).toBe(true);
+  });
+});
@@ -27,7 +27,8 @@ jest.mock('@orcdkestrator/core', () => {
     },
     EventTypes: {
       'serverless:before:pattern-detection': 'serverless:before:pattern-detection',
-      'serverless:after:pattern-detection': 'serverless:after:pattern-detection'
+      'serverless:after:pattern-detection': 'serverless:after:pattern-detection',
+      'serverless:config:diagnostic': 'serverless:config:diagnostic'
     }
   };
 });
@@ -40,6 +41,7 @@ describe('ServerlessPatternDetector', () => {
     jest.clearAllMocks();
     detector = new ServerlessPatternDetector(process.cwd());
     mockEventBus = EventBus.getInstance();
+    jest.spyOn(detector as any, 'findComposeFiles').mockResolvedValue([]);
     // Mock fs.promises.stat for all tests
     jest.spyOn(fs.promises, 'stat').mockResolvedValue({ size: 1024 } as any);
   });
@@ -146,6 +148,84 @@ describe('ServerlessPatternDetector', () => {
       expect(pattern.services).toHaveLength(0);
     });
     
+    it('should record function handlers and framework version', async () => {
+      // Given a service with functions
+      const mockFiles = [path.join(process.cwd(), 'serverless.yml')];
+      const mockContent = [
+        'service: api',
+        "frameworkVersion: '3'",
+        'functions:',
+        '  hello:',
+        '    handler: src/hello.handler',
+        '  world:',
+        '    handler: src/world.handler'
+      ].join('\n');
+      
+      jest.spyOn(detector as any, 'findServerlessConfigs').mockResolvedValue(mockFiles);
+      jest.spyOn(fs.promises, 'readFile').mockResolvedValue(mockContent);
+      
+      // When scanning
+      const pattern = await detector.scan();
+      
+      // Then handlers and version constraint are captured
+      expect(pattern.services[0]?.frameworkVersion).toBe('3');
+      expect(pattern.services[0]?.handlers).toEqual({
+        hello: 'src/hello.handler',
+        world: 'src/world.handler'
+      });
+      expect(pattern.services[0]?.inventory?.functions.map(f => f.name)).toEqual(['hello', 'world']);
+    });
+    
+    it('should attach dependency records and report them after detection', async () => {
+      // Given a service importing outputs from other stacks
+      const mockFiles = [path.join(process.cwd(), 'serverless.yml')];
+      const mockContent = [
+        'service: api',
+        'custom:',
+        '  vpcId: ${cf:network-stack.VpcId}',
+        '  dbHost: ${ssm:/rds-stack/endpoint}'
+      ].join('\n');
+      
+      jest.spyOn(detector as any, 'findServerlessConfigs').mockResolvedValue(mockFiles);
+      jest.spyOn(fs.promises, 'readFile').mockResolvedValue(mockContent);
+      
+      // When scanning
+      const pattern = await detector.scan();
+      
+      // Then the service carries its stack dependencies and where they come from
+      const records = [
+        {
+          kind: 'ssm',
+          stack: 'rds-stack',
+          logicalStack: 'rds-stack',
+          parameter: '/rds-stack/endpoint',
+          expression: '${ssm:/rds-stack/endpoint}',
+          sourceFile: mockFiles[0],
+          line: 4,
+          column: 11,
+          path: 'custom.dbHost'
+        },
+        {
+          kind: 'cloudformation',
+          stack: 'network-stack',
+          logicalStack: 'network-stack',
+          output: 'VpcId',
+          expression: '${cf:network-stack.VpcId}',
+          sourceFile: mockFiles[0],
+          line: 3,
+          column: 10,
+          path: 'custom.vpcId'
+        }
+      ];
+      expect(pattern.services[0]?.dependencies).toEqual(['rds-stack', 'network-stack']);
+      expect(pattern.services[0]?.dependencyRecords).toEqual(records);
+      expect(mockEventBus.emitEvent).toHaveBeenCalledWith(
+        'serverless:after:pattern-detection',
+        expect.objectContaining({ dependencies: { api: records } }),
+        'ServerlessPatternDetector'
+      );
+    });
+    
     it('should extract path from service config', async () => {
       // Given service in subdirectory
       const configPath = path.join(process.cwd(), 'services/api/serverless.yml');
@@ -162,6 +242,101 @@ describe('ServerlessPatternDetector', () => {
     });
   });
   
+  describe('when validating configs', () => {
+    const configFile = path.join(process.cwd(), 'serverless.yml');
+    const invalid = 'service: api\nprovider:\n  name: aws\nfunctions:\n  hello:\n    handler: hello\n';
+    
+    it('should keep the service and emit located diagnostics', async () => {
+      // Given a config with an invalid handler
+      jest.spyOn(detector as any, 'findServerlessConfigs').mockResolvedValue([configFile]);
+      jest.spyOn(fs.promises, 'readFile').mockResolvedValue(invalid as any);
+      
+      // When scanning
+      const pattern = await detector.scan();
+      
+      // Then the service is kept and the problem is reported with its location
+      expect(pattern.services).toHaveLength(1);
+      const diagnostic = {
+        file: configFile,
+        line: 6,
+        column: 5,
+        path: 'functions.hello.handler',
+        severity: 'error',
+        message: "Handler 'hello' of 'hello' must be '<file path>.<exported function>'"
+      };
+      expect(pattern.diagnostics).toEqual([diagnostic]);
+      expect(mockEventBus.emitEvent).toHaveBeenCalledWith(
+        'serverless:config:diagnostic',
+        diagnostic,
+        'ServerlessPatternDetector'
+      );
+    });
+    
+    it('should report configs that fail to parse', async () => {
+      jest.spyOn(detector as any, 'findServerlessConfigs').mockResolvedValue([configFile]);
+      jest.spyOn(fs.promises, 'readFile').mockResolvedValue('service: api\n  bad: indent' as any);
+      
+      const pattern = await detector.scan();
+      
+      expect(pattern.services).toHaveLength(0);
+      expect(pattern.diagnostics?.[0]).toMatchObject({ file: configFile, line: 2, severity: 'error' });
+    });
+    
+    it('should fail detection in strict mode', async () => {
+      // Given strict detection
+      const strict = new ServerlessPatternDetector(process.cwd(), { scope: { strict: true } });
+      jest.spyOn(strict as any, 'findServerlessConfigs').mockResolvedValue([configFile]);
+      jest.spyOn(strict as any, 'findComposeFiles').mockResolvedValue([]);
+      jest.spyOn(fs.promises, 'readFile').mockResolvedValue(invalid as any);
+      
+      // When scanning, then detection fails with every error
+      await expect(strict.scan()).rejects.toThrow(
+        `Invalid Serverless configs:\n  - ${configFile}:6:5 functions.hello.handler: Handler 'hello'`
+      );
+    });
+  });
+  
+  describe('when the project uses serverless-compose', () => {
+    it('should link services to compose and record their dependencies', async () => {
+      // Given a compose file wiring two services together
+      const root = process.cwd();
+      const composeFile = path.join(root, 'serverless-compose.yml');
+      const contents: Record<string, string> = {
+        [composeFile]: [
+          'services:',
+          '  api:',
+          '    path: services/api',
+          '    params:',
+          '      queueUrl: ${jobs.queueUrl}',
+          '  jobs:',
+          '    path: services/jobs',
+          '    config: serverless.jobs.yml'
+        ].join('\n'),
+        [path.join(root, 'services/api/serverless.yml')]: 'service: orders-api',
+        [path.join(root, 'services/jobs/serverless.jobs.yml')]: 'service: orders-jobs'
+      };
+      
+      jest.spyOn(detector as any, 'findServerlessConfigs').mockResolvedValue([path.join(root, 'services/api/serverless.yml')]);
+      jest.spyOn(detector as any, 'findComposeFiles').mockResolvedValue([composeFile]);
+      jest.spyOn(fs.promises, 'readFile').mockImplementation(async (file: any) => contents[file] as any);
+      
+      // When scanning
+      const pattern = await detector.scan();
+      
+      // Then the custom-named config is found and output references become dependencies
+      expect(pattern.composeProjects?.[0]?.order).toEqual(['jobs', 'api']);
+      expect(pattern.services.map(s => s.name)).toEqual(['orders-api', 'orders-jobs']);
+      
+      const api = pattern.services[0];
+      expect(api?.compose?.name).toBe('api');
+      expect(api?.dependencies).toEqual(['orders-jobs']);
+      expect(api?.dependencyRecords).toEqual([
+        { kind: 'compose', stack: 'orders-jobs', output: 'queueUrl', sourceFile: composeFile }
+      ]);
+      expect(pattern.services[1]?.dependencies).toEqual([]);
+    });
+  });
+  
   describe('when searching for config files', () => {
     it('should find serverless.yml and serverless.yaml files', async () => {
       // Given glob mock
@@ -182,6 +357,24 @@ describe('ServerlessPatternDetector', () => {
       );
     });
     
+    it('should find JSON, JavaScript and TypeScript configs', async () => {
+      // Given glob mock
+      const globSpy = jest.spyOn(detector as any, 'glob');
+
+      // When finding configs
+      await (detector as any).findServerlessConfigs();
+
+      // Then search for every format Serverless supports
+      expect(globSpy).toHaveBeenCalledWith(
+        expect.arrayContaining([
+          '**/serverless.json',
+          '**/serverless.js',
+          '**/serverless.ts'
+        ]),
+        expect.any(Object)
+      );
+    });
+
     it('should exclude node_modules and common build directories', async () => {
       // Given glob mock
       const globSpy = jest.spyOn(detector as any, 'glob');
@@ -204,6 +397,57 @@ describe('ServerlessPatternDetector', () => {
     });
   });
   
+  describe('when limiting the detection scope', () => {
+    it('should search included directories with excludes and a max depth', async () => {
+      // Given a detector scoped to services, without examples
+      const scoped = new ServerlessPatternDetector(process.cwd(), {
+        scope: { include: ['services/**'], exclude: ['**/examples/**'], maxDepth: 3, respectGitignore: false }
+      });
+      const globSpy = jest.spyOn(scoped as any, 'glob').mockResolvedValue([]);
+      
+      // When finding configs
+      await (scoped as any).findServerlessConfigs();
+      
+      // Then only the included directories are searched
+      const [patterns, options] = globSpy.mock.calls[0] as [string[], any];
+      expect(patterns).toContain('services/**/serverless.yml');
+      expect(patterns).not.toContain('**/serverless.yml');
+      expect(options.ignore).toEqual(expect.arrayContaining(['**/node_modules/**', '**/examples/**']));
+      expect(options.deep).toBe(4);
+    });
+    
+    it('should skip paths ignored by .gitignore', async () => {
+      // Given a .gitignore listing fixtures
+      const globSpy = jest.spyOn(detector as any, 'glob').mockResolvedValue([]);
+      jest.spyOn(fs.promises, 'readFile').mockResolvedValue('fixtures/\n' as any);
+      
+      // When finding configs
+      await (detector as any).findServerlessConfigs();
+      
+      // Then the ignored directories are excluded
+      expect(fs.promises.readFile).toHaveBeenCalledWith(path.join(process.cwd(), '.gitignore'), 'utf-8');
+      expect((globSpy.mock.calls[0] as any[])[1].ignore).toContain('**/fixtures/**');
+    });
+    
+    it('should reuse cached services without parsing them again', async () => {
+      // Given a cache holding the service
+      const cached = { name: 'cached-api', path: process.cwd(), configFile: '', provider: 'serverless', dependencies: [] };
+      const cache = { load: jest.fn(), get: jest.fn().mockResolvedValue(cached), set: jest.fn(), save: jest.fn() };
+      const withCache = new ServerlessPatternDetector(process.cwd(), { cache: cache as any });
+      jest.spyOn(withCache as any, 'findServerlessConfigs').mockResolvedValue([path.join(process.cwd(), 'serverless.yml')]);
+      jest.spyOn(withCache as any, 'findComposeFiles').mockResolvedValue([]);
+      
+      // When scanning
+      const pattern = await withCache.scan();
+      
+      // Then the config isn't read and the cache is saved
+      expect(pattern.services[0]?.name).toBe('cached-api');
+      expect(fs.promises.readFile).not.toHaveBeenCalled();
+      expect(cache.load).toHaveBeenCalled();
+      expect(cache.save).toHaveBeenCalled();
+    });
+  });
+  
   describe('when handling file size limits', () => {
     it('should skip files exceeding size limit', async () => {
       // Given a large file
@@ -0,0 +1,145 @@
+import { spawn } from 'child_process';
+import { EventEmitter } from 'events';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ServerlessPluginVerifier } from '../plugin-verifier';
+
+jest.mock('child_process', () => ({ spawn: jest.fn() }));
+
+const mockSpawn = spawn as unknown as jest.Mock;
+
+describe('ServerlessPluginVerifier', () => {
+  let root: string;
+  let servicePath: string;
+
+  const writeJson = (file: string, content: unknown): void => {
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    fs.writeFileSync(file, JSON.stringify(content));
+  };
+
+  const installPackage = (dir: string, name: string, version: string): void => {
+    writeJson(path.join(dir, 'node_modules', name, 'package.json'), { name, version });
+  };
+
+  beforeEach(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'orcdk-plugins-'));
+    servicePath = path.join(root, 'services', 'api');
+    writeJson(path.join(servicePath, 'package.json'), {
+      devDependencies: { 'serverless-esbuild': '^1.50.0', 'serverless-offline': '^13.0.0' }
+    });
+  });
+
+  afterEach(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  it('should resolve installed, hoisted and local plugins', async () => {
+    // Given a plugin in the service, one hoisted to the root and two local ones
+    installPackage(servicePath, 'serverless-esbuild', '1.52.1');
+    installPackage(root, 'serverless-offline', '13.3.0');
+    fs.mkdirSync(path.join(servicePath, 'plugins', 'custom'), { recursive: true });
+    fs.mkdirSync(path.join(servicePath, '.serverless_plugins'), { recursive: true });
+    fs.writeFileSync(path.join(servicePath, '.serverless_plugins', 'tagger.js'), 'module.exports = class {}');
+
+    // When verifying
+    const verifier = new ServerlessPluginVerifier({ projectRoot: root });
+    const statuses = await verifier.verify(
+      servicePath,
+      ['serverless-esbuild', 'serverless-offline', './plugins/custom', 'tagger']
+    );
+
+    // Then every plugin is found
+    expect(statuses).toEqual([
+      {
+        name: 'serverless-esbuild',
+        status: 'installed',
+        declared: '^1.50.0',
+        installed: '1.52.1',
+        location: path.join(servicePath, 'node_modules', 'serverless-esbuild')
+      },
+      expect.objectContaining({ name: 'serverless-offline', status: 'installed', installed: '13.3.0' }),
+      { name: './plugins/custom', status: 'local', location: path.join(servicePath, 'plugins', 'custom') },
+      { name: 'tagger', status: 'local', location: path.join(servicePath, '.serverless_plugins', 'tagger.js') }
+    ]);
+  });
+
+  it('should explain missing and mismatched plugins', async () => {
+    // Given an outdated plugin, a missing one and an undeclared one
+    installPackage(servicePath, 'serverless-offline', '12.0.4');
+    fs.writeFileSync(path.join(servicePath, 'yarn.lock'), '');
+
+    // When ensuring they are installed
+    const verifier = new ServerlessPluginVerifier({ projectRoot: root });
+    const { plugins, problems } = await verifier.ensure(
+      servicePath,
+      ['serverless-esbuild', 'serverless-offline', 'serverless-localstack', './plugins/missing']
+    );
+
+    // Then each problem says how to fix it with the service's package manager
+    expect(plugins.map(p => p.status)).toEqual(['missing', 'version-mismatch', 'missing', 'missing']);
+    expect(problems).toEqual([
+      `serverless-esbuild is not installed (package.json wants ^1.50.0). Run \`yarn install\` in ${servicePath}.`,
+      `serverless-offline 12.0.4 is installed but package.json wants ^13.0.0. Run \`yarn install\` in ${servicePath}.`,
+      `serverless-localstack is not in package.json. Run \`yarn add -D serverless-localstack\` in ${servicePath}.`,
+      `./plugins/missing was not found relative to ${servicePath}.`
+    ]);
+  });
+
+  it('should not compare ranges that are not versions', async () => {
+    writeJson(path.join(servicePath, 'package.json'), { devDependencies: { 'serverless-esbuild': 'workspace:*' } });
+    installPackage(root, 'serverless-esbuild', '0.1.0');
+
+    const statuses = await new ServerlessPluginVerifier({ projectRoot: root }).verify(servicePath, ['serverless-esbuild']);
+
+    expect(statuses[0]?.status).toBe('installed');
+  });
+
+  describe('when installing', () => {
+    beforeEach(() => {
+      // Given a package manager that installs whatever it is asked for
+      mockSpawn.mockImplementation((_command: string, args: string[], options: { cwd: string }) => {
+        const proc = new EventEmitter();
+        const packages = args.length === 1 ? ['serverless-esbuild'] : args.filter(a => a.startsWith('serverless-'));
+
+        packages.forEach(name => installPackage(options.cwd, name, '1.60.0'));
+        process.nextTick(() => proc.emit('close', 0));
+        return proc;
+      });
+    });
+
+    it('should install declared and undeclared plugins, then verify again', async () => {
+      // When ensuring plugins with install enabled
+      const verifier = new ServerlessPluginVerifier({ projectRoot: root, install: true, packageManager: 'npm' });
+      const { plugins, problems } = await verifier.ensure(servicePath, ['serverless-esbuild', 'serverless-prune-plugin']);
+
+      // Then npm installs the declared plugin and adds the other as a dev dependency
+      expect(mockSpawn.mock.calls.map(([command, args]) => `${command} ${args.join(' ')}`)).toEqual([
+        'npm install',
+        'npm install --save-dev serverless-prune-plugin'
+      ]);
+      expect(plugins.map(p => p.status)).toEqual(['installed', 'installed']);
+      expect(problems).toEqual([]);
+    });
+
+    it('should report a failed install', async () => {
+      // Given a package manager that fails
+      mockSpawn.mockImplementation(() => {
+        const proc = Object.assign(new EventEmitter(), { stderr: new EventEmitter() });
+        process.nextTick(() => {
+          proc.stderr.emit('data', Buffer.from('ERESOLVE could not resolve'));
+          proc.emit('close', 1);
+        });
+        return proc;
+      });
+
+      // When ensuring plugins with install enabled
+      const verifier = new ServerlessPluginVerifier({ projectRoot: root, install: true, packageManager: 'pnpm' });
+
+      // Then the package manager output is part of the error
+      await expect(verifier.ensure(servicePath, ['serverless-esbuild'])).rejects.toThrow(
+        `pnpm install failed in ${servicePath}: ERESOLVE could not resolve`
+      );
+    });
+  });
+});
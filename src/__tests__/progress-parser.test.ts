@@ -0,0 +1,98 @@
+import { DeployProgressTracker, parseProgressLine } from '../progress-parser';
+
+jest.mock('@orcdkestrator/core', () => ({
+  EventTypes: { 'serverless:deploy:progress': 'serverless:deploy:progress' }
+}));
+
+describe('parseProgressLine', () => {
+  it('should recognize v2 phase lines', () => {
+    expect(parseProgressLine('Serverless: Packaging service...')).toMatchObject({ phase: 'packaging' });
+    expect(parseProgressLine('Serverless: Uploading artifacts...')).toMatchObject({ phase: 'uploading' });
+    expect(parseProgressLine('Serverless: Updating Stack...')).toMatchObject({ phase: 'stack-update' });
+    expect(parseProgressLine('Serverless: Stack update finished...')).toMatchObject({ phase: 'complete' });
+  });
+
+  it('should recognize v3 phase lines with colors and symbols', () => {
+    expect(parseProgressLine('\u001b[90mUploading CloudFormation file to S3\u001b[39m')).toMatchObject({
+      phase: 'uploading',
+      message: 'Uploading CloudFormation file to S3'
+    });
+    expect(parseProgressLine('Executing created change set')).toMatchObject({ phase: 'stack-update' });
+    expect(parseProgressLine('✔ Service deployed to stack api-dev (112s)')).toMatchObject({ phase: 'complete' });
+  });
+
+  it('should parse verbose resource status lines', () => {
+    // Given v2 and v3 resource lines
+    const v2 = parseProgressLine('CloudFormation - UPDATE_IN_PROGRESS - AWS::Lambda::Function - HelloLambdaFunction');
+    const v3 = parseProgressLine('  CREATE_FAILED - AWS::S3::Bucket - UploadsBucket');
+
+    // Then both are resource events
+    expect(v2).toMatchObject({
+      kind: 'resource',
+      resource: { status: 'UPDATE_IN_PROGRESS', type: 'AWS::Lambda::Function', logicalId: 'HelloLambdaFunction' }
+    });
+    expect(v3).toMatchObject({ kind: 'resource', resource: { status: 'CREATE_FAILED', logicalId: 'UploadsBucket' } });
+  });
+
+  it('should ignore unrelated lines', () => {
+    expect(parseProgressLine('endpoint: GET - https://abc.execute-api.us-east-1.amazonaws.com/')).toBeNull();
+    expect(parseProgressLine('   ')).toBeNull();
+  });
+});
+
+describe('DeployProgressTracker', () => {
+  let eventBus: { emitEvent: jest.Mock };
+  let tracker: DeployProgressTracker;
+
+  const events = (): any[] => eventBus.emitEvent.mock.calls.map(call => call[1]);
+
+  beforeEach(() => {
+    eventBus = { emitEvent: jest.fn() };
+    tracker = new DeployProgressTracker(eventBus as any, 'api', 'dev');
+  });
+
+  it('should emit phase transitions with elapsed times', () => {
+    // Given a deploy's output
+    tracker.enter('packaging', 'Packaging api');
+    tracker.onLine('Uploading service api.zip file to S3 (1.2 MB)');
+    tracker.onLine('Uploading CloudFormation file to S3');
+    tracker.onLine('Updating CloudFormation stack');
+    tracker.onLine('UPDATE_COMPLETE - AWS::Lambda::Function - HelloLambdaFunction');
+    tracker.finish(true);
+
+    // Then each phase starts and completes once, in order
+    expect(events().map(e => `${e.phase}:${e.status}`)).toEqual([
+      'packaging:started',
+      'packaging:completed',
+      'uploading:started',
+      'uploading:completed',
+      'stack-update:started',
+      'stack-update:resource',
+      'stack-update:completed',
+      'complete:completed'
+    ]);
+    expect(events()[0]).toMatchObject({ service: 'api', stage: 'dev', elapsed: expect.any(Number) });
+    expect(events()[1].phaseElapsed).toEqual(expect.any(Number));
+    expect(eventBus.emitEvent.mock.calls[0][0]).toBe('serverless:deploy:progress');
+  });
+
+  it('should enter the stack update when a resource line comes first', () => {
+    tracker.onLine('CloudFormation - CREATE_IN_PROGRESS - AWS::IAM::Role - IamRoleLambdaExecution');
+
+    expect(events().map(e => `${e.phase}:${e.status}`)).toEqual(['stack-update:started', 'stack-update:resource']);
+  });
+
+  it('should ignore lines from earlier phases', () => {
+    tracker.onLine('Updating CloudFormation stack');
+    tracker.onLine('Uploading State file to S3');
+
+    expect(events()).toHaveLength(1);
+  });
+
+  it('should mark the current phase as failed', () => {
+    tracker.onLine('Uploading artifacts');
+    tracker.finish(false);
+
+    expect(events()[1]).toMatchObject({ phase: 'uploading', status: 'failed' });
+  });
+});
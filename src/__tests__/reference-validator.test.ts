@@ -0,0 +1,102 @@
+import { CdkOutputIndex } from '../cdk-output-index';
+import { ServerlessReferenceValidator, findClosestName } from '../reference-validator';
+import { StackInspector } from '../stack-inspector';
+import { ServerlessDependency } from '../types';
+
+describe('ServerlessReferenceValidator', () => {
+  const index = new CdkOutputIndex();
+  index.addTemplate({ id: 'NetworkStack', stackName: 'network-prod', dependencies: [] }, {
+    Resources: {
+      VpcIdParameter: { Type: 'AWS::SSM::Parameter', Properties: { Name: '/network/vpc-id' } }
+    },
+    Outputs: {
+      VpcId: { Value: { Ref: 'Vpc' }, Export: { Name: 'network-prod-VpcId' } },
+      PrivateSubnetIds: { Value: 'subnet-1,subnet-2' }
+    }
+  });
+
+  const reference = (dependency: Partial<ServerlessDependency>): ServerlessDependency => ({
+    kind: 'cloudformation',
+    sourceFile: '/project/orders/serverless.yml',
+    ...dependency
+  });
+
+  it('should fail outputs cdk.out does not declare and only suggest names for other values offline', async () => {
+    // Given references to declared values, a misspelled output and values CDK doesn't write
+    const dependencies = [
+      reference({ stack: 'network-prod', output: 'VpcId', expression: '${cf:network-prod.VpcId}' }),
+      reference({ kind: 'ssm', parameter: '/network/vpc-id' }),
+      reference({ kind: 'import', exportName: 'network-prod-VpcId' }),
+      reference({ stack: 'NetworkStack', output: 'PrivateSubnetId', expression: '${cf:NetworkStack.PrivateSubnetId}' }),
+      reference({ kind: 'ssm', parameter: '/network/vpc-idd' }),
+      reference({ kind: 'ssm', parameter: '/shared/api-key' }),
+      reference({ stack: 'legacy-prod', output: 'BucketName' }),
+      reference({ kind: 'param', parameter: 'domain' })
+    ];
+
+    // When validating without AWS access
+    const report = await new ServerlessReferenceValidator(index).validate('orders', 'prod', dependencies);
+
+    // Then only the undeclared output fails; values CDK may not write stay unverified, with the name probably meant
+    expect(report.passed).toBe(false);
+    expect(report.checks.map(c => c.status)).toEqual(['ok', 'ok', 'ok', 'missing', 'unverified', 'unverified', 'unverified']);
+    expect(report.checks[3]).toEqual({
+      dependency: dependencies[3],
+      status: 'missing',
+      checkedIn: 'cdk.out',
+      message: "Output 'PrivateSubnetId' is not declared by stack 'NetworkStack'. Did you mean 'PrivateSubnetIds'?",
+      suggestion: 'PrivateSubnetIds'
+    });
+    expect(report.checks[4]).toEqual({
+      dependency: dependencies[4],
+      status: 'unverified',
+      message: "SSM parameter '/network/vpc-idd' is not written by a CDK stack. Did you mean '/network/vpc-id'?",
+      suggestion: '/network/vpc-id'
+    });
+    expect(report.checks[6]?.message).toBe("Stack 'legacy-prod' is not in cdk.out");
+  });
+
+  it('should check values outside cdk.out against AWS', async () => {
+    // Given an inspector that finds one deployed stack, parameter and export
+    const inspector = {
+      getStackOutputs: jest.fn(async (stack: string) => (stack === 'legacy-prod' ? { BucketName: 'legacy-bucket' } : null)),
+      hasParameter: jest.fn(async (name: string) => name === '/shared/api-key'),
+      listExports: jest.fn(async () => ['legacy-prod-BucketArn'])
+    } as unknown as StackInspector;
+    const dependencies = [
+      reference({ stack: 'legacy-prod', output: 'BucketName', region: 'eu-west-1' }),
+      reference({ stack: 'legacy-prod', output: 'BucketNam' }),
+      reference({ stack: 'network-prd', output: 'VpcId' }),
+      reference({ kind: 'ssm', parameter: '/shared/api-key' }),
+      reference({ kind: 'ssm', parameter: '/shared/missing' }),
+      reference({ kind: 'import', exportName: 'legacy-prod-BucketArn' }),
+      reference({ kind: 'import', exportName: 'legacy-prod-BucketAr' })
+    ];
+
+    // When validating online
+    const validator = new ServerlessReferenceValidator(index, { inspector, profile: { profile: 'prod', region: 'us-east-1' } });
+    const report = await validator.validate('orders', 'prod', dependencies);
+
+    // Then AWS decides, in the reference's own region
+    expect(report.checks.map(c => [c.status, c.checkedIn, c.suggestion])).toEqual([
+      ['ok', 'aws', undefined],
+      ['missing', 'aws', 'BucketName'],
+      ['missing', 'aws', 'network-prod'],
+      ['ok', 'aws', undefined],
+      ['missing', 'aws', undefined],
+      ['ok', 'aws', undefined],
+      ['missing', 'aws', 'legacy-prod-BucketArn']
+    ]);
+    expect(inspector.getStackOutputs).toHaveBeenCalledWith('legacy-prod', { profile: 'prod', region: 'eu-west-1' });
+    expect(inspector.hasParameter).toHaveBeenCalledWith('/shared/api-key', { profile: 'prod', region: 'us-east-1' });
+    expect(inspector.listExports).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('findClosestName', () => {
+  it('should suggest only names within a few edits', () => {
+    expect(findClosestName('TableNmae', ['TableName', 'TableArn'])).toBe('TableName');
+    expect(findClosestName('tablename', ['TableName'])).toBe('TableName');
+    expect(findClosestName('QueueUrl', ['TableName', 'TableArn'])).toBeUndefined();
+  });
+});
@@ -0,0 +1,99 @@
+import { RetryPolicy } from '../retry-policy';
+
+describe('RetryPolicy', () => {
+  describe('classify', () => {
+    const policy = new RetryPolicy();
+
+    it('should classify throttling, busy stacks and network resets', () => {
+      expect(policy.classify(new Error('Serverless command failed with code 1: Rate exceeded'))).toEqual({
+        reason: 'throttling',
+        waitForStack: false
+      });
+      expect(policy.classify(new Error('Stack:arn:aws:cloudformation:... is in UPDATE_IN_PROGRESS state'))).toEqual({
+        reason: 'stack-busy',
+        waitForStack: true
+      });
+      expect(policy.classify(new Error('read ECONNRESET while uploading service api.zip'))).toMatchObject({
+        reason: 'network'
+      });
+    });
+
+    it('should not retry other failures', () => {
+      expect(policy.classify(new Error('Serverless command failed with code 1: Invalid handler'))).toBeNull();
+      expect(policy.classify('Serverless command timed out after 1000ms')).toBeNull();
+    });
+
+    it('should check custom classifiers first', () => {
+      const custom = new RetryPolicy({
+        classifiers: [{ reason: 'bucket-eventual-consistency', pattern: 'NoSuchBucket|Rate exceeded' }]
+      });
+
+      expect(custom.classify(new Error('Rate exceeded'))?.reason).toBe('bucket-eventual-consistency');
+    });
+
+    it('should reject invalid classifier patterns', () => {
+      expect(() => new RetryPolicy({ classifiers: [{ reason: 'broken', pattern: '(' }] }))
+        .toThrow("Invalid retry classifier 'broken'");
+    });
+  });
+
+  it('should back off exponentially up to the maximum delay', () => {
+    const policy = new RetryPolicy({ initialDelay: 1000, backoffFactor: 3, maxDelay: 5000 });
+
+    expect([1, 2, 3].map(retry => policy.getDelay(retry))).toEqual([1000, 3000, 5000]);
+  });
+
+  describe('run', () => {
+    it('should retry classified failures and report each retry', async () => {
+      // Given an operation that is throttled once
+      const policy = new RetryPolicy({ maxAttempts: 3, initialDelay: 0 });
+      const operation = jest.fn()
+        .mockRejectedValueOnce(new Error('Throttling: Rate exceeded'))
+        .mockResolvedValueOnce('deployed');
+      const onRetry = jest.fn();
+
+      // When running it
+      const result = await policy.run(operation, { onRetry });
+
+      // Then it succeeds on the second attempt
+      expect(result).toBe('deployed');
+      expect(operation).toHaveBeenCalledTimes(2);
+      expect(onRetry).toHaveBeenCalledWith(expect.objectContaining({
+        attempt: 1,
+        maxAttempts: 3,
+        delay: 0,
+        classification: { reason: 'throttling', waitForStack: false }
+      }));
+    });
+
+    it('should give up after maxAttempts', async () => {
+      const policy = new RetryPolicy({ maxAttempts: 2, initialDelay: 0 });
+      const operation = jest.fn().mockRejectedValue(new Error('socket hang up'));
+
+      await expect(policy.run(operation)).rejects.toThrow('socket hang up');
+      expect(operation).toHaveBeenCalledTimes(2);
+    });
+
+    it('should not retry unclassified failures', async () => {
+      const policy = new RetryPolicy({ initialDelay: 0 });
+      const operation = jest.fn().mockRejectedValue(new Error('Invalid handler'));
+
+      await expect(policy.run(operation)).rejects.toThrow('Invalid handler');
+      expect(operation).toHaveBeenCalledTimes(1);
+    });
+
+    it('should stop waiting when aborted', async () => {
+      // Given a long backoff
+      const controller = new AbortController();
+      const policy = new RetryPolicy({ initialDelay: 60000 });
+      const operation = jest.fn().mockRejectedValue(new Error('Rate exceeded'));
+
+      // When aborting during the delay
+      const run = policy.run(operation, { signal: controller.signal, onRetry: () => controller.abort() });
+
+      // Then the run ends without another attempt
+      await expect(run).rejects.toThrow('Retry aborted');
+      expect(operation).toHaveBeenCalledTimes(1);
+    });
+  });
+});
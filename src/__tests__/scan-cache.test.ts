@@ -0,0 +1,110 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ServerlessScanCache } from '../scan-cache';
+import { ServerlessService } from '../types';
+
+describe('ServerlessScanCache', () => {
+  let tmpDir: string;
+  let cacheFile: string;
+  let configFile: string;
+
+  const service = (name: string): ServerlessService => ({
+    name,
+    path: tmpDir,
+    configFile,
+    provider: 'serverless',
+    dependencies: []
+  });
+
+  const touch = (file: string, content: string, mtime: number): void => {
+    fs.writeFileSync(file, content);
+    fs.utimesSync(file, mtime, mtime);
+  };
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'orcdk-scan-cache-'));
+    cacheFile = path.join(tmpDir, '.orcdk', 'scan-cache.json');
+    configFile = path.join(tmpDir, 'serverless.yml');
+    touch(configFile, 'service: api', 1000);
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+    delete process.env.ORCDK_CACHE_TEST;
+  });
+
+  it('should reuse services across runs until the config changes', async () => {
+    // Given a service cached in an earlier run
+    const first = new ServerlessScanCache(cacheFile, { stage: 'dev' });
+    await first.load();
+    await first.set(configFile, service('api'), { service: 'api' });
+    await first.save();
+
+    // When a later run loads the cache
+    const second = new ServerlessScanCache(cacheFile, { stage: 'dev' });
+    await second.load();
+
+    // Then the service is reused until the file's mtime changes
+    expect(await second.get(configFile)).toEqual(service('api'));
+    touch(configFile, 'service: api', 2000);
+    expect(await second.get(configFile)).toBeNull();
+  });
+
+  it('should discard the cache when the context changes', async () => {
+    const dev = new ServerlessScanCache(cacheFile, { stage: 'dev' });
+    await dev.load();
+    await dev.set(configFile, service('api'), { service: 'api' });
+    await dev.save();
+
+    const prod = new ServerlessScanCache(cacheFile, { stage: 'prod' });
+    await prod.load();
+
+    expect(await prod.get(configFile)).toBeNull();
+  });
+
+  it('should check included files and environment variables', async () => {
+    // Given a config that includes a file and reads the environment
+    const included = path.join(tmpDir, 'stages.yml');
+    touch(included, 'dev: {}', 1000);
+    process.env.ORCDK_CACHE_TEST = 'one';
+
+    const cache = new ServerlessScanCache(cacheFile);
+    await cache.load();
+    await cache.set(configFile, service('api'), {
+      custom: { stages: '${file(./stages.yml)}', value: '${env:ORCDK_CACHE_TEST}' }
+    });
+    expect(await cache.get(configFile)).not.toBeNull();
+
+    // When the environment variable changes, then the entry is stale
+    process.env.ORCDK_CACHE_TEST = 'two';
+    expect(await cache.get(configFile)).toBeNull();
+
+    // And when the included file changes, then the entry is stale
+    process.env.ORCDK_CACHE_TEST = 'one';
+    touch(included, 'dev: { memory: 512 }', 2000);
+    expect(await cache.get(configFile)).toBeNull();
+  });
+
+  it('should not cache script configs or drop configs that are gone', async () => {
+    // Given a JS config and a config that is no longer found
+    const script = path.join(tmpDir, 'serverless.js');
+    touch(script, 'module.exports = {}', 1000);
+
+    const cache = new ServerlessScanCache(cacheFile);
+    await cache.load();
+    await cache.set(script, service('script'), {});
+    await cache.set(configFile, service('api'), {});
+    await cache.save();
+
+    // When the next run only sees the JS config
+    const next = new ServerlessScanCache(cacheFile);
+    await next.load();
+    expect(await next.get(script)).toBeNull();
+    await next.save();
+
+    // Then nothing is left in the cache
+    const content = JSON.parse(fs.readFileSync(cacheFile, 'utf-8'));
+    expect(content.entries).toEqual({});
+  });
+});
@@ -0,0 +1,269 @@
+import { ServiceInfoReader } from '../service-info';
+import * as fs from 'fs';
+import * as path from 'path';
+
+// Mock dependencies
+jest.mock('fs', () => ({
+  promises: {
+    readFile: jest.fn()
+  }
+}));
+
+const servicePath = path.join(process.cwd(), 'services/api');
+
+const state = {
+  service: {
+    service: 'api',
+    provider: {
+      name: 'aws',
+      region: 'eu-west-1',
+      runtime: 'nodejs18.x',
+      memorySize: 512
+    },
+    functions: {
+      hello: {
+        handler: 'src/hello.handler',
+        name: 'api-dev-hello',
+        timeout: 10,
+        events: [
+          { http: { path: 'hello', method: 'get' } },
+          { httpApi: 'POST /users' }
+        ]
+      },
+      'ws-connect': {
+        handler: 'src/ws.connect',
+        events: [{ websocket: { route: '$connect' } }]
+      }
+    },
+    layers: {
+      shared: { path: 'layers/shared' }
+    }
+  }
+};
+
+const template = {
+  Resources: {
+    ApiGatewayApiKey1: {
+      Type: 'AWS::ApiGateway::ApiKey',
+      Properties: { Name: 'partner-key' }
+    },
+    HelloLambdaFunction: {
+      Type: 'AWS::Lambda::Function'
+    }
+  }
+};
+
+function mockStateFiles(files: Record<string, unknown>): void {
+  jest.spyOn(fs.promises, 'readFile').mockImplementation(async (file: any) => {
+    const name = path.basename(String(file));
+    if (name in files) {
+      return JSON.stringify(files[name]);
+    }
+    throw Object.assign(new Error(`ENOENT: ${file}`), { code: 'ENOENT' });
+  });
+}
+
+describe('ServiceInfoReader', () => {
+  let inspector: any;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    inspector = {
+      getStackOutputs: jest.fn().mockResolvedValue({
+        ServiceEndpoint: 'https://abc.execute-api.eu-west-1.amazonaws.com/dev',
+        HttpApiUrl: 'https://xyz.execute-api.eu-west-1.amazonaws.com',
+        ServiceEndpointWebsocket: 'wss://ws.execute-api.eu-west-1.amazonaws.com/dev',
+        HelloLambdaFunctionQualifiedArn: 'arn:aws:lambda:eu-west-1:123:function:api-dev-hello:3',
+        SharedLambdaLayerQualifiedArn: 'arn:aws:lambda:eu-west-1:123:layer:shared:2'
+      })
+    };
+  });
+
+  describe('when reading a deployed service', () => {
+    it('should build service metadata from the state file', async () => {
+      // Given state and template files
+      mockStateFiles({
+        'serverless-state.json': state,
+        'cloudformation-template-update-stack.json': template
+      });
+      const reader = new ServiceInfoReader(inspector);
+
+      // When reading
+      const info = await reader.read(servicePath, 'dev');
+
+      // Then service metadata is populated
+      expect(info.service).toBe('api');
+      expect(info.stage).toBe('dev');
+      expect(info.region).toBe('eu-west-1');
+      expect(info.stackName).toBe('api-dev');
+      expect(inspector.getStackOutputs).toHaveBeenCalledWith('api-dev', { region: 'eu-west-1', profile: undefined });
+    });
+
+    it('should resolve endpoints against stack outputs', async () => {
+      // Given http, httpApi and websocket events
+      mockStateFiles({ 'serverless-state.json': state });
+      const reader = new ServiceInfoReader(inspector);
+
+      // When reading
+      const info = await reader.read(servicePath, 'dev');
+
+      // Then each endpoint gets a full URL
+      expect(info.endpoints).toEqual([
+        {
+          type: 'http',
+          function: 'hello',
+          method: 'GET',
+          path: 'hello',
+          url: 'https://abc.execute-api.eu-west-1.amazonaws.com/dev/hello'
+        },
+        {
+          type: 'httpApi',
+          function: 'hello',
+          method: 'POST',
+          path: '/users',
+          url: 'https://xyz.execute-api.eu-west-1.amazonaws.com/users'
+        },
+        {
+          type: 'websocket',
+          function: 'ws-connect',
+          path: '$connect',
+          url: 'wss://ws.execute-api.eu-west-1.amazonaws.com/dev'
+        }
+      ]);
+    });
+
+    it('should apply provider defaults to functions', async () => {
+      // Given functions with and without explicit settings
+      mockStateFiles({ 'serverless-state.json': state });
+      const reader = new ServiceInfoReader(inspector);
+
+      // When reading
+      const info = await reader.read(servicePath, 'dev');
+
+      // Then defaults and ARNs are filled in
+      expect(info.functions[0]).toEqual({
+        name: 'hello',
+        functionName: 'api-dev-hello',
+        handler: 'src/hello.handler',
+        runtime: 'nodejs18.x',
+        memorySize: 512,
+        timeout: 10,
+        arn: 'arn:aws:lambda:eu-west-1:123:function:api-dev-hello:3'
+      });
+      expect(info.functions[1]?.functionName).toBe('api-dev-ws-connect');
+    });
+
+    it('should include layers, API keys and raw outputs', async () => {
+      // Given a template declaring an API key
+      mockStateFiles({
+        'serverless-state.json': state,
+        'cloudformation-template-update-stack.json': template
+      });
+      const reader = new ServiceInfoReader(inspector);
+
+      // When reading
+      const info = await reader.read(servicePath, 'dev');
+
+      // Then layers, keys and outputs are reported
+      expect(info.layers).toEqual([
+        { name: 'shared', arn: 'arn:aws:lambda:eu-west-1:123:layer:shared:2' }
+      ]);
+      expect(info.apiKeys).toEqual([{ name: 'partner-key', logicalId: 'ApiGatewayApiKey1' }]);
+      expect(info.outputs.ServiceEndpoint).toBeDefined();
+    });
+
+    it('should honour a custom stack name', async () => {
+      // Given a provider stackName
+      mockStateFiles({
+        'serverless-state.json': {
+          service: { ...state.service, provider: { ...state.service.provider, stackName: 'custom-api' } }
+        }
+      });
+      const reader = new ServiceInfoReader(inspector);
+
+      // When reading
+      const info = await reader.read(servicePath, 'dev');
+
+      // Then the custom stack is used
+      expect(info.stackName).toBe('custom-api');
+    });
+  });
+
+  describe('when reading older or alternative state formats', () => {
+    it('should read the service name from a service object', async () => {
+      // Given a v1-style service object and string events
+      mockStateFiles({
+        'serverless-state.json': {
+          service: {
+            serviceObject: { name: 'legacy' },
+            functions: {
+              list: { handler: 'list.handler', events: [{ http: 'GET items' }, { httpApi: '*' }, { websocket: '$default' }] }
+            }
+          }
+        }
+      });
+      const reader = new ServiceInfoReader(inspector);
+
+      // When reading
+      const info = await reader.read(servicePath, 'dev');
+
+      // Then name and string events are understood
+      expect(info.service).toBe('legacy');
+      expect(info.region).toBe('us-east-1');
+      expect(info.endpoints).toEqual([
+        { type: 'http', function: 'list', method: 'GET', path: 'items', url: 'https://abc.execute-api.eu-west-1.amazonaws.com/dev/items' },
+        { type: 'httpApi', function: 'list', method: '*', path: '*', url: 'https://xyz.execute-api.eu-west-1.amazonaws.com' },
+        { type: 'websocket', function: 'list', path: '$default', url: 'wss://ws.execute-api.eu-west-1.amazonaws.com/dev' }
+      ]);
+    });
+
+    it('should rethrow unreadable state files', async () => {
+      // Given a corrupt state file
+      jest.spyOn(fs.promises, 'readFile').mockResolvedValue('{not json' as any);
+      const reader = new ServiceInfoReader(inspector);
+
+      // When reading
+      // Then the parse error surfaces
+      await expect(reader.read(servicePath, 'dev')).rejects.toThrow(SyntaxError);
+    });
+  });
+
+  describe('when information is incomplete', () => {
+    it('should throw when the state file is missing', async () => {
+      // Given no .serverless directory
+      mockStateFiles({});
+      const reader = new ServiceInfoReader(inspector);
+
+      // When reading
+      // Then a descriptive error is thrown
+      await expect(reader.read(servicePath, 'dev')).rejects.toThrow('Serverless state not found');
+    });
+
+    it('should tolerate stack output lookup failures', async () => {
+      // Given an inspector that fails
+      mockStateFiles({ 'serverless-state.json': state });
+      inspector.getStackOutputs.mockRejectedValue(new Error('AccessDenied'));
+      const reader = new ServiceInfoReader(inspector);
+
+      // When reading
+      const info = await reader.read(servicePath, 'dev');
+
+      // Then endpoints have no URLs but the model is still built
+      expect(info.outputs).toEqual({});
+      expect(info.endpoints[0]?.url).toBeUndefined();
+    });
+
+    it('should work without a stack inspector', async () => {
+      // Given no inspector
+      mockStateFiles({ 'serverless-state.json': state });
+      const reader = new ServiceInfoReader();
+
+      // When reading
+      const info = await reader.read(servicePath, 'prod', { region: 'us-east-1' });
+
+      // Then state information is still available
+      expect(info.functions).toHaveLength(2);
+      expect(info.outputs).toEqual({});
+    });
+  });
+});
@@ -0,0 +1,170 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ServerlessVariableResolver } from '../variable-resolver';
+
+describe('ServerlessVariableResolver', () => {
+  it('should resolve self, opt, env, sls and param sources', () => {
+    // Given a config using local sources
+    const config = {
+      service: 'orders',
+      provider: { stage: "${opt:stage, 'dev'}", region: '${opt:region, self:custom.defaultRegion}' },
+      custom: { defaultRegion: 'eu-west-1', tableName: '${self:service}-${sls:stage}' },
+      environment: { TABLE: '${self:custom.tableName}', API_KEY: '${env:ORDERS_API_KEY}', DB: '${param:dbHost}' }
+    };
+
+    // When resolving for prod
+    const { config: resolved, unresolved } = new ServerlessVariableResolver({
+      stage: 'prod',
+      params: { dbHost: 'db.internal' },
+      env: { ORDERS_API_KEY: 'secret' }
+    }).resolve(config);
+
+    // Then every variable is expanded
+    expect(resolved.provider).toEqual({ stage: 'prod', region: 'eu-west-1' });
+    expect(resolved.environment).toEqual({ TABLE: 'orders-prod', API_KEY: 'secret', DB: 'db.internal' });
+    expect(unresolved).toEqual([]);
+  });
+
+  it('should walk fallback chains and keep literal types', () => {
+    const config = {
+      memory: '${opt:memory, self:custom.memory, 512}',
+      enabled: '${env:FEATURE_ENABLED, false}',
+      stage: '${sls:stage}'
+    };
+
+    const { config: resolved } = new ServerlessVariableResolver({ env: {} }).resolve(config);
+
+    expect(resolved).toEqual({ memory: 512, enabled: false, stage: 'dev' });
+  });
+
+  it('should keep the type of whole-value references', () => {
+    const config = {
+      custom: { vpc: { securityGroupIds: ['sg-1'], subnetIds: ['subnet-1'] } },
+      provider: { vpc: '${self:custom.vpc}' }
+    };
+
+    const { config: resolved } = new ServerlessVariableResolver().resolve(config);
+
+    expect(resolved.provider.vpc).toEqual({ securityGroupIds: ['sg-1'], subnetIds: ['subnet-1'] });
+  });
+
+  it('should leave cloud sources as placeholders with inner variables resolved', () => {
+    // Given ssm, cf and s3 references built from local variables
+    const config = {
+      custom: { stage: '${opt:stage}' },
+      environment: {
+        API_ID: '${ssm:/${self:custom.stage}-api-stack/rest-api-id}',
+        VPC: '${cf.us-east-1:network-${self:custom.stage}.VpcId}',
+        BLOB: 'prefix-${s3:my-bucket/key}',
+        ACCOUNT: '${aws:accountId}'
+      }
+    };
+
+    // When resolving
+    const { config: resolved, placeholders } = new ServerlessVariableResolver({ stage: 'qa' }).resolve(config);
+
+    // Then the concrete cloud references remain for deploy time
+    expect(resolved.environment).toEqual({
+      API_ID: '${ssm:/qa-api-stack/rest-api-id}',
+      VPC: '${cf.us-east-1:network-qa.VpcId}',
+      BLOB: 'prefix-${s3:my-bucket/key}',
+      ACCOUNT: '${aws:accountId}'
+    });
+    expect(placeholders).toEqual([
+      { source: 'ssm', address: '/qa-api-stack/rest-api-id', region: undefined, expression: '${ssm:/qa-api-stack/rest-api-id}', path: 'environment.API_ID' },
+      { source: 'cf', address: 'network-qa.VpcId', region: 'us-east-1', expression: '${cf.us-east-1:network-qa.VpcId}', path: 'environment.VPC' },
+      { source: 's3', address: 'my-bucket/key', region: undefined, expression: '${s3:my-bucket/key}', path: 'environment.BLOB' },
+      { source: 'aws', address: 'accountId', region: undefined, expression: '${aws:accountId}', path: 'environment.ACCOUNT' }
+    ]);
+  });
+
+  it('should read the region of cloud sources from a parenthesised param', () => {
+    // Given cf and ssm references with the region in parentheses, and a param that isn't a region
+    const config = {
+      VPC: '${cf(us-west-2):network-${sls:stage}.VpcId}',
+      KEY: '${ssm(eu-west-1):/shared/api-key}',
+      RAW: '${ssm(raw):/shared/config}'
+    };
+
+    // When resolving
+    const { placeholders } = new ServerlessVariableResolver({ stage: 'qa' }).resolve(config);
+
+    // Then only region-like params become the region
+    expect(placeholders.map(p => [p.source, p.address, p.region])).toEqual([
+      ['cf', 'network-qa.VpcId', 'us-west-2'],
+      ['ssm', '/shared/api-key', 'eu-west-1'],
+      ['ssm', '/shared/config', undefined]
+    ]);
+  });
+
+  it('should report unresolved variables and keep them in place', () => {
+    // Given missing environment variables and a circular reference
+    const config = {
+      environment: { SECRET: '${env:MISSING_SECRET}', URL: 'https://${env:MISSING_HOST}/api' },
+      custom: { a: '${self:custom.b}', b: '${self:custom.a}' },
+      other: '${vault:secret/path}'
+    };
+
+    // When resolving
+    const { config: resolved, unresolved } = new ServerlessVariableResolver({ env: {} }).resolve(config);
+
+    // Then they are reported with their source
+    expect(resolved.environment).toEqual({ SECRET: '${env:MISSING_SECRET}', URL: 'https://${env:MISSING_HOST}/api' });
+    expect(unresolved).toEqual(expect.arrayContaining([
+      expect.objectContaining({ path: 'environment.SECRET', source: 'env', address: 'MISSING_SECRET' }),
+      expect.objectContaining({ path: 'environment.URL', source: 'env', address: 'MISSING_HOST' }),
+      expect.objectContaining({ reason: expect.stringContaining('Circular reference') }),
+      expect.objectContaining({ path: 'other', reason: "Unsupported variable source 'vault'" })
+    ]));
+  });
+
+  it('should ignore CloudFormation Fn::Sub references', () => {
+    const config = { arn: { 'Fn::Sub': 'arn:aws:s3:::${AWS::AccountId}-${Bucket.Arn}-${opt:stage}' } };
+
+    const { config: resolved, unresolved } = new ServerlessVariableResolver({ stage: 'dev' }).resolve(config);
+
+    expect(resolved.arn['Fn::Sub']).toBe('arn:aws:s3:::${AWS::AccountId}-${Bucket.Arn}-dev');
+    expect(unresolved).toEqual([]);
+  });
+
+  describe('file references', () => {
+    let tmpDir: string;
+
+    beforeEach(() => {
+      tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'orcdk-vars-'));
+      fs.writeFileSync(path.join(tmpDir, 'config.yml'), 'prod:\n  memory: 1024\n  table: ${self:service}-prod\n');
+      fs.writeFileSync(path.join(tmpDir, 'settings.json'), JSON.stringify({ timeout: 30 }));
+    });
+
+    afterEach(() => {
+      fs.rmSync(tmpDir, { recursive: true, force: true });
+    });
+
+    it('should read values from YAML and JSON files relative to the service', () => {
+      // Given references into local files, keyed by stage
+      const config = {
+        service: 'orders',
+        custom: { stageConfig: '${file(./config.yml):${opt:stage}}' },
+        memory: '${self:custom.stageConfig.memory}',
+        table: '${self:custom.stageConfig.table}',
+        timeout: '${file(./settings.json):timeout}',
+        fallback: "${file(./missing.yml):key, 'none'}"
+      };
+
+      // When resolving
+      const { config: resolved } = new ServerlessVariableResolver({ stage: 'prod', servicePath: tmpDir }).resolve(config);
+
+      // Then file values are used, including variables inside them
+      expect(resolved).toMatchObject({ memory: 1024, table: 'orders-prod', timeout: 30, fallback: 'none' });
+    });
+
+    it('should not evaluate JavaScript files', () => {
+      const config = { value: '${file(./values.js):value}' };
+
+      const { unresolved } = new ServerlessVariableResolver({ servicePath: tmpDir }).resolve(config);
+
+      expect(unresolved[0]?.reason).toContain('only YAML and JSON');
+    });
+  });
+});
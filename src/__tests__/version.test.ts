@@ -0,0 +1,81 @@
+import { parseVersion, compareVersions, formatVersion, satisfiesRange } from '../version';
+
+describe('version', () => {
+  describe('when parsing versions', () => {
+    it('should extract the first version from CLI output', () => {
+      // Given framework version output
+      const output = 'Framework Core: 3.38.0\nPlugin: 7.2.0\nSDK: 4.5.1';
+
+      // When parsing
+      const version = parseVersion(output);
+
+      // Then the core version is returned
+      expect(version).toEqual({ major: 3, minor: 38, patch: 0 });
+    });
+
+    it('should default a missing patch to zero', () => {
+      expect(parseVersion('v4.1')).toEqual({ major: 4, minor: 1, patch: 0 });
+    });
+
+    it('should return null without a version', () => {
+      expect(parseVersion('command not found')).toBeNull();
+    });
+  });
+
+  describe('when comparing versions', () => {
+    it('should order by major, minor and patch', () => {
+      const v = (s: string) => parseVersion(s)!;
+
+      expect(compareVersions(v('3.1.0'), v('3.0.9'))).toBeGreaterThan(0);
+      expect(compareVersions(v('2.9.9'), v('3.0.0'))).toBeLessThan(0);
+      expect(compareVersions(v('3.0.1'), v('3.0.1'))).toBe(0);
+      expect(formatVersion(v('3.0.1'))).toBe('3.0.1');
+    });
+  });
+
+  describe('when matching ranges', () => {
+    it.each([
+      ['3.38.0', '3', true],
+      ['4.0.0', '3', false],
+      ['3.38.0', '3.x', true],
+      ['3.38.0', '^3.0.0', true],
+      ['4.1.0', '^3.0.0', false],
+      ['0.2.5', '^0.2.0', true],
+      ['0.3.0', '^0.2.0', false],
+      ['0.0.3', '^0.0.3', true],
+      ['0.0.4', '^0.0.3', false],
+      ['0.0.9', '^0.0', true],
+      ['0.1.0', '^0.0', false],
+      ['0.9.0', '^0', true],
+      ['1.0.0', '^0', false],
+      ['3.1.9', '~3.1.0', true],
+      ['3.2.0', '~3.1.0', false],
+      ['3.5.0', '>=3.0.0 <4.0.0', true],
+      ['4.0.0', '>=3.0.0 <4.0.0', false],
+      ['3.0.0', '>3', false],
+      ['4.0.0', '>3', true],
+      ['3.9.9', '<=3', true],
+      ['2.72.3', '2 || 3', true],
+      ['1.0.0', '2 || 3', false],
+      ['3.38.0', '3.38.0', true],
+      ['3.38.1', '=3.38.0', false],
+      ['9.9.9', '*', true],
+      ['3.0.1', '>3.0.0', true],
+      ['3.1.0', '>3.0', true],
+      ['3.1.2', '<=3.1.2', true],
+      ['3.1.3', '<=3.1', true],
+      ['3.2.0', '<=3.1', false],
+      ['3.9.0', '~3', true],
+      ['3.9.0', '^3', true],
+      ['3.0.0', '>= 3.0.0', true],
+      ['2.9.0', '<3', true]
+    ])('should match %s against %s as %s', (version, range, expected) => {
+      expect(satisfiesRange(version, range)).toBe(expected);
+    });
+
+    it('should reject unparseable ranges and versions', () => {
+      expect(satisfiesRange('3.0.0', 'not-a-range')).toBe(false);
+      expect(satisfiesRange('unknown', '3')).toBe(false);
+    });
+  });
+});
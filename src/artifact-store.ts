@@ -0,0 +1,215 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { ServerlessArtifact } from './types';
+
+export const ARTIFACT_MANIFEST_FILE = 'orcdk-artifact.json';
+
+// Artifacts kept per service and stage when no retention is configured
+const DEFAULT_RETAIN = 5;
+
+/**
+ * Metadata recorded with a new artifact
+ */
+export interface ArtifactMetadata {
+  service: string;
+  stage: string;
+  region?: string;
+}
+
+/**
+ * Options for storing artifacts
+ */
+export interface ArtifactStoreOptions {
+  // Artifacts to keep per service and stage, newest first; 0 keeps every artifact
+  retain?: number;
+}
+
+/**
+ * Stores versioned Serverless packages so a build can be deployed again to its stage
+ *
+ * Layout: <root>/<service>/<stage>-<hash prefix>/ with an orcdk-artifact.json manifest
+ *
+ * The hash covers the packaged output, which includes timestamps in the state
+ * file and zips, so it identifies a build rather than its sources: packaging
+ * unchanged sources again produces a new version.
+ */
+export class ServerlessArtifactStore {
+  private readonly rootDir: string;
+  private readonly retain: number;
+
+  constructor(rootDir: string, options: ArtifactStoreOptions = {}) {
+    this.rootDir = rootDir;
+    this.retain = options.retain ?? DEFAULT_RETAIN;
+  }
+
+  /**
+   * Create an empty staging directory for `serverless package --package`
+   */
+  async createStagingDirectory(service: string): Promise<string> {
+    const serviceDir = path.join(this.rootDir, this.sanitize(service));
+    await fs.promises.mkdir(serviceDir, { recursive: true });
+
+    return fs.promises.mkdtemp(path.join(serviceDir, '.staging-'));
+  }
+
+  /**
+   * Seal a packaged staging directory into a versioned artifact
+   *
+   * Older artifacts of the same service and stage beyond the retention limit are deleted.
+   */
+  async commit(stagingDir: string, metadata: ArtifactMetadata): Promise<ServerlessArtifact> {
+    const artifact = await this.store(stagingDir, metadata);
+    await this.prune(metadata.service, metadata.stage, artifact.directory);
+    return artifact;
+  }
+
+  /**
+   * Move a staging directory to its versioned directory and write the manifest
+   */
+  private async store(stagingDir: string, metadata: ArtifactMetadata): Promise<ServerlessArtifact> {
+    const hash = await this.computeHash(stagingDir);
+    const version = `${this.sanitize(metadata.stage)}-${hash.substring(0, 12)}`;
+    const directory = path.join(this.rootDir, this.sanitize(metadata.service), version);
+
+    if (fs.existsSync(path.join(directory, ARTIFACT_MANIFEST_FILE))) {
+      // The same output was packaged before; keep the existing artifact
+      await fs.promises.rm(stagingDir, { recursive: true, force: true });
+      return this.read(directory);
+    }
+
+    await fs.promises.rm(directory, { recursive: true, force: true });
+    await fs.promises.rename(stagingDir, directory);
+
+    const artifact: ServerlessArtifact = {
+      service: metadata.service,
+      stage: metadata.stage,
+      region: metadata.region,
+      version,
+      hash,
+      directory,
+      createdAt: new Date().toISOString()
+    };
+
+    await fs.promises.writeFile(
+      path.join(directory, ARTIFACT_MANIFEST_FILE),
+      JSON.stringify(artifact, null, 2)
+    );
+
+    return artifact;
+  }
+
+  /**
+   * Read an artifact from its directory
+   */
+  async read(directory: string): Promise<ServerlessArtifact> {
+    const manifestPath = path.join(directory, ARTIFACT_MANIFEST_FILE);
+
+    if (!fs.existsSync(manifestPath)) {
+      throw new Error(`Not a Serverless artifact: ${manifestPath} is missing`);
+    }
+
+    const artifact = JSON.parse(await fs.promises.readFile(manifestPath, 'utf-8')) as ServerlessArtifact;
+    return { ...artifact, directory };
+  }
+
+  /**
+   * Verify an artifact's content still matches its recorded hash
+   */
+  async verify(artifact: ServerlessArtifact): Promise<void> {
+    const hash = await this.computeHash(artifact.directory);
+
+    if (hash !== artifact.hash) {
+      throw new Error(
+        `Artifact ${artifact.service}@${artifact.version} has been modified: expected hash ${artifact.hash}, found ${hash}`
+      );
+    }
+  }
+
+  /**
+   * List a service's artifacts, newest first
+   */
+  async list(service: string): Promise<ServerlessArtifact[]> {
+    const serviceDir = path.join(this.rootDir, this.sanitize(service));
+
+    if (!fs.existsSync(serviceDir)) {
+      return [];
+    }
+
+    const entries = await fs.promises.readdir(serviceDir, { withFileTypes: true });
+    const artifacts = await Promise.all(
+      entries
+        .filter(e => e.isDirectory() && !e.name.startsWith('.'))
+        .filter(e => fs.existsSync(path.join(serviceDir, e.name, ARTIFACT_MANIFEST_FILE)))
+        .map(e => this.read(path.join(serviceDir, e.name)))
+    );
+
+    return artifacts.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  }
+
+  /**
+   * Delete the oldest artifacts of a service and stage beyond the retention limit
+   *
+   * @param current Artifact directory that is always kept, e.g. the one about to be deployed
+   */
+  async prune(service: string, stage: string, current?: string): Promise<ServerlessArtifact[]> {
+    if (this.retain <= 0) {
+      return [];
+    }
+
+    const others = (await this.list(service)).filter(a => a.stage === stage && a.directory !== current);
+    const stale = others.slice(current ? this.retain - 1 : this.retain);
+
+    for (const artifact of stale) {
+      await fs.promises.rm(artifact.directory, { recursive: true, force: true });
+    }
+
+    return stale;
+  }
+
+  /**
+   * Compute a SHA-256 over every file's relative path and content, excluding the manifest
+   */
+  async computeHash(directory: string): Promise<string> {
+    const hash = crypto.createHash('sha256');
+    const files = (await this.listFiles(directory))
+      .filter(f => f !== ARTIFACT_MANIFEST_FILE)
+      .sort();
+
+    for (const file of files) {
+      hash.update(file);
+      hash.update('\0');
+      hash.update(await fs.promises.readFile(path.join(directory, file)));
+      hash.update('\0');
+    }
+
+    return hash.digest('hex');
+  }
+
+  /**
+   * Recursively list files relative to a directory, using forward slashes
+   */
+  private async listFiles(directory: string, prefix = ''): Promise<string[]> {
+    const entries = await fs.promises.readdir(path.join(directory, prefix), { withFileTypes: true });
+    const files: string[] = [];
+
+    for (const entry of entries) {
+      const relative = prefix ? `${prefix}/${entry.name}` : entry.name;
+
+      if (entry.isDirectory()) {
+        files.push(...await this.listFiles(directory, relative));
+      } else if (entry.isFile()) {
+        files.push(relative);
+      }
+    }
+
+    return files;
+  }
+
+  /**
+   * Make a name safe to use as a single path segment
+   */
+  private sanitize(name: string): string {
+    return name.replace(/[^a-zA-Z0-9._-]/g, '_');
+  }
+}
@@ -0,0 +1,232 @@
+import { spawn } from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { SemVer, parseVersion, formatVersion, satisfiesRange } from './version';
+
+// Time allowed for `<binary> --version`; npx may need to locate the package first
+const VERSION_PROBE_TIMEOUT_MS = 30000;
+
+// Local binary names, in order of preference
+const LOCAL_BINARY_NAMES = ['serverless', 'sls', 'osls'];
+
+/**
+ * Serverless Framework distribution behind a resolved binary
+ */
+export type ServerlessFlavor = 'serverless' | 'osls';
+
+/**
+ * Features that differ between framework versions and distributions
+ */
+export interface ServerlessCapabilities {
+  params: boolean;
+  compose: boolean;
+  builtInBuild: boolean;
+  requiresLogin: boolean;
+}
+
+/**
+ * A Serverless binary resolved for a service
+ */
+export interface ServerlessBinary {
+  command: string;
+  prefixArgs: string[];
+  source: 'local' | 'npx' | 'configured';
+  location: string;
+  flavor: ServerlessFlavor;
+  version: SemVer;
+  capabilities: ServerlessCapabilities;
+}
+
+/**
+ * Options for resolving Serverless binaries
+ */
+export interface BinaryResolverOptions {
+  binaryPath?: string;
+  useNpx?: boolean;
+  projectRoot?: string;
+}
+
+/**
+ * Resolves the Serverless Framework binary a service should be deployed with
+ */
+export class ServerlessBinaryResolver {
+  private readonly options: BinaryResolverOptions;
+
+  constructor(options: BinaryResolverOptions = {}) {
+    this.options = options;
+  }
+
+  /**
+   * Resolve a binary for a service: local node_modules/.bin first, then npx, then the configured path
+   */
+  async resolve(servicePath: string): Promise<ServerlessBinary> {
+    const candidates = this.getCandidates(servicePath);
+    const tried: string[] = [];
+
+    for (const candidate of candidates) {
+      tried.push(candidate.location);
+
+      const output = await this.probeVersion(candidate.command, candidate.prefixArgs, servicePath);
+      if (output === null) {
+        continue;
+      }
+
+      const version = parseVersion(this.extractVersionLine(output));
+      if (!version) {
+        continue;
+      }
+
+      const flavor = this.detectFlavor(candidate.location, output);
+
+      return {
+        ...candidate,
+        flavor,
+        version,
+        capabilities: this.getCapabilities(flavor, version)
+      };
+    }
+
+    throw new Error(
+      `Serverless Framework CLI not found for ${servicePath} (tried: ${tried.join(', ')}). ` +
+      'Install it in the service (npm install --save-dev serverless) or set binary.path in the plugin config.'
+    );
+  }
+
+  /**
+   * Check a resolved binary against a service's frameworkVersion constraint
+   */
+  assertFrameworkVersion(binary: ServerlessBinary, frameworkVersion: string | undefined, serviceName: string): void {
+    if (!frameworkVersion) {
+      return;
+    }
+
+    if (!satisfiesRange(binary.version, String(frameworkVersion))) {
+      throw new Error(
+        `Service ${serviceName} requires Serverless Framework '${frameworkVersion}' but ` +
+        `${binary.flavor} ${formatVersion(binary.version)} was resolved from ${binary.location}. ` +
+        'Install a matching version in the service or update frameworkVersion.'
+      );
+    }
+  }
+
+  /**
+   * Get the feature set for a distribution and version
+   */
+  getCapabilities(flavor: ServerlessFlavor, version: SemVer): ServerlessCapabilities {
+    const isV4 = flavor === 'serverless' && version.major >= 4;
+
+    return {
+      params: version.major >= 3,
+      compose: version.major >= 3,
+      builtInBuild: isV4,
+      requiresLogin: isV4
+    };
+  }
+
+  /**
+   * Whether credentials for a v4 login-gated binary are available without an interactive login
+   */
+  hasLicenceCredentials(accessKey?: string): boolean {
+    return Boolean(
+      accessKey ||
+      process.env.SERVERLESS_ACCESS_KEY ||
+      process.env.SERVERLESS_LICENSE_KEY ||
+      fs.existsSync(path.join(os.homedir(), '.serverlessrc'))
+    );
+  }
+
+  /**
+   * Build the ordered list of binary candidates for a service
+   */
+  private getCandidates(servicePath: string): Array<Pick<ServerlessBinary, 'command' | 'prefixArgs' | 'source' | 'location'>> {
+    const candidates: Array<Pick<ServerlessBinary, 'command' | 'prefixArgs' | 'source' | 'location'>> = [];
+
+    const localBinary = this.findLocalBinary(servicePath);
+    if (localBinary) {
+      candidates.push({ command: localBinary, prefixArgs: [], source: 'local', location: localBinary });
+    }
+
+    if (this.options.useNpx !== false) {
+      const npx = process.platform === 'win32' ? 'npx.cmd' : 'npx';
+      candidates.push({ command: npx, prefixArgs: ['--no-install', 'serverless'], source: 'npx', location: 'npx serverless' });
+    }
+
+    if (this.options.binaryPath) {
+      const configured = path.resolve(this.options.projectRoot || process.cwd(), this.options.binaryPath);
+      candidates.push({ command: configured, prefixArgs: [], source: 'configured', location: configured });
+    }
+
+    return candidates;
+  }
+
+  /**
+   * Find a node_modules/.bin binary from the service directory up to the project root
+   */
+  private findLocalBinary(servicePath: string): string | null {
+    const root = path.resolve(this.options.projectRoot || path.parse(path.resolve(servicePath)).root);
+    const suffix = process.platform === 'win32' ? '.cmd' : '';
+    let dir = path.resolve(servicePath);
+
+    for (;;) {
+      for (const name of LOCAL_BINARY_NAMES) {
+        const candidate = path.join(dir, 'node_modules', '.bin', `${name}${suffix}`);
+        if (fs.existsSync(candidate)) {
+          return candidate;
+        }
+      }
+
+      const parent = path.dirname(dir);
+      if (dir === root || parent === dir || !dir.startsWith(root)) {
+        return null;
+      }
+      dir = parent;
+    }
+  }
+
+  /**
+   * Pick the line carrying the framework version out of `--version` output
+   */
+  private extractVersionLine(output: string): string {
+    const lines = output.split('\n');
+    return lines.find(l => /framework/i.test(l) && /\d+\.\d+/.test(l)) ||
+      lines.find(l => /\d+\.\d+/.test(l)) ||
+      '';
+  }
+
+  /**
+   * Detect whether a binary is the osls fork or the upstream framework
+   */
+  private detectFlavor(location: string, output: string): ServerlessFlavor {
+    return /osls/i.test(output) || path.basename(location).startsWith('osls') ? 'osls' : 'serverless';
+  }
+
+  /**
+   * Run `<binary> --version`, returning its output or null if it cannot run
+   */
+  private probeVersion(command: string, prefixArgs: string[], cwd: string): Promise<string | null> {
+    return new Promise(resolve => {
+      let output = '';
+      const proc = spawn(command, [...prefixArgs, '--version'], {
+        cwd,
+        stdio: ['ignore', 'pipe', 'pipe']
+      });
+      const timer = setTimeout(() => proc.kill('SIGKILL'), VERSION_PROBE_TIMEOUT_MS);
+
+      proc.stdout?.on('data', data => {
+        output += data.toString();
+      });
+      proc.stderr?.on('data', data => {
+        output += data.toString();
+      });
+      proc.on('error', () => {
+        clearTimeout(timer);
+        resolve(null);
+      });
+      proc.on('close', code => {
+        clearTimeout(timer);
+        resolve(code === 0 ? output : null);
+      });
+    });
+  }
+}
@@ -0,0 +1,168 @@
+import * as fs from 'fs';
+import { CdkOutputSource, CdkStack, ServerlessDependency } from './types';
+
+const SSM_PARAMETER = 'AWS::SSM::Parameter';
+
+/**
+ * The parts of a synthesized CloudFormation template the index reads
+ */
+export interface CdkTemplate {
+  Resources?: Record<string, { Type?: string; Properties?: Record<string, unknown>; Metadata?: Record<string, unknown> }>;
+  Outputs?: Record<string, { Value?: unknown; Export?: { Name?: unknown }; Metadata?: Record<string, unknown> }>;
+}
+
+/**
+ * Index of the SSM parameters, exports and outputs written by synthesized CDK stacks
+ *
+ * Names built from other resources or parameters can't be known before
+ * deploying, so only literal names are indexed; `Ref: AWS::StackName` and
+ * `Fn::Join` over literals are expanded.
+ */
+export class CdkOutputIndex {
+  private readonly parameters = new Map<string, CdkOutputSource>();
+  private readonly exports = new Map<string, CdkOutputSource>();
+  // Keyed by `<stack name or ID>.<output>`
+  private readonly outputs = new Map<string, CdkOutputSource>();
+  // Output names of each stack, by stack name and ID
+  private readonly stackOutputs = new Map<string, string[]>();
+
+  /**
+   * Read the templates of CDK stacks into an index
+   */
+  static async load(stacks: CdkStack[]): Promise<CdkOutputIndex> {
+    const index = new CdkOutputIndex();
+
+    for (const stack of stacks) {
+      if (!stack.templateFile) {
+        continue;
+      }
+
+      try {
+        index.addTemplate(stack, JSON.parse(await fs.promises.readFile(stack.templateFile, 'utf-8')));
+      } catch {
+        // A missing or unreadable template produces nothing
+      }
+    }
+
+    return index;
+  }
+
+  /**
+   * Add the parameters and outputs of a stack's template
+   */
+  addTemplate(stack: CdkStack, template: CdkTemplate | null): void {
+    const source = (logicalId: string, definition?: { Metadata?: Record<string, unknown> }): CdkOutputSource => {
+      const constructPath = definition?.Metadata?.['aws:cdk:path'];
+      return {
+        stackId: stack.id,
+        stackName: stack.stackName,
+        logicalId,
+        constructPath: typeof constructPath === 'string' ? constructPath : undefined
+      };
+    };
+
+    for (const [logicalId, resource] of Object.entries(template?.Resources || {})) {
+      const name = resource?.Type === SSM_PARAMETER ? toLiteral(resource.Properties?.Name, stack) : null;
+      if (name) {
+        this.parameters.set(name, source(logicalId, resource));
+      }
+    }
+
+    const outputNames = Object.keys(template?.Outputs || {});
+    this.stackOutputs.set(stack.stackName, outputNames);
+    this.stackOutputs.set(stack.id, outputNames);
+
+    for (const [logicalId, output] of Object.entries(template?.Outputs || {})) {
+      const outputSource = source(logicalId, output);
+      this.outputs.set(`${stack.stackName}.${logicalId}`, outputSource);
+      this.outputs.set(`${stack.id}.${logicalId}`, outputSource);
+
+      const exportName = toLiteral(output?.Export?.Name, stack);
+      if (exportName) {
+        this.exports.set(exportName, outputSource);
+      }
+    }
+  }
+
+  /**
+   * Find the stack that writes an SSM parameter
+   */
+  findParameter(name: string): CdkOutputSource | undefined {
+    return this.parameters.get(name);
+  }
+
+  /**
+   * Find the stack that exports a value
+   */
+  findExport(name: string): CdkOutputSource | undefined {
+    return this.exports.get(name);
+  }
+
+  /**
+   * Find a stack output by stack name or construct ID
+   */
+  findOutput(stack: string, output: string): CdkOutputSource | undefined {
+    return this.outputs.get(`${stack}.${output}`);
+  }
+
+  /**
+   * Get the outputs a stack declares, or undefined when the stack isn't indexed
+   */
+  getOutputNames(stack: string): string[] | undefined {
+    return this.stackOutputs.get(stack);
+  }
+
+  getStackNames(): string[] {
+    return Array.from(this.stackOutputs.keys());
+  }
+
+  getParameterNames(): string[] {
+    return Array.from(this.parameters.keys());
+  }
+
+  getExportNames(): string[] {
+    return Array.from(this.exports.keys());
+  }
+
+  /**
+   * Find what produces the value an SSM, CloudFormation or import reference reads
+   */
+  resolve(dependency: ServerlessDependency): CdkOutputSource | undefined {
+    switch (dependency.kind) {
+      case 'ssm':
+        return dependency.parameter ? this.findParameter(dependency.parameter) : undefined;
+      case 'cloudformation':
+        return dependency.stack && dependency.output ? this.findOutput(dependency.stack, dependency.output) : undefined;
+      case 'import':
+        return dependency.exportName ? this.findExport(dependency.exportName) : undefined;
+      default:
+        return undefined;
+    }
+  }
+}
+
+/**
+ * Read a name that is known at synth time
+ */
+function toLiteral(value: unknown, stack: CdkStack): string | null {
+  if (typeof value === 'string') {
+    return value;
+  }
+
+  if (!value || typeof value !== 'object') {
+    return null;
+  }
+
+  const intrinsic = value as Record<string, unknown>;
+  if (intrinsic.Ref === 'AWS::StackName') {
+    return stack.stackName;
+  }
+
+  const join = intrinsic['Fn::Join'];
+  if (Array.isArray(join) && typeof join[0] === 'string' && Array.isArray(join[1])) {
+    const parts = join[1].map((part: unknown) => toLiteral(part, stack));
+    return parts.every(part => part !== null) ? parts.join(join[0]) : null;
+  }
+
+  return null;
+}
@@ -0,0 +1,124 @@
+import { ServerlessCliOptions } from './types';
+
+/**
+ * Serverless commands that accept pass-through options
+ */
+export type ServerlessCommand =
+  'package' | 'deploy' | 'deploy function' | 'remove' | 'info' | 'logs' | 'invoke' | 'invoke local';
+
+// Options the wrapper sets itself, which can't be passed as custom --opt values
+const RESERVED_OPTIONS = new Set([
+  'stage', 'region', 'package', 'function', 'f', 'config', 'c', 'aws-profile', 'param',
+  'verbose', 'conceal', 'force', 'update-config', 'help', 'h', 'version', 'v', 'debug'
+]);
+
+// Commands that print secrets and therefore understand --conceal
+const CONCEAL_COMMANDS = new Set<ServerlessCommand>(['deploy', 'info']);
+
+const OPTION_NAME_PATTERN = /^[a-zA-Z][a-zA-Z0-9-]*$/;
+const PARAM_NAME_PATTERN = /^[a-zA-Z0-9_.-]+$/;
+const CONFIG_FILE_PATTERN = /^[^/\\]+\.(ya?ml|json|js|cjs|mjs|ts)$/;
+
+/**
+ * Validate pass-through options, throwing one error that lists every problem
+ */
+export function validateCliOptions(params: Record<string, string> = {}, options: ServerlessCliOptions = {}): void {
+  const errors: string[] = [];
+
+  for (const [name, value] of Object.entries(params)) {
+    if (!PARAM_NAME_PATTERN.test(name)) {
+      errors.push(`Invalid param name '${name}': use letters, digits, '.', '_' or '-'`);
+    }
+    if (typeof value !== 'string' || /[\r\n]/.test(value)) {
+      errors.push(`Invalid value for param '${name}': must be a single-line string`);
+    }
+  }
+
+  if (options.awsProfile !== undefined && !/^[^\s]+$/.test(options.awsProfile)) {
+    errors.push(`Invalid awsProfile '${options.awsProfile}': must be a non-empty name without whitespace`);
+  }
+
+  if (options.config !== undefined && !CONFIG_FILE_PATTERN.test(options.config)) {
+    errors.push(
+      `Invalid config '${options.config}': must be a file name in the service directory ` +
+      'ending in .yml, .yaml, .json, .js or .ts'
+    );
+  }
+
+  for (const [name, value] of Object.entries(options.opts || {})) {
+    if (!OPTION_NAME_PATTERN.test(name)) {
+      errors.push(`Invalid option name '${name}': use letters, digits and '-', starting with a letter`);
+    } else if (RESERVED_OPTIONS.has(name)) {
+      errors.push(`Option '${name}' is managed by the plugin and can't be passed through opts`);
+    }
+    if (!['string', 'number', 'boolean'].includes(typeof value)) {
+      errors.push(`Invalid value for option '${name}': must be a string, number or boolean`);
+    }
+  }
+
+  if (errors.length > 0) {
+    throw new Error(`Invalid Serverless CLI options:\n  - ${errors.join('\n  - ')}`);
+  }
+}
+
+/**
+ * Build CLI arguments for params and pass-through options
+ */
+export function buildCliArgs(
+  command: ServerlessCommand,
+  params: Record<string, string> = {},
+  options: ServerlessCliOptions = {}
+): string[] {
+  validateCliOptions(params, options);
+
+  const args: string[] = [];
+
+  if (options.config) {
+    args.push('--config', options.config);
+  }
+
+  if (options.awsProfile) {
+    args.push('--aws-profile', options.awsProfile);
+  }
+
+  for (const [name, value] of Object.entries(params)) {
+    args.push('--param', `${name}=${value}`);
+  }
+
+  if (options.verbose) {
+    args.push('--verbose');
+  }
+
+  if (options.conceal && CONCEAL_COMMANDS.has(command)) {
+    args.push('--conceal');
+  }
+
+  for (const [name, value] of Object.entries(options.opts || {})) {
+    if (value === true) {
+      args.push(`--${name}`);
+    } else if (value !== false) {
+      args.push(`--${name}`, String(value));
+    }
+  }
+
+  return args;
+}
+
+/**
+ * Merge per-service defaults with per-deployment overrides
+ */
+export function mergeCliOptions(
+  defaults: { params?: Record<string, string>; cliOptions?: ServerlessCliOptions } = {},
+  overrides: { params?: Record<string, string>; cliOptions?: ServerlessCliOptions } = {}
+): { params: Record<string, string>; cliOptions: ServerlessCliOptions } {
+  const cliOptions: ServerlessCliOptions = { ...defaults.cliOptions, ...overrides.cliOptions };
+
+  if (defaults.cliOptions?.opts || overrides.cliOptions?.opts) {
+    cliOptions.opts = { ...defaults.cliOptions?.opts, ...overrides.cliOptions?.opts };
+  }
+
+  return {
+    params: { ...defaults.params, ...overrides.params },
+    cliOptions
+  };
+}
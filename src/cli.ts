@@ -1,15 +1,104 @@
-import { spawn } from 'child_process';
+import { spawn, ChildProcess } from 'child_process';
+import { ServerlessBinary, ServerlessBinaryResolver } from './binary-resolver';
+import { buildCliArgs } from './cli-options';
+import { formatVersion } from './version';
+import { ServerlessCliOptions } from './types';
+
+// Grace period between SIGTERM and SIGKILL when terminating a command
+const KILL_GRACE_PERIOD_MS = 5000;
+
+/**
+ * Per-command execution options
+ */
+export interface ServerlessCommandOptions {
+  signal?: AbortSignal;
+  timeout?: number;
+  params?: Record<string, string>;
+  cliOptions?: ServerlessCliOptions;
+  onLine?: (line: string, stream: 'stdout' | 'stderr') => void;
+}
+
+/**
+ * Options for commands that read or write a package directory
+ */
+export interface PackageCommandOptions extends ServerlessCommandOptions {
+  packagePath?: string;
+}
+
+/**
+ * Options for `serverless deploy`
+ */
+export interface DeployCommandOptions extends PackageCommandOptions {
+  force?: boolean;
+}
+
+/**
+ * Options for `serverless deploy function`
+ */
+export interface DeployFunctionOptions extends ServerlessCommandOptions {
+  updateConfig?: boolean;
+}
+
+/**
+ * Options for locating and authenticating the Serverless binary
+ */
+export interface ServerlessCLIOptions {
+  binaryPath?: string;
+  useNpx?: boolean;
+  accessKey?: string;
+  projectRoot?: string;
+}
+
+/**
+ * Options for `serverless logs`
+ */
+export interface LogsCommandOptions extends ServerlessCommandOptions {
+  tail?: boolean;
+  startTime?: string;
+  filter?: string;
+}
+
+/**
+ * Options for `serverless invoke` and `serverless invoke local`
+ */
+export interface InvokeCommandOptions extends ServerlessCommandOptions {
+  local?: boolean;
+  path?: string;
+  log?: boolean;
+}
+
+interface ExecuteOptions extends ServerlessCommandOptions {
+  cwd?: string;
+  // Echo output to the terminal (default true)
+  echo?: boolean;
+  // Keep stdout to resolve with; disabled for long-running streams
+  collectStdout?: boolean;
+}
 
 /**
  * Wrapper for Serverless Framework CLI
  */
 export class ServerlessCLI {
+  private readonly inFlight = new Set<(reason: string) => void>();
+  private readonly binaries = new Map<string, Promise<ServerlessBinary>>();
+  private readonly resolver: ServerlessBinaryResolver;
+  private readonly accessKey?: string;
+
+  constructor(options: ServerlessCLIOptions = {}) {
+    this.resolver = new ServerlessBinaryResolver({
+      binaryPath: options.binaryPath,
+      useNpx: options.useNpx,
+      projectRoot: options.projectRoot
+    });
+    this.accessKey = options.accessKey;
+  }
+
   /**
    * Check if Serverless CLI is installed
    */
-  async hasServerlessCLI(): Promise<boolean> {
+  async hasServerlessCLI(servicePath: string = process.cwd()): Promise<boolean> {
     try {
-      await this.execute(['--version']);
+      await this.resolveBinary(servicePath);
       return true;
     } catch {
       return false;
@@ -17,88 +106,340 @@ export class ServerlessCLI {
   }
 
   /**
-   * Package a Serverless service
+   * Resolve (and cache) the Serverless binary for a service
+   */
+  resolveBinary(servicePath: string): Promise<ServerlessBinary> {
+    let binary = this.binaries.get(servicePath);
+
+    if (!binary) {
+      binary = this.resolver.resolve(servicePath);
+      // Don't cache failures so a later install is picked up
+      binary.catch(() => this.binaries.delete(servicePath));
+      this.binaries.set(servicePath, binary);
+    }
+
+    return binary;
+  }
+
+  /**
+   * Resolve the binary for a service and verify it can deploy it
+   */
+  async ensureCompatible(servicePath: string, serviceName: string, frameworkVersion?: string): Promise<ServerlessBinary> {
+    const binary = await this.resolveBinary(servicePath);
+
+    this.resolver.assertFrameworkVersion(binary, frameworkVersion, serviceName);
+
+    // v4 prompts for a login when unlicensed, which can't be answered in CI
+    if (binary.capabilities.requiresLogin && process.env.CI && !this.resolver.hasLicenceCredentials(this.accessKey)) {
+      throw new Error(
+        `Serverless Framework v4 requires a licence for ${serviceName}: set SERVERLESS_ACCESS_KEY ` +
+        'or binary.accessKey in the plugin config, or install osls in the service.'
+      );
+    }
+
+    return binary;
+  }
+
+  /**
+   * Package a Serverless service, optionally into a specific directory
    */
-  async package(servicePath: string, stage: string, region?: string): Promise<void> {
+  async package(
+    servicePath: string,
+    stage: string,
+    region?: string,
+    options: PackageCommandOptions = {}
+  ): Promise<void> {
     const args = ['package', '--stage', stage];
-    
+
     if (region) {
       args.push('--region', region);
     }
-    
-    await this.execute(args, { cwd: servicePath });
+
+    if (options.packagePath) {
+      args.push('--package', options.packagePath);
+    }
+
+    args.push(...buildCliArgs('package', options.params, options.cliOptions));
+
+    await this.execute(args, { ...options, cwd: servicePath });
   }
 
   /**
-   * Deploy a Serverless service
+   * Deploy a Serverless service, optionally from a pre-built package directory
    */
-  async deploy(servicePath: string, stage: string, region?: string): Promise<void> {
+  async deploy(
+    servicePath: string,
+    stage: string,
+    region?: string,
+    options: DeployCommandOptions = {}
+  ): Promise<void> {
     const args = ['deploy', '--stage', stage];
-    
+
     if (region) {
       args.push('--region', region);
     }
-    
-    await this.execute(args, { cwd: servicePath });
+
+    if (options.packagePath) {
+      args.push('--package', options.packagePath);
+    }
+
+    if (options.force) {
+      args.push('--force');
+    }
+
+    args.push(...buildCliArgs('deploy', options.params, options.cliOptions));
+
+    await this.execute(args, { ...options, cwd: servicePath });
+  }
+
+  /**
+   * Deploy the code (and optionally configuration) of a single function
+   */
+  async deployFunction(
+    servicePath: string,
+    functionName: string,
+    stage: string,
+    region?: string,
+    options: DeployFunctionOptions = {}
+  ): Promise<void> {
+    const args = ['deploy', 'function', '--function', functionName, '--stage', stage];
+
+    if (region) {
+      args.push('--region', region);
+    }
+
+    if (options.updateConfig) {
+      args.push('--update-config');
+    }
+
+    args.push(...buildCliArgs('deploy function', options.params, options.cliOptions));
+
+    await this.execute(args, { ...options, cwd: servicePath });
   }
 
   /**
    * Remove a Serverless service
    */
-  async remove(servicePath: string, stage: string, region?: string): Promise<void> {
+  async remove(
+    servicePath: string,
+    stage: string,
+    region?: string,
+    options: ServerlessCommandOptions = {}
+  ): Promise<void> {
     const args = ['remove', '--stage', stage];
-    
+
     if (region) {
       args.push('--region', region);
     }
-    
-    await this.execute(args, { cwd: servicePath });
+
+    args.push(...buildCliArgs('remove', options.params, options.cliOptions));
+
+    await this.execute(args, { ...options, cwd: servicePath });
+  }
+
+  /**
+   * Stream a function's logs, delivering each line to options.onLine
+   */
+  async logs(
+    servicePath: string,
+    functionName: string,
+    stage: string,
+    region?: string,
+    options: LogsCommandOptions = {}
+  ): Promise<void> {
+    const args = ['logs', '--function', functionName, '--stage', stage];
+
+    if (region) {
+      args.push('--region', region);
+    }
+
+    if (options.tail) {
+      args.push('--tail');
+    }
+
+    if (options.startTime) {
+      args.push('--startTime', options.startTime);
+    }
+
+    if (options.filter) {
+      args.push('--filter', options.filter);
+    }
+
+    args.push(...buildCliArgs('logs', options.params, options.cliOptions));
+
+    await this.execute(args, {
+      ...options,
+      cwd: servicePath,
+      echo: !options.onLine,
+      collectStdout: false
+    });
+  }
+
+  /**
+   * Invoke a function locally or in the cloud, resolving with its output
+   */
+  async invoke(
+    servicePath: string,
+    functionName: string,
+    stage: string,
+    region?: string,
+    options: InvokeCommandOptions = {}
+  ): Promise<string> {
+    const command = options.local ? 'invoke local' : 'invoke';
+    const args = [...command.split(' '), '--function', functionName, '--stage', stage];
+
+    if (region) {
+      args.push('--region', region);
+    }
+
+    if (options.path) {
+      args.push('--path', options.path);
+    }
+
+    // Remote invocations only print logs when asked to
+    if (options.log && !options.local) {
+      args.push('--log');
+    }
+
+    args.push(...buildCliArgs(command, options.params, options.cliOptions));
+
+    return this.execute(args, { ...options, cwd: servicePath, echo: false });
   }
 
   /**
    * Get service info
    */
-  async info(servicePath: string, stage: string): Promise<string> {
-    const args = ['info', '--stage', stage, '--verbose'];
-    return this.execute(args, { cwd: servicePath });
+  async info(servicePath: string, stage: string, options: ServerlessCommandOptions = {}): Promise<string> {
+    const args = [
+      'info',
+      '--stage', stage,
+      '--verbose',
+      ...buildCliArgs('info', options.params, { ...options.cliOptions, verbose: false })
+    ];
+    return this.execute(args, { ...options, cwd: servicePath });
+  }
+
+  /**
+   * Cancel all in-flight commands
+   */
+  cancelAll(): void {
+    for (const cancel of Array.from(this.inFlight)) {
+      cancel('cancelled');
+    }
   }
 
   /**
    * Execute serverless command
    */
-  private execute(args: string[], options?: { cwd?: string }): Promise<string> {
+  private async execute(args: string[], options: ExecuteOptions = {}): Promise<string> {
+    const { cwd = process.cwd(), signal, timeout } = options;
+    const command = `serverless ${args.join(' ')}`;
+
+    if (signal?.aborted) {
+      throw new Error(`Serverless command aborted before start: ${command}`);
+    }
+
+    let proc: ChildProcess | null = null;
+    let cancelReason: string | null = null;
+    let timer: NodeJS.Timeout | null = null;
+
+    // Registered before the binary is resolved, which can take seconds with npx
+    const cancel = (reason: string): void => {
+      if (cancelReason || (proc && proc.exitCode !== null)) {
+        return;
+      }
+      cancelReason = reason;
+      if (proc) {
+        this.terminate(proc);
+      }
+    };
+    const onAbort = (): void => cancel('aborted');
+    const settle = (): void => {
+      if (timer) {
+        clearTimeout(timer);
+      }
+      signal?.removeEventListener('abort', onAbort);
+      this.inFlight.delete(cancel);
+    };
+
+    signal?.addEventListener('abort', onAbort, { once: true });
+    this.inFlight.add(cancel);
+
+    let binary: ServerlessBinary;
+    try {
+      binary = await this.resolveBinary(cwd);
+
+      if (args.includes('--param') && !binary.capabilities.params) {
+        throw new Error(
+          `--param requires Serverless Framework v3 or later, but ${binary.location} is ${formatVersion(binary.version)}`
+        );
+      }
+      if (cancelReason) {
+        throw new Error(`Serverless command ${cancelReason} before start: ${command}`);
+      }
+    } catch (error) {
+      settle();
+      throw error;
+    }
+
     return new Promise((resolve, reject) => {
-      const serverlessCmd = process.platform === 'win32' ? 'serverless.cmd' : 'serverless';
-      
-      const proc = spawn(serverlessCmd, args, {
-        ...options,
-        stdio: ['inherit', 'pipe', 'pipe']
+      const child = spawn(binary.command, [...binary.prefixArgs, ...args], {
+        cwd,
+        env: this.accessKey ? { ...process.env, SERVERLESS_ACCESS_KEY: this.accessKey } : process.env,
+        stdio: ['inherit', 'pipe', 'pipe'],
+        // Run in its own process group so the whole tree can be terminated
+        detached: process.platform !== 'win32'
         // shell: false is the default and prevents command injection
       });
-      
+      proc = child;
+
       let stdout = '';
       let stderr = '';
-      
-      if (proc.stdout) {
-        proc.stdout.on('data', (data) => {
+
+      if (timeout) {
+        timer = setTimeout(() => cancel(`timed out after ${timeout}ms`), timeout);
+      }
+
+      const stdoutLines = this.createLineSplitter('stdout', options.onLine);
+      const stderrLines = this.createLineSplitter('stderr', options.onLine);
+
+      if (child.stdout) {
+        child.stdout.on('data', (data) => {
           const str = data.toString();
-          stdout += str;
-          process.stdout.write(str);
+          if (options.collectStdout !== false) {
+            stdout += str;
+          }
+          if (options.echo !== false) {
+            process.stdout.write(str);
+          }
+          stdoutLines.push(str);
         });
       }
-      
-      if (proc.stderr) {
-        proc.stderr.on('data', (data) => {
+
+      if (child.stderr) {
+        child.stderr.on('data', (data) => {
           const str = data.toString();
           stderr += str;
-          process.stderr.write(str);
+          if (options.echo !== false) {
+            process.stderr.write(str);
+          }
+          stderrLines.push(str);
         });
       }
-      
-      proc.on('error', reject);
-      
-      proc.on('close', (code) => {
-        if (code === 0) {
+
+      child.on('error', (error) => {
+        settle();
+        reject(error);
+      });
+
+      child.on('close', (code) => {
+        settle();
+        stdoutLines.flush();
+        stderrLines.flush();
+
+        if (cancelReason) {
+          reject(new Error(`Serverless command ${cancelReason}: ${command}`));
+        } else if (code === 0) {
           resolve(stdout);
         } else {
           reject(new Error(`Serverless command failed with code ${code}: ${stderr}`));
@@ -106,4 +447,65 @@ export class ServerlessCLI {
       });
     });
   }
-}
\ No newline at end of file
+
+  /**
+   * Split streamed output into complete lines for a line callback
+   */
+  private createLineSplitter(
+    stream: 'stdout' | 'stderr',
+    onLine?: (line: string, stream: 'stdout' | 'stderr') => void
+  ): { push: (chunk: string) => void; flush: () => void } {
+    let buffer = '';
+
+    return {
+      push: (chunk: string) => {
+        if (!onLine) {
+          return;
+        }
+        buffer += chunk;
+        const lines = buffer.split(/\r?\n/);
+        buffer = lines.pop() || '';
+        lines.forEach(line => onLine(line, stream));
+      },
+      flush: () => {
+        if (onLine && buffer) {
+          onLine(buffer, stream);
+        }
+        buffer = '';
+      }
+    };
+  }
+
+  /**
+   * Terminate a command and all of its child processes
+   */
+  private terminate(proc: ChildProcess): void {
+    const pid = proc.pid;
+
+    if (!pid) {
+      return;
+    }
+
+    if (process.platform === 'win32') {
+      spawn('taskkill', ['/pid', String(pid), '/T', '/F'], { stdio: 'ignore' });
+      return;
+    }
+
+    this.signalProcessGroup(pid, 'SIGTERM');
+
+    // Escalate if anything in the group ignores SIGTERM
+    const killTimer = setTimeout(() => this.signalProcessGroup(pid, 'SIGKILL'), KILL_GRACE_PERIOD_MS);
+    killTimer.unref();
+  }
+
+  /**
+   * Send a signal to a process group, ignoring groups that already exited
+   */
+  private signalProcessGroup(pid: number, signal: NodeJS.Signals): void {
+    try {
+      process.kill(-pid, signal);
+    } catch {
+      // Process group has already exited
+    }
+  }
+}
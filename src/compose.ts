@@ -0,0 +1,166 @@
+import * as path from 'path';
+import { ServerlessConfigLoader } from './config-loader';
+import { ServerlessCompose, ServerlessComposeService } from './types';
+
+/**
+ * Compose file names Serverless looks for, in the order it prefers them
+ */
+export const SERVERLESS_COMPOSE_FILES = [
+  'serverless-compose.yml',
+  'serverless-compose.yaml',
+  'serverless-compose.json',
+  'serverless-compose.js',
+  'serverless-compose.ts'
+];
+
+/**
+ * Compose output reference: ${<service>.<output>}
+ *
+ * Only a plain service name may come before the dot, so `${sls:stage}` and
+ * `${env:NAME}` are left for Serverless to resolve.
+ */
+const OUTPUT_REFERENCE = /\$\{([a-zA-Z0-9_-]+)\.([a-zA-Z0-9_.-]+)\}/g;
+
+/**
+ * An output of another compose service used in a param
+ */
+export interface ComposeOutputReference {
+  service: string;
+  output: string;
+}
+
+/**
+ * Reads serverless-compose files into services with their params and dependencies
+ */
+export class ServerlessComposeReader {
+  private readonly configLoader: ServerlessConfigLoader;
+
+  constructor(configLoader: ServerlessConfigLoader = new ServerlessConfigLoader()) {
+    this.configLoader = configLoader;
+  }
+
+  /**
+   * Read a compose file
+   */
+  async read(file: string): Promise<ServerlessCompose> {
+    const config = await this.configLoader.load(file);
+    const definitions = config.services;
+
+    if (!definitions || typeof definitions !== 'object' || Array.isArray(definitions)) {
+      throw new Error(`Compose file ${file} must define services`);
+    }
+
+    const services = Object.entries(definitions as Record<string, unknown>).map(([name, definition]) =>
+      this.parseService(file, name, definition)
+    );
+
+    const known = new Set(services.map(s => s.name));
+    const errors = services.flatMap(s =>
+      s.dependsOn.filter(d => !known.has(d)).map(d => `'${s.name}' depends on unknown service '${d}'`)
+    );
+
+    if (errors.length > 0) {
+      throw new Error(`Invalid compose file ${file}:\n  - ${errors.join('\n  - ')}`);
+    }
+
+    return { file, services, order: ServerlessComposeReader.getOrder(file, services) };
+  }
+
+  /**
+   * Order services so each one comes after the services it depends on
+   */
+  static getOrder(file: string, services: ServerlessComposeService[]): string[] {
+    const byName = new Map(services.map(s => [s.name, s]));
+    const order: string[] = [];
+    const visiting: string[] = [];
+
+    const visit = (name: string): void => {
+      if (order.includes(name)) {
+        return;
+      }
+
+      if (visiting.includes(name)) {
+        const cycle = [...visiting.slice(visiting.indexOf(name)), name];
+        throw new Error(`Circular dependency in ${file}: ${cycle.join(' -> ')}`);
+      }
+
+      visiting.push(name);
+      for (const dependency of byName.get(name)?.dependsOn || []) {
+        visit(dependency);
+      }
+      visiting.pop();
+      order.push(name);
+    };
+
+    services.forEach(s => visit(s.name));
+    return order;
+  }
+
+  /**
+   * Find the outputs of other services referenced in a value
+   */
+  static findOutputReferences(value: unknown): ComposeOutputReference[] {
+    const text = typeof value === 'string' ? value : JSON.stringify(value ?? null);
+    return Array.from(text.matchAll(OUTPUT_REFERENCE), match => ({ service: match[1]!, output: match[2]! }));
+  }
+
+  /**
+   * Build CLI params for a service, replacing references with deployed outputs
+   *
+   * @param options.placeholders Replace outputs that aren't available with `<service.output>`
+   * instead of throwing, for dry runs and removals that don't need the real values
+   */
+  static resolveParams(
+    service: ServerlessComposeService,
+    outputs: Record<string, Record<string, string>>,
+    options: { placeholders?: boolean } = {}
+  ): Record<string, string> {
+    const params: Record<string, string> = {};
+
+    for (const [name, value] of Object.entries(service.params)) {
+      const text = typeof value === 'string' ? value : JSON.stringify(value);
+
+      params[name] = text.replace(OUTPUT_REFERENCE, (_, dependency: string, output: string) => {
+        const resolved = outputs[dependency]?.[output];
+        if (resolved === undefined && options.placeholders) {
+          return `<${dependency}.${output}>`;
+        }
+        if (resolved === undefined) {
+          throw new Error(
+            `Cannot resolve param '${name}' of '${service.name}': ` +
+            `output '${output}' of '${dependency}' is not available`
+          );
+        }
+        return resolved;
+      });
+    }
+
+    return params;
+  }
+
+  /**
+   * Parse one service definition
+   */
+  private parseService(file: string, name: string, value: unknown): ServerlessComposeService {
+    const definition = (value && typeof value === 'object' ? value : {}) as Record<string, unknown>;
+    if (typeof definition.path !== 'string') {
+      throw new Error(`Compose service '${name}' in ${file} must have a path`);
+    }
+
+    const params = definition.params && typeof definition.params === 'object'
+      ? definition.params as Record<string, unknown>
+      : {};
+    const declared = definition.dependsOn === undefined ? [] : [definition.dependsOn].flat().map(String);
+    const referenced = ServerlessComposeReader.findOutputReferences(params).map(r => r.service);
+
+    return {
+      name,
+      file,
+      path: path.resolve(path.dirname(file), definition.path),
+      config: typeof definition.config === 'string' ? definition.config : undefined,
+      params,
+      // References imply a dependency, just as they do for Serverless Compose
+      dependsOn: Array.from(new Set([...declared, ...referenced]))
+    };
+  }
+}
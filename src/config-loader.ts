@@ -0,0 +1,226 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { spawn } from 'child_process';
+import * as yaml from 'js-yaml';
+import { satisfiesRange } from './version';
+
+/**
+ * Config file names Serverless looks for, in the order it prefers them
+ */
+export const SERVERLESS_CONFIG_FILES = [
+  'serverless.yml',
+  'serverless.yaml',
+  'serverless.json',
+  'serverless.js',
+  'serverless.cjs',
+  'serverless.mjs',
+  'serverless.ts'
+];
+
+/**
+ * Options for loading Serverless configs
+ */
+export interface ConfigLoaderOptions {
+  // Time allowed to evaluate a JS/TS config in milliseconds (default 30000)
+  timeout?: number;
+  maxFileSizeMB?: number;
+}
+
+/**
+ * Short-form CloudFormation functions allowed in YAML configs, e.g. `!ImportValue`
+ */
+const INTRINSIC_FUNCTIONS = [
+  'And', 'Base64', 'Cidr', 'Equals', 'FindInMap', 'GetAtt', 'GetAZs', 'If', 'ImportValue', 'Join', 'Not', 'Or',
+  'Select', 'Split', 'Sub', 'Transform'
+];
+
+/**
+ * YAML schema that reads CloudFormation tags as their long form, as Serverless does
+ */
+export const CLOUDFORMATION_SCHEMA = yaml.DEFAULT_SCHEMA.extend(
+  (['scalar', 'sequence', 'mapping'] as const).flatMap(kind => [
+    new yaml.Type('!Ref', { kind, construct: (data: unknown) => ({ Ref: data }) }),
+    new yaml.Type('!Condition', { kind, construct: (data: unknown) => ({ Condition: data }) }),
+    ...INTRINSIC_FUNCTIONS.map(name => new yaml.Type(`!${name}`, {
+      kind,
+      // !GetAtt Resource.Attribute is the short form of [Resource, Attribute]
+      construct: (data: unknown) => ({
+        [`Fn::${name}`]: name === 'GetAtt' && typeof data === 'string'
+          ? [data.slice(0, data.indexOf('.')), data.slice(data.indexOf('.') + 1)]
+          : data
+      })
+    }))
+  ])
+);
+
+const SCRIPT_EXTENSIONS = new Set(['.js', '.cjs', '.mjs', '.ts']);
+const MAX_OUTPUT_BYTES = 10 * 1024 * 1024;
+
+/**
+ * Runs in the child process: load the config module, await it if it exports
+ * a promise, and print it as JSON
+ */
+const EVALUATE_SCRIPT = `
+(async () => {
+  const file = process.argv[1];
+  let mod;
+  try {
+    mod = require(file);
+  } catch (error) {
+    if (error.code !== 'ERR_REQUIRE_ESM') throw error;
+    mod = await import(require('url').pathToFileURL(file).href);
+  }
+  const config = await (mod && typeof mod === 'object' && 'default' in mod ? mod.default : mod);
+  process.stdout.write(JSON.stringify(config === undefined ? null : config));
+})().catch(error => {
+  process.stderr.write(String(error && error.stack || error));
+  process.exit(1);
+});
+`;
+
+/**
+ * Loads Serverless configs in any supported format into plain objects
+ *
+ * YAML and JSON are parsed in-process. JS and TS configs are code, so they're
+ * evaluated in a separate Node process with a timeout and only their JSON
+ * result is read back.
+ */
+export class ServerlessConfigLoader {
+  private readonly timeout: number;
+  private readonly maxFileSizeMB: number;
+
+  constructor(options: ConfigLoaderOptions = {}) {
+    this.timeout = options.timeout ?? 30000;
+    this.maxFileSizeMB = options.maxFileSizeMB ?? 10;
+  }
+
+  /**
+   * Keep the config Serverless would use in each directory
+   */
+  static selectPreferred(files: string[]): string[] {
+    const byDirectory = new Map<string, string>();
+    const rank = (file: string): number => SERVERLESS_CONFIG_FILES.indexOf(path.basename(file));
+
+    for (const file of files) {
+      const dir = path.dirname(file);
+      const current = byDirectory.get(dir);
+
+      if (!current || rank(file) < rank(current)) {
+        byDirectory.set(dir, file);
+      }
+    }
+
+    return files.filter(file => byDirectory.get(path.dirname(file)) === file);
+  }
+
+  /**
+   * Load a config file
+   */
+  async load(file: string): Promise<Record<string, unknown>> {
+    // Check file size to prevent DoS attacks
+    const stats = await fs.promises.stat(file);
+    const maxFileSize = this.maxFileSizeMB * 1024 * 1024;
+
+    if (stats.size > maxFileSize) {
+      throw new Error(`File ${file} exceeds maximum size limit of ${this.maxFileSizeMB}MB`);
+    }
+
+    const extension = path.extname(file);
+    let config: unknown;
+
+    if (SCRIPT_EXTENSIONS.has(extension)) {
+      config = await this.evaluate(file);
+    } else {
+      const content = await fs.promises.readFile(file, 'utf-8');
+      config = extension === '.json' ? JSON.parse(content) : yaml.load(content, { schema: CLOUDFORMATION_SCHEMA });
+    }
+
+    if (!config || typeof config !== 'object' || Array.isArray(config)) {
+      throw new Error(`Serverless config ${file} must define an object`);
+    }
+
+    return config as Record<string, unknown>;
+  }
+
+  /**
+   * Evaluate a JS/TS config in a child Node process
+   */
+  private evaluate(file: string): Promise<unknown> {
+    const absolute = path.resolve(file);
+    const cwd = path.dirname(absolute);
+    const loaderArgs = path.extname(file) === '.ts' ? this.getTypeScriptLoaderArgs(absolute) : [];
+
+    return new Promise((resolve, reject) => {
+      const proc = spawn(process.execPath, [...loaderArgs, '-e', EVALUATE_SCRIPT, absolute], {
+        cwd,
+        env: process.env,
+        stdio: ['ignore', 'pipe', 'pipe']
+      });
+
+      let stdout = '';
+      let stderr = '';
+      let failure: string | null = null;
+
+      const fail = (reason: string): void => {
+        if (!failure) {
+          failure = reason;
+          proc.kill('SIGKILL');
+        }
+      };
+      const timer = setTimeout(() => fail(`timed out after ${this.timeout}ms`), this.timeout);
+
+      proc.stdout.on('data', (data) => {
+        stdout += data.toString();
+        if (stdout.length > MAX_OUTPUT_BYTES) {
+          fail('produced more than 10MB of output');
+        }
+      });
+      proc.stderr.on('data', (data) => {
+        stderr += data.toString();
+      });
+
+      proc.on('error', (error) => {
+        clearTimeout(timer);
+        reject(error);
+      });
+
+      proc.on('close', (code) => {
+        clearTimeout(timer);
+
+        if (failure) {
+          reject(new Error(`Evaluating ${file} ${failure}`));
+        } else if (code !== 0) {
+          reject(new Error(`Failed to evaluate ${file}: ${stderr.trim() || `exit code ${code}`}`));
+        } else {
+          try {
+            resolve(JSON.parse(stdout));
+          } catch {
+            reject(new Error(`Config ${file} did not produce JSON-serializable output`));
+          }
+        }
+      });
+    });
+  }
+
+  /**
+   * Find a way to run TypeScript: the service's ts-node or tsx, or Node's own type stripping
+   */
+  private getTypeScriptLoaderArgs(file: string): string[] {
+    for (const loader of ['ts-node/register/transpile-only', 'tsx/cjs']) {
+      try {
+        return ['-r', require.resolve(loader, { paths: [path.dirname(file)] })];
+      } catch {
+        // Not installed for this service
+      }
+    }
+
+    if (satisfiesRange(process.versions.node, '>=22.6.0')) {
+      return ['--experimental-strip-types'];
+    }
+
+    throw new Error(
+      `Cannot load ${file}: install ts-node or tsx in the service, ` +
+      'or use Node.js 22.6 or later'
+    );
+  }
+}
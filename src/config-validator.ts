@@ -0,0 +1,396 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { Document, LineCounter, Pair, Scalar, isAlias, isMap, isNode, isScalar, isSeq, parseDocument } from 'yaml';
+import { ServerlessDiagnostic } from './types';
+
+/**
+ * Providers Serverless Framework has supported
+ */
+const KNOWN_PROVIDERS = new Set([
+  'aws', 'azure', 'google', 'openwhisk', 'kubeless', 'knative', 'tencent', 'aliyun', 'cloudflare', 'spotinst', 'fn'
+]);
+
+/**
+ * Event types Serverless understands for AWS functions
+ */
+const KNOWN_EVENTS = new Set([
+  'http', 'httpApi', 'websocket', 'sqs', 'sns', 's3', 'schedule', 'stream', 'eventBridge', 'cloudwatchEvent',
+  'cloudwatchLog', 'alb', 'alexaSkill', 'alexaSmartHome', 'iot', 'iotFleetProvisioning', 'cognitoUserPool',
+  'msk', 'kafka', 'activemq', 'rabbitmq', 'cloudFront'
+]);
+
+// `<module path>.<export>`, as Node.js and Python runtimes expect
+const HANDLER_PATTERN = /^[^\s]+\.[a-zA-Z_$][\w$]*$/;
+const HTTP_EVENT_PATTERN = /^[a-zA-Z]+\s+\S+$/;
+
+export type KeyPath = Array<string | number>;
+
+interface ValidationProblem {
+  path: KeyPath;
+  severity: ServerlessDiagnostic['severity'];
+  message: string;
+}
+
+/**
+ * A location in a config file, 1-based
+ */
+export interface SourceLocation {
+  line: number;
+  column: number;
+}
+
+interface ParsedSource {
+  document: Document;
+  lineCounter: LineCounter;
+}
+
+/**
+ * Validates Serverless configs and reports problems with their location
+ *
+ * Values that still contain variables after resolution are skipped, since
+ * Serverless resolves them at deploy time.
+ */
+export class ServerlessConfigValidator {
+  /**
+   * Validate a loaded config
+   */
+  async validate(file: string, config: Record<string, unknown>): Promise<ServerlessDiagnostic[]> {
+    const problems: ValidationProblem[] = [];
+    const error = (keyPath: KeyPath, message: string): void => {
+      problems.push({ path: keyPath, severity: 'error', message });
+    };
+
+    const service = asRecord(config.service)?.name ?? config.service;
+    if (typeof service !== 'string' || !service.trim()) {
+      error(['service'], 'service is required and must be a name');
+    }
+
+    const provider = asRecord(config.provider);
+    if (!provider) {
+      error(['provider'], 'provider is required');
+    } else if (typeof provider.name !== 'string') {
+      error(['provider', 'name'], 'provider.name is required');
+    } else if (!KNOWN_PROVIDERS.has(provider.name) && !isVariable(provider.name)) {
+      error(['provider', 'name'], `Unknown provider '${provider.name}'`);
+    }
+
+    const functions = config.functions;
+    if (functions !== undefined && (typeof functions !== 'object' || functions === null || Array.isArray(functions))) {
+      error(['functions'], 'functions must map function names to their settings');
+    } else {
+      for (const [name, fn] of Object.entries(asRecord(functions) || {})) {
+        const runtime = asRecord(fn)?.runtime || provider?.runtime;
+        this.validateFunction(name, fn, typeof runtime === 'string' ? runtime : undefined, problems);
+      }
+    }
+
+    if (problems.length === 0) {
+      return [];
+    }
+
+    const locate = await createLocator(file);
+    return problems.map(problem => ({
+      file,
+      ...locate(problem.path),
+      path: formatPath(problem.path),
+      severity: problem.severity,
+      message: problem.message
+    }));
+  }
+
+  /**
+   * Turn a load or parse failure into a diagnostic
+   */
+  fromError(file: string, error: unknown): ServerlessDiagnostic {
+    const err = asRecord(error);
+    const mark = asRecord(err?.mark);
+    let location: SourceLocation | undefined;
+
+    if (mark && typeof mark.line === 'number' && typeof mark.column === 'number') {
+      // YAML errors carry a 0-based mark
+      location = { line: mark.line + 1, column: mark.column + 1 };
+    } else if (error instanceof SyntaxError) {
+      const lineColumn = /line (\d+) column (\d+)/.exec(error.message);
+      const position = /position (\d+)/.exec(error.message);
+      if (lineColumn) {
+        location = { line: Number(lineColumn[1]), column: Number(lineColumn[2]) };
+      } else if (position) {
+        location = toLocation(readSource(file) || '', Number(position[1]));
+      }
+    }
+
+    const message = err?.reason || (error instanceof Error ? error.message : String(error));
+    return { file, ...location, severity: 'error', message: `Failed to load config: ${message}` };
+  }
+
+  /**
+   * Validate a function's handler and events
+   */
+  private validateFunction(
+    name: string,
+    value: unknown,
+    runtime: string | undefined,
+    problems: ValidationProblem[]
+  ): void {
+    const at = ['functions', name];
+    const fn = asRecord(value);
+
+    if (!fn) {
+      problems.push({ path: at, severity: 'error', message: `Function '${name}' must be an object` });
+      return;
+    }
+
+    if (fn.image === undefined) {
+      if (typeof fn.handler !== 'string' || !fn.handler) {
+        problems.push({ path: [...at, 'handler'], severity: 'error', message: `Function '${name}' needs a handler` });
+      } else if (
+        (!runtime || /^(nodejs|python)/.test(runtime)) &&
+        !isVariable(fn.handler) &&
+        !HANDLER_PATTERN.test(fn.handler)
+      ) {
+        problems.push({
+          path: [...at, 'handler'],
+          severity: 'error',
+          message: `Handler '${fn.handler}' of '${name}' must be '<file path>.<exported function>'`
+        });
+      }
+    }
+
+    if (fn.events === undefined) {
+      return;
+    }
+
+    if (!Array.isArray(fn.events)) {
+      problems.push({ path: [...at, 'events'], severity: 'error', message: `Events of '${name}' must be a list` });
+      return;
+    }
+
+    fn.events.forEach((value: unknown, index: number) => {
+      const eventPath = [...at, 'events', index];
+      const event = asRecord(value);
+      const keys = event ? Object.keys(event) : [];
+
+      if (keys.length !== 1) {
+        problems.push({ path: eventPath, severity: 'error', message: 'Each event must have exactly one type' });
+        return;
+      }
+
+      const type = keys[0]!;
+      if (!KNOWN_EVENTS.has(type)) {
+        problems.push({ path: [...eventPath, type], severity: 'warning', message: `Unknown event type '${type}'` });
+        return;
+      }
+
+      const message = validateEventShape(type, event![type]);
+      if (message) {
+        problems.push({ path: [...eventPath, type], severity: 'error', message });
+      }
+    });
+  }
+}
+
+/**
+ * Check the shape of the events detection reads; returns a problem or null
+ */
+function validateEventShape(type: string, value: unknown): string | null {
+  const object = asRecord(value);
+
+  switch (type) {
+    case 'http':
+    case 'httpApi':
+      if (typeof value === 'string') {
+        return value === '*' || HTTP_EVENT_PATTERN.test(value.trim()) || isVariable(value)
+          ? null
+          : `${type} event '${value}' must be '<METHOD> <path>'`;
+      }
+      if (!object) {
+        return `${type} event must be '<METHOD> <path>' or an object`;
+      }
+      return type === 'http' && (!object.path || !object.method)
+        ? 'http event needs a path and a method'
+        : null;
+    case 'sqs':
+    case 'stream':
+      return typeof value === 'string' || object?.arn !== undefined
+        ? null
+        : `${type} event needs an arn`;
+    case 's3':
+      return typeof value === 'string' || object?.bucket !== undefined
+        ? null
+        : 's3 event needs a bucket';
+    case 'schedule':
+      return typeof value === 'string' || object?.rate !== undefined
+        ? null
+        : 'schedule event needs a rate';
+    default:
+      return null;
+  }
+}
+
+function isVariable(value: string): boolean {
+  return value.includes('${');
+}
+
+/**
+ * Narrow a parsed value to a mapping, or undefined for scalars, lists and null
+ */
+function asRecord(value: unknown): Record<string, unknown> | undefined {
+  return value !== null && typeof value === 'object' && !Array.isArray(value)
+    ? value as Record<string, unknown>
+    : undefined;
+}
+
+/**
+ * Format a key path like `functions.hello.events[0].http`
+ */
+export function formatPath(keyPath: KeyPath): string {
+  return keyPath.reduce<string>((result, key) =>
+    typeof key === 'number' ? `${result}[${key}]` : result ? `${result}.${key}` : key, '');
+}
+
+/**
+ * Create a function that finds key paths in a YAML or JSON config
+ *
+ * Given the text of a value, points at that text when it's written under the
+ * key rather than at the key itself.
+ */
+export async function createLocator(
+  file: string
+): Promise<(keyPath: KeyPath, text?: string) => Partial<SourceLocation>> {
+  const extension = path.extname(file);
+  let content: string | null = null;
+
+  if (['.yml', '.yaml', '.json'].includes(extension)) {
+    try {
+      const read = await fs.promises.readFile(file, 'utf-8');
+      content = typeof read === 'string' ? read : null;
+    } catch {
+      content = null;
+    }
+  }
+
+  // Parsed on first use; JSON is read as YAML, which it's a subset of
+  let source: ParsedSource | null = null;
+
+  return (keyPath: KeyPath, text?: string) => {
+    if (content === null) {
+      return {};
+    }
+
+    source = source || parseSource(content);
+    const found = findPath(source, keyPath);
+    return (found && text ? locateText(content, found, text) : found) || {};
+  };
+}
+
+/**
+ * Find text written on a key's line or the lines nested under it
+ */
+function locateText(content: string, key: SourceLocation, text: string): SourceLocation {
+  const lines = content.split(/\r?\n/);
+
+  for (let i = key.line - 1; i < lines.length; i++) {
+    const line = lines[i]!;
+    if (i >= key.line && line.trim() !== '' && line.length - line.trimStart().length < key.column) {
+      break;
+    }
+
+    const column = line.indexOf(text, i === key.line - 1 ? key.column - 1 : 0);
+    if (column !== -1) {
+      return { line: i + 1, column: column + 1 };
+    }
+  }
+
+  return key;
+}
+
+function readSource(file: string): string | null {
+  try {
+    return fs.readFileSync(file, 'utf-8');
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Find where a key path is written in a YAML or JSON config
+ *
+ * Returns the deepest location found, so a path the source can't be followed
+ * into points at the key that holds it.
+ */
+export function locatePath(content: string, keyPath: KeyPath): SourceLocation | undefined {
+  return findPath(parseSource(content), keyPath);
+}
+
+function parseSource(content: string): ParsedSource {
+  const lineCounter = new LineCounter();
+  return { document: parseDocument(content, { lineCounter }), lineCounter };
+}
+
+/**
+ * Follow a key path through parsed nodes, resolving aliases and merge keys
+ *
+ * Keys point at their name and list items at their value.
+ */
+function findPath({ document, lineCounter }: ParsedSource, keyPath: KeyPath): SourceLocation | undefined {
+  const locate = (node: { range?: [number, number, number] | null }): SourceLocation | undefined => {
+    if (!node.range) {
+      return undefined;
+    }
+    const { line, col } = lineCounter.linePos(node.range[0]);
+    return { line, column: col };
+  };
+  const resolve = (node: unknown): unknown => (isAlias(node) ? node.resolve(document) : node);
+  const findPair = (map: unknown, key: string): Pair<unknown, unknown> | undefined => {
+    if (!isMap(map)) {
+      return undefined;
+    }
+    const pairs = map.items.filter(p => isScalar(p.key));
+    const pair = pairs.find(p => String((p.key as Scalar).value) === key);
+    if (pair) {
+      return pair;
+    }
+
+    // `<<: *base` and `<<: [*a, *b]` merge the keys of other maps
+    for (const merge of pairs.filter(p => (p.key as Scalar).value === '<<')) {
+      const value = resolve(merge.value);
+      for (const source of isSeq(value) ? value.items : [value]) {
+        const merged = findPair(resolve(source), key);
+        if (merged) {
+          return merged;
+        }
+      }
+    }
+    return undefined;
+  };
+
+  let node: unknown = document.contents;
+  let found: SourceLocation | undefined;
+
+  for (const key of keyPath) {
+    node = resolve(node);
+
+    if (typeof key === 'number') {
+      const item = isSeq(node) ? node.items[key] : undefined;
+      if (!isNode(item)) {
+        return found;
+      }
+      found = locate(item) || found;
+      node = item;
+    } else {
+      const pair = findPair(node, key);
+      if (!pair || !isNode(pair.key)) {
+        return found;
+      }
+      found = locate(pair.key) || found;
+      node = pair.value;
+    }
+  }
+
+  return found;
+}
+
+function toLocation(content: string, offset: number): SourceLocation {
+  const before = content.slice(0, offset).split('\n');
+  return { line: before.length, column: before[before.length - 1]!.length + 1 };
+}
@@ -0,0 +1,252 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { CdkStack, ServerlessDependency, ServerlessGraphNode, ServerlessService } from './types';
+
+const STACK_ARTIFACT = 'aws:cloudformation:stack';
+const NESTED_ASSEMBLY_ARTIFACT = 'cdk:cloud-assembly';
+
+/**
+ * Dependency graph of Serverless services and CDK stacks
+ *
+ * Services depend on the stacks they read outputs and parameters from, and on
+ * the services they depend on in serverless-compose. CDK stacks depend on each
+ * other as recorded in the cloud assembly. Stacks that are neither become
+ * external nodes, which have no dependencies of their own.
+ */
+export class ServerlessDependencyGraph {
+  private readonly nodes = new Map<string, ServerlessGraphNode>();
+  // Node IDs by CloudFormation stack name and by the names references use
+  private readonly stackIds: Map<string, string>;
+
+  /**
+   * @param stage Stage used to name service stacks (`<service>-<stage>`)
+   */
+  constructor(services: ServerlessService[], cdkStacks: CdkStack[] = [], stage = 'dev') {
+    for (const stack of cdkStacks) {
+      this.nodes.set(`cdk:${stack.id}`, {
+        id: `cdk:${stack.id}`,
+        kind: 'cdk',
+        name: stack.id,
+        stackName: stack.stackName,
+        dependsOn: stack.dependencies.map(d => `cdk:${d}`)
+      });
+    }
+
+    for (const service of services) {
+      this.nodes.set(`serverless:${service.name}`, {
+        id: `serverless:${service.name}`,
+        kind: 'serverless',
+        name: service.name,
+        stackName: `${service.name}-${stage}`,
+        dependsOn: []
+      });
+    }
+
+    this.stackIds = this.indexStackNames();
+
+    for (const service of services) {
+      const node = this.nodes.get(`serverless:${service.name}`)!;
+      const records = service.dependencyRecords || service.dependencies.map(
+        (stack): ServerlessDependency => ({ kind: 'cloudformation', stack, sourceFile: service.configFile })
+      );
+
+      // References that name no stack, like params and S3 objects, don't order deploys
+      for (const record of records.filter(r => r.stack)) {
+        const target = this.resolveTarget(record);
+
+        if (target !== node.id && !node.dependsOn.includes(target)) {
+          node.dependsOn.push(target);
+        }
+      }
+    }
+  }
+
+  /**
+   * Get every node, CDK stacks first
+   */
+  getNodes(): ServerlessGraphNode[] {
+    return Array.from(this.nodes.values());
+  }
+
+  getNode(id: string): ServerlessGraphNode | undefined {
+    return this.nodes.get(id);
+  }
+
+  /**
+   * Get the nodes a node depends on directly
+   */
+  getDependencies(id: string): ServerlessGraphNode[] {
+    return (this.nodes.get(id)?.dependsOn || []).map(d => this.nodes.get(d)!);
+  }
+
+  /**
+   * Get the nodes that depend on a node directly
+   */
+  getDependents(id: string): ServerlessGraphNode[] {
+    return this.getNodes().filter(n => n.dependsOn.includes(id));
+  }
+
+  /**
+   * Find dependency cycles, each as a path that ends where it starts
+   */
+  findCycles(): string[][] {
+    const cycles: string[][] = [];
+    const done = new Set<string>();
+    const visiting: string[] = [];
+
+    const visit = (id: string): void => {
+      if (done.has(id)) {
+        return;
+      }
+
+      if (visiting.includes(id)) {
+        cycles.push([...visiting.slice(visiting.indexOf(id)), id]);
+        return;
+      }
+
+      visiting.push(id);
+      this.nodes.get(id)?.dependsOn.forEach(visit);
+      visiting.pop();
+      done.add(id);
+    };
+
+    this.nodes.forEach((_, id) => visit(id));
+    return cycles;
+  }
+
+  /**
+   * Get the ID of the node a reference's stack belongs to
+   */
+  getReferenceTarget(dependency: ServerlessDependency): string | undefined {
+    if (!dependency.stack) {
+      return undefined;
+    }
+
+    if (dependency.kind === 'compose' && this.nodes.has(`serverless:${dependency.stack}`)) {
+      return `serverless:${dependency.stack}`;
+    }
+
+    const id = this.stackIds.get(dependency.stack) || `external:${dependency.stack}`;
+    return this.nodes.has(id) ? id : undefined;
+  }
+
+  /**
+   * Order nodes so each one comes after the nodes it depends on
+   */
+  getDeployOrder(): string[] {
+    const cycles = this.findCycles();
+    if (cycles.length > 0) {
+      throw new Error(`Circular dependencies between stacks:\n  - ${cycles.map(c => c.join(' -> ')).join('\n  - ')}`);
+    }
+
+    const order: string[] = [];
+    const visit = (id: string): void => {
+      if (order.includes(id)) {
+        return;
+      }
+
+      this.nodes.get(id)?.dependsOn.forEach(visit);
+      order.push(id);
+    };
+
+    this.nodes.forEach((_, id) => visit(id));
+    return order;
+  }
+
+  /**
+   * Order nodes so each one comes before the nodes it depends on
+   */
+  getRemovalOrder(): string[] {
+    return this.getDeployOrder().reverse();
+  }
+
+  /**
+   * Map CloudFormation stack names and names used in references to node IDs
+   */
+  private indexStackNames(): Map<string, string> {
+    const ids = new Map<string, string>();
+
+    for (const node of this.nodes.values()) {
+      ids.set(node.name, node.id);
+      if (node.stackName) {
+        ids.set(node.stackName, node.id);
+      }
+    }
+
+    return ids;
+  }
+
+  /**
+   * Find the node a referenced stack belongs to, adding an external node when there is none
+   */
+  private resolveTarget(dependency: ServerlessDependency): string {
+    const known = this.getReferenceTarget(dependency);
+    if (known) {
+      return known;
+    }
+
+    const id = `external:${dependency.stack}`;
+    this.nodes.set(id, { id, kind: 'external', name: dependency.stack!, stackName: dependency.stack, dependsOn: [] });
+    return id;
+  }
+}
+
+/**
+ * The parts of a cloud assembly manifest artifact that describe stacks
+ */
+interface CdkManifestArtifact {
+  type?: string;
+  dependencies?: string[];
+  properties?: { stackName?: string; templateFile?: string; directoryName?: string };
+}
+
+/**
+ * Find the cloud assembly directory of a CDK app, honouring `output` in cdk.json
+ */
+export async function findCdkOutDir(cdkRoot: string): Promise<string> {
+  const cdkJson = await readJson<{ output?: unknown }>(path.join(cdkRoot, 'cdk.json'));
+  return path.resolve(cdkRoot, typeof cdkJson?.output === 'string' ? cdkJson.output : 'cdk.out');
+}
+
+/**
+ * Read the stacks of a synthesized CDK app, including those in nested stage assemblies
+ *
+ * Returns no stacks when the app hasn't been synthesized.
+ */
+export async function readCdkStacks(cdkOut: string): Promise<CdkStack[]> {
+  const manifest = await readJson<{ artifacts?: Record<string, CdkManifestArtifact> }>(path.join(cdkOut, 'manifest.json'));
+  const artifacts = manifest?.artifacts || {};
+  const stackIds = new Set(Object.keys(artifacts).filter(id => artifacts[id]?.type === STACK_ARTIFACT));
+  const stacks: CdkStack[] = [];
+
+  for (const [id, artifact] of Object.entries(artifacts)) {
+    if (stackIds.has(id)) {
+      stacks.push({
+        id,
+        stackName: artifact.properties?.stackName || id,
+        // Stacks also depend on their asset manifests, which aren't deployed on their own
+        dependencies: (artifact.dependencies || []).filter(d => stackIds.has(d)),
+        templateFile: artifact.properties?.templateFile
+          ? path.join(cdkOut, artifact.properties.templateFile)
+          : undefined
+      });
+    } else if (artifact?.type === NESTED_ASSEMBLY_ARTIFACT && artifact.properties?.directoryName) {
+      stacks.push(...await readCdkStacks(path.join(cdkOut, artifact.properties.directoryName)));
+    }
+  }
+
+  return stacks;
+}
+
+/**
+ * Read a JSON file, or null when it's missing or invalid
+ *
+ * The shape isn't checked; callers read the fields they need defensively.
+ */
+async function readJson<T>(file: string): Promise<T | null> {
+  try {
+    return JSON.parse(await fs.promises.readFile(file, 'utf-8'));
+  } catch {
+    return null;
+  }
+}
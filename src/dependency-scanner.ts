@@ -1,75 +1,165 @@
-import * as fs from 'fs';
 import * as path from 'path';
-import * as yaml from 'js-yaml';
 import { EventBus, EventTypes } from '@orcdkestrator/core';
+import { ServerlessConfigLoader } from './config-loader';
+import { ServerlessVariableResolver, VariableContext, getSourceRegion } from './variable-resolver';
+import { CdkOutputIndex } from './cdk-output-index';
+import { KeyPath, createLocator, formatPath } from './config-validator';
+import { ServerlessDependency } from './types';
+
+// References to values CDK stacks can write
+const CDK_REFERENCE_KINDS = new Set<ServerlessDependency['kind']>(['ssm', 'cloudformation', 'import']);
 
 /**
  * Scans Serverless configurations for stack dependencies
  */
 export class ServerlessDependencyScanner {
   private readonly eventBus: EventBus;
+  private readonly configLoader: ServerlessConfigLoader;
 
-  constructor() {
+  constructor(configLoader: ServerlessConfigLoader = new ServerlessConfigLoader()) {
     this.eventBus = EventBus.getInstance();
+    this.configLoader = configLoader;
+  }
+
+  /**
+   * Scan the stacks a serverless config file depends on
+   *
+   * With a variable context (stage, region and CLI options), local variables
+   * are resolved first so the names are the stacks deployed for that stage
+   * instead of guessed from the raw references. The records from
+   * scanDependencyRecords carry the stage-agnostic name as well.
+   */
+  async scanDependencies(configPath: string, projectRoot?: string, variables?: VariableContext): Promise<string[]> {
+    const records = await this.scanDependencyRecords(configPath, projectRoot, variables);
+    return getDependencyStacks(records);
   }
 
   /**
-   * Scan dependencies from a serverless config file
+   * Scan a serverless config file for typed dependency records
    */
-  async scanDependencies(configPath: string, projectRoot?: string): Promise<string[]> {
+  async scanDependencyRecords(
+    configPath: string,
+    projectRoot?: string,
+    variables?: VariableContext
+  ): Promise<ServerlessDependency[]> {
     try {
       // Validate path is within project boundaries
       if (!this.isPathSafe(configPath, projectRoot)) {
         throw new Error(`Invalid path: ${configPath} is outside project boundaries`);
       }
       
-      const content = await this.loadConfig(configPath);
-      const dependencies = new Set<string>();
-      
-      // Scan SSM references
-      const ssmDeps = await this.scanSSMReferences(content, configPath);
-      ssmDeps.forEach(d => dependencies.add(d));
-      
-      // Scan CloudFormation imports
-      const cfDeps = await this.scanCFImports(content, configPath);
-      cfDeps.forEach(d => dependencies.add(d));
+      const raw = await this.loadConfig(configPath);
+      if (!variables) {
+        return await this.scanConfig(raw, configPath);
+      }
       
-      return Array.from(dependencies);
+      const { config, stage } = new ServerlessVariableResolver({
+        ...variables,
+        servicePath: path.dirname(configPath)
+      }).resolve(raw);
+      return await this.scanConfig(config, configPath, stage);
     } catch (error) {
       return [];
     }
   }
 
   /**
-   * Load and parse serverless config
+   * Scan an already loaded config for references to other stacks, parameters and buckets
+   *
+   * Each reference is located in the source file by the key path of the value
+   * holding it. Values resolved from variables keep their key path, so they
+   * point at the key even when the reference text changed.
+   *
+   * @param stage Stage the config was resolved for, used to derive stage-agnostic stack names
+   * @param options.emit Emit a detection event per reference (default true); off when rescanning for a deploy
    */
-  private async loadConfig(configPath: string): Promise<Record<string, unknown>> {
-    // Check file size to prevent DoS attacks
-    const stats = await fs.promises.stat(configPath);
-    const maxFileSizeMB = 10;
-    const maxFileSize = maxFileSizeMB * 1024 * 1024; // 10MB limit
+  async scanConfig(
+    content: Record<string, unknown>,
+    sourceFile: string,
+    stage?: string,
+    options: { emit?: boolean } = {}
+  ): Promise<ServerlessDependency[]> {
+    const records = new Map<string, ServerlessDependency>();
+    const strings = collectStrings(content);
+    const locate = await createLocator(sourceFile);
+    const withLocation = (record: ServerlessDependency, keyPath: KeyPath): ServerlessDependency =>
+      Object.assign(record, locate(keyPath, record.expression), { path: formatPath(keyPath) });
+    const scanStrings = (scan: (text: string) => ServerlessDependency[]): ServerlessDependency[] =>
+      strings.flatMap(({ keyPath, value }) => scan(value).map(r => withLocation(r, keyPath)));
     
-    if (stats.size > maxFileSize) {
-      throw new Error(`File ${configPath} exceeds maximum size limit of ${maxFileSizeMB}MB`);
+    for (const record of [
+      ...scanStrings(text => this.scanSSMReferences(text, sourceFile)),
+      ...scanStrings(text => this.scanCFImports(text, sourceFile)),
+      ...this.scanImportValues(content, sourceFile).map(({ record, keyPath }) => withLocation(record, keyPath)),
+      ...scanStrings(text => this.scanOtherReferences(text, sourceFile))
+    ]) {
+      const key = [
+        record.kind, record.stack, record.output, record.parameter, record.exportName, record.bucket, record.key, record.region
+      ].join('|');
+      if (record.stack) {
+        record.logicalStack = getLogicalStackName(record.stack, stage);
+      }
+      if (!records.has(key)) {
+        records.set(key, record);
+        if (options.emit !== false) {
+          this.emitDependencyEvent(record);
+        }
+      }
     }
     
-    const content = await fs.promises.readFile(configPath, 'utf-8');
-    return yaml.load(content) as Record<string, unknown>;
+    return Array.from(records.values());
+  }
+
+  /**
+   * Point SSM, CloudFormation and import references at the CDK stacks that produce them
+   *
+   * Replaces stack names guessed from SSM paths with the exact stack. Returns
+   * the references no stack in the index produces; SSM references among them
+   * lose their guessed stack, so they don't add stacks the app doesn't have.
+   */
+  resolveCdkSources(records: ServerlessDependency[], index: CdkOutputIndex, stage?: string): ServerlessDependency[] {
+    const orphans: ServerlessDependency[] = [];
+    
+    for (const record of records.filter(r => CDK_REFERENCE_KINDS.has(r.kind))) {
+      const source = index.resolve(record);
+      
+      if (source) {
+        record.cdk = source;
+        record.stack = source.stackName;
+        record.logicalStack = getLogicalStackName(source.stackName, stage);
+      } else {
+        if (record.kind === 'ssm') {
+          record.stack = undefined;
+          record.logicalStack = undefined;
+        }
+        orphans.push(record);
+      }
+    }
+    
+    return orphans;
+  }
+
+  /**
+   * Load and parse serverless config in any supported format
+   */
+  private async loadConfig(configPath: string): Promise<Record<string, unknown>> {
+    return this.configLoader.load(configPath);
   }
 
   /**
    * Scan for SSM parameter references
    */
-  private async scanSSMReferences(content: Record<string, unknown>, filePath: string): Promise<string[]> {
-    const dependencies = new Set<string>();
-    const yamlString = yaml.dump(content);
+  private scanSSMReferences(text: string, filePath: string): ServerlessDependency[] {
+    const dependencies: ServerlessDependency[] = [];
     
     /**
      * SSM Parameter Reference Pattern
-     * Matches: ${ssm:parameterPath}
+     * Matches: ${ssm:parameterPath}, ${ssm.region:parameterPath} and ${ssm(region):parameterPath}
      * 
      * Pattern breakdown:
-     * \$\{ssm:      - Literal "${ssm:" prefix
+     * \$\{ssm       - Literal "${ssm" prefix
+     * (?:\.([a-z0-9-]+)|\(([^)]*)\))? - Optional region, or a param like raw
+     * :             - Literal ":"
      * (             - Start capture group for parameter path
      *   (?:         - Non-capturing group for alternation
      *     [^$}]     - Any character except '$' or '}'
@@ -84,23 +174,29 @@ export class ServerlessDependencyScanner {
      * - ${ssm:/${self:provider.stage}-api-gateway-stack/rest-api-id}
      * - ${ssm:/prod/${self:custom.serviceName}/database-url}
      */
-    const ssmPattern = /\$\{ssm:((?:[^$}]|\$\{[^}]+\})+)\}/g;
+    const ssmPattern = /\$\{ssm(?:\.([a-z0-9-]+)|\(([^)]*)\))?:((?:[^$}]|\$\{[^}]+\})+)\}/g;
     
     let match;
-    while ((match = ssmPattern.exec(yamlString)) !== null) {
-      const ssmPath = match[1];
+    while ((match = ssmPattern.exec(text)) !== null) {
+      const ssmPath = stripFallback(match[3] || '');
       
       if (ssmPath) {
         const stackName = this.extractStackFromSSMPath(ssmPath);
         
         if (stackName) {
-          dependencies.add(stackName);
-          this.emitDependencyEvent('ssm', filePath, stackName);
+          dependencies.push({
+            kind: 'ssm',
+            stack: stackName,
+            parameter: ssmPath,
+            region: getSourceRegion(match[1], match[2]),
+            expression: match[0],
+            sourceFile: filePath
+          });
         }
       }
     }
     
-    return Array.from(dependencies);
+    return dependencies;
   }
 
   /**
@@ -161,16 +257,17 @@ export class ServerlessDependencyScanner {
   /**
    * Scan for CloudFormation imports
    */
-  private async scanCFImports(content: Record<string, unknown>, filePath: string): Promise<string[]> {
-    const dependencies = new Set<string>();
-    const yamlString = yaml.dump(content);
+  private scanCFImports(text: string, filePath: string): ServerlessDependency[] {
+    const dependencies: ServerlessDependency[] = [];
     
     /**
      * CloudFormation Import Reference Pattern
-     * Matches: ${cf:stackName.outputName}
+     * Matches: ${cf:stackName.outputName}, ${cf.region:stackName.outputName} and ${cf(region):stackName.outputName}
      * 
      * Pattern breakdown:
-     * \$\{cf:       - Literal "${cf:" prefix
+     * \$\{cf        - Literal "${cf" prefix
+     * (?:\.([a-z0-9-]+)|\(([^)]*)\))? - Optional region
+     * :             - Literal ":"
      * (             - Start capture group for stack.output reference
      *   (?:         - Non-capturing group for alternation
      *     [^$}]     - Any character except '$' or '}'
@@ -185,11 +282,11 @@ export class ServerlessDependencyScanner {
      * - ${cf:${self:provider.stage}-api-stack.RestApiEndpoint}
      * - ${cf:prod-${self:service}-vpc.VpcId}
      */
-    const cfPattern = /\$\{cf:((?:[^$}]|\$\{[^}]+\})+)\}/g;
+    const cfPattern = /\$\{cf(?:\.([a-z0-9-]+)|\(([^)]*)\))?:((?:[^$}]|\$\{[^}]+\})+)\}/g;
     
     let match;
-    while ((match = cfPattern.exec(yamlString)) !== null) {
-      const cfRef = match[1];
+    while ((match = cfPattern.exec(text)) !== null) {
+      const cfRef = stripFallback(match[3] || '');
       
       if (!cfRef) continue;
       
@@ -200,22 +297,92 @@ export class ServerlessDependencyScanner {
         const outputName = cfRef.substring(lastDotIndex + 1);
         
         if (stackName && outputName) {
-          if (!stackName.includes('${')) {
-            dependencies.add(stackName);
-            this.emitCFDependencyEvent(filePath, stackName, outputName);
+          // Interpolated stack names are reduced to their base name
+          const target = stackName.includes('${') ? this.extractBaseStackName(stackName) : stackName;
+          if (target) {
+            dependencies.push({
+              kind: 'cloudformation',
+              stack: target,
+              output: outputName,
+              region: getSourceRegion(match[1], match[2]),
+              expression: match[0],
+              sourceFile: filePath
+            });
+          }
+        }
+      }
+    }
+    
+    return dependencies;
+  }
+
+  /**
+   * Scan for Fn::ImportValue (or !ImportValue) in CloudFormation resources and settings
+   *
+   * Exports aren't named after their stack, so these records have no stack.
+   * Each comes with the key path of the value that imports, since the short
+   * form has no `Fn::ImportValue` key to point at.
+   */
+  private scanImportValues(
+    content: unknown,
+    filePath: string
+  ): Array<{ record: ServerlessDependency; keyPath: KeyPath }> {
+    const dependencies: Array<{ record: ServerlessDependency; keyPath: KeyPath }> = [];
+    
+    const visit = (value: unknown, keyPath: KeyPath): void => {
+      if (Array.isArray(value)) {
+        value.forEach((item, i) => visit(item, [...keyPath, i]));
+      } else if (value && typeof value === 'object') {
+        for (const [key, child] of Object.entries(value)) {
+          if (key === 'Fn::ImportValue') {
+            // Names built with Fn::Sub or Fn::Join are kept as written
+            const exportName = typeof child === 'string' ? child : JSON.stringify(child);
+            dependencies.push({
+              record: {
+                kind: 'import',
+                exportName,
+                expression: JSON.stringify({ [key]: child }),
+                sourceFile: filePath
+              },
+              keyPath
+            });
           } else {
-            // Handle interpolated stack names
-            const baseName = this.extractBaseStackName(stackName);
-            if (baseName) {
-              dependencies.add(baseName);
-              this.emitCFDependencyEvent(filePath, baseName, outputName);
-            }
+            visit(child, [...keyPath, key]);
           }
         }
       }
+    };
+    
+    visit(content, []);
+    return dependencies;
+  }
+
+  /**
+   * Scan for S3 objects, params and AWS variables
+   *
+   * Matches: ${s3:bucket/key}, ${param:name} and ${aws:name}
+   */
+  private scanOtherReferences(text: string, filePath: string): ServerlessDependency[] {
+    const dependencies: ServerlessDependency[] = [];
+    const pattern = /\$\{(s3|param|aws)(?:\.([a-z0-9-]+)|\(([^)]*)\))?:((?:[^$}]|\$\{[^}]+\})+)\}/g;
+    
+    let match;
+    while ((match = pattern.exec(text)) !== null) {
+      const source = match[1];
+      const address = stripFallback(match[4] || '');
+      const base = { region: getSourceRegion(match[2], match[3]), expression: match[0], sourceFile: filePath };
+      
+      if (source === 's3') {
+        const slash = address.indexOf('/');
+        if (slash > 0 && slash < address.length - 1) {
+          dependencies.push({ kind: 's3', bucket: address.slice(0, slash), key: address.slice(slash + 1), ...base });
+        }
+      } else if (address) {
+        dependencies.push({ kind: source as 'param' | 'aws', parameter: address, ...base });
+      }
     }
     
-    return Array.from(dependencies);
+    return dependencies;
   }
 
   /**
@@ -266,31 +433,23 @@ export class ServerlessDependencyScanner {
   }
 
   /**
-   * Emit SSM dependency event
-   */
-  private emitDependencyEvent(type: string, source: string, target: string): void {
-    this.eventBus.emitEvent(
-      EventTypes['serverless:dependency:detected'],
-      {
-        type,
-        source,
-        target
-      },
-      'ServerlessDependencyScanner'
-    );
-  }
-
-  /**
-   * Emit CF dependency event
+   * Emit dependency detected event
    */
-  private emitCFDependencyEvent(source: string, target: string, outputName: string): void {
+  private emitDependencyEvent(dependency: ServerlessDependency): void {
     this.eventBus.emitEvent(
       EventTypes['serverless:dependency:detected'],
       {
-        type: 'cloudformation',
-        source,
-        target,
-        outputName
+        type: dependency.kind,
+        source: dependency.sourceFile,
+        target: getDependencyTarget(dependency),
+        logicalTarget: dependency.logicalStack,
+        parameterPath: dependency.parameter,
+        outputName: dependency.output,
+        region: dependency.region,
+        expression: dependency.expression,
+        line: dependency.line,
+        column: dependency.column,
+        path: dependency.path
       },
       'ServerlessDependencyScanner'
     );
@@ -310,4 +469,81 @@ export class ServerlessDependencyScanner {
       return false;
     }
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Get the stacks a service depends on from its dependency records
+ */
+export function getDependencyStacks(records: ServerlessDependency[]): string[] {
+  return Array.from(new Set(records.flatMap(r => r.stack ? [r.stack] : [])));
+}
+
+/**
+ * Describe what a reference points at: a stack, export, object, param or variable
+ */
+export function getDependencyTarget(dependency: ServerlessDependency): string {
+  if (dependency.stack) {
+    return dependency.stack;
+  }
+  if (dependency.kind === 's3') {
+    return `${dependency.bucket}/${dependency.key}`;
+  }
+  
+  return dependency.exportName || dependency.parameter || '';
+}
+
+/**
+ * Remove the stage from a stack name, e.g. `prod-api-stack` -> `api-stack` for prod
+ *
+ * Names without the stage as a `-` or `_` separated part are already stage-agnostic.
+ */
+export function getLogicalStackName(stack: string, stage?: string): string {
+  if (!stage || stack.includes('${')) {
+    return stack;
+  }
+  
+  const escaped = stage.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  const logical = stack
+    .replace(new RegExp(`(^|[-_])${escaped}(?=[-_]|$)`), '')
+    .replace(/^[-_]+|[-_]+$/g, '');
+  
+  return logical || stack;
+}
+
+/**
+ * Collect every string in a config with its key path, so references can be matched one value at a time
+ */
+function collectStrings(
+  value: unknown,
+  keyPath: KeyPath = [],
+  strings: Array<{ keyPath: KeyPath; value: string }> = []
+): Array<{ keyPath: KeyPath; value: string }> {
+  if (typeof value === 'string') {
+    strings.push({ keyPath, value });
+  } else if (Array.isArray(value)) {
+    value.forEach((item, i) => collectStrings(item, [...keyPath, i], strings));
+  } else if (value && typeof value === 'object') {
+    Object.entries(value).forEach(([key, item]) => collectStrings(item, [...keyPath, key], strings));
+  }
+  
+  return strings;
+}
+
+/**
+ * Drop a fallback from a variable address, e.g. `/vpc/id, 'vpc-123'` -> `/vpc/id`
+ */
+function stripFallback(address: string): string {
+  let depth = 0;
+  
+  for (let i = 0; i < address.length; i++) {
+    if (address.startsWith('${', i)) {
+      depth++;
+    } else if (address[i] === '}') {
+      depth--;
+    } else if (address[i] === ',' && depth === 0) {
+      return address.slice(0, i).trim();
+    }
+  }
+  
+  return address.trim();
+}
@@ -0,0 +1,38 @@
+import * as path from 'path';
+
+/**
+ * Find the functions whose handler lives in a changed file.
+ *
+ * Handlers are written as `<module path>.<export>` (e.g. `src/handlers/user.handler`),
+ * so a file matches when its path without extension equals the handler's module path.
+ * A file that matches no handler is treated as shared code and affects every function.
+ */
+export function findFunctionsForFile(handlers: Record<string, string>, relativeFile: string): string[] {
+  const changedModule = stripExtension(toPosix(relativeFile));
+
+  const matches = Object.entries(handlers)
+    .filter(([, handler]) => handlerModule(handler) === changedModule)
+    .map(([name]) => name);
+
+  return matches.length > 0 ? matches : Object.keys(handlers);
+}
+
+/**
+ * Get the module path of a handler, e.g. `./src/user.handler` -> `src/user`
+ */
+function handlerModule(handler: string): string {
+  const normalized = toPosix(handler).replace(/^\.\//, '');
+  const lastDot = normalized.lastIndexOf('.');
+  const lastSlash = normalized.lastIndexOf('/');
+
+  return lastDot > lastSlash ? normalized.substring(0, lastDot) : normalized;
+}
+
+function stripExtension(file: string): string {
+  const ext = path.posix.extname(file);
+  return ext ? file.substring(0, file.length - ext.length) : file;
+}
+
+function toPosix(file: string): string {
+  return file.split(path.sep).join('/');
+}
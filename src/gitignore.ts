@@ -0,0 +1,39 @@
+/**
+ * Convert .gitignore lines into glob ignore patterns.
+ *
+ * Patterns with a slash before the end are anchored to the project root; others
+ * match at any depth. A pattern can name a file or a directory, so both are
+ * ignored unless it ends with `/`. Negations (`!pattern`) can't be expressed as
+ * ignore globs and are skipped.
+ */
+export function gitignoreToGlobs(content: string): string[] {
+  const globs: string[] = [];
+
+  for (const rawLine of content.split(/\r?\n/)) {
+    const line = rawLine.replace(/(?<!\\)\s+$/, '');
+
+    if (!line || line.startsWith('#') || line.startsWith('!')) {
+      continue;
+    }
+
+    const directoryOnly = line.endsWith('/');
+    let pattern = line.replace(/\/+$/, '').replace(/^\\(?=[#!])/, '');
+
+    if (!pattern) {
+      continue;
+    }
+
+    const anchored = pattern.includes('/');
+    pattern = pattern.replace(/^\//, '');
+    if (!anchored && !pattern.startsWith('**/')) {
+      pattern = `**/${pattern}`;
+    }
+
+    globs.push(`${pattern}/**`);
+    if (!directoryOnly) {
+      globs.push(pattern);
+    }
+  }
+
+  return globs;
+}
@@ -0,0 +1,230 @@
+import { ServerlessDependencyGraph } from './dependency-graph';
+import {
+  ServerlessDependency,
+  ServerlessGraphExport,
+  ServerlessGraphExportEdge,
+  ServerlessGraphExportNode,
+  ServerlessGraphFormat,
+  ServerlessGraphNode,
+  ServerlessService
+} from './types';
+
+type ExportNodeKind = ServerlessGraphExportNode['kind'];
+
+const NODE_KINDS: Record<ServerlessGraphNode['kind'], ExportNodeKind> = {
+  serverless: 'service',
+  cdk: 'cdk-stack',
+  external: 'stack'
+};
+
+const DOT_SHAPES: Record<ExportNodeKind, string> = {
+  service: 'shape=box',
+  'cdk-stack': 'shape=box3d',
+  stack: 'shape=box, style=dashed',
+  'ssm-parameter': 'shape=note',
+  export: 'shape=cds'
+};
+
+const MERMAID_SHAPES: Record<ExportNodeKind, [string, string]> = {
+  service: ['[', ']'],
+  'cdk-stack': ['[[', ']]'],
+  stack: ['(', ')'],
+  'ssm-parameter': ['[/', '/]'],
+  export: ['{{', '}}']
+};
+
+/**
+ * Options for exporting the dependency graph
+ */
+export interface ServerlessGraphExportOptions {
+  // Keep only this service, what it depends on and what depends on it
+  service?: string;
+}
+
+/**
+ * Exports the dependencies of services as diagrams
+ *
+ * Builds on the dependency graph, adding the SSM parameters and exports
+ * services read as nodes between them and the stacks that write them. Edges
+ * point from the node that reads to the node it reads from. References that
+ * aren't to infrastructure, like params and S3 objects, are left out.
+ */
+export class ServerlessGraphExporter {
+  private readonly services: ServerlessService[];
+  private readonly graph: ServerlessDependencyGraph;
+
+  constructor(services: ServerlessService[], graph: ServerlessDependencyGraph = new ServerlessDependencyGraph(services)) {
+    this.services = services;
+    this.graph = graph;
+  }
+
+  /**
+   * Build the typed nodes and labelled edges of the diagram
+   */
+  build(options: ServerlessGraphExportOptions = {}): ServerlessGraphExport {
+    const nodes = new Map<string, ServerlessGraphExportNode>();
+    const edges: ServerlessGraphExportEdge[] = [];
+    const addEdge = (edge: ServerlessGraphExportEdge): void => {
+      if (edge.from !== edge.to && !edges.some(e => e.from === edge.from && e.to === edge.to && e.label === edge.label)) {
+        edges.push(edge);
+      }
+    };
+
+    for (const node of this.graph.getNodes()) {
+      nodes.set(node.id, { id: node.id, kind: NODE_KINDS[node.kind], label: node.name });
+      if (node.kind === 'cdk') {
+        node.dependsOn.forEach(to => addEdge({ from: node.id, to, kind: 'depends-on', label: 'depends-on' }));
+      }
+    }
+
+    for (const service of this.services) {
+      const from = `serverless:${service.name}`;
+      const records = service.dependencyRecords || service.dependencies.map(
+        (stack): ServerlessDependency => ({ kind: 'cloudformation', stack, sourceFile: service.configFile })
+      );
+
+      for (const record of records) {
+        this.addReference(from, record, nodes, addEdge);
+      }
+    }
+
+    const graph = { nodes: Array.from(nodes.values()), edges };
+    return options.service ? getSubgraph(graph, `serverless:${options.service}`) : graph;
+  }
+
+  /**
+   * Render the diagram in a format
+   */
+  render(format: ServerlessGraphFormat, options: ServerlessGraphExportOptions = {}): string {
+    switch (format) {
+      case 'dot':
+        return this.toDot(options);
+      case 'mermaid':
+        return this.toMermaid(options);
+      case 'json':
+        return this.toJson(options);
+      default:
+        throw new Error(`Unknown graph format '${format}', expected dot, mermaid or json`);
+    }
+  }
+
+  /**
+   * Render a Graphviz digraph
+   */
+  toDot(options: ServerlessGraphExportOptions = {}): string {
+    const { nodes, edges } = this.build(options);
+
+    return [
+      'digraph dependencies {',
+      '  rankdir=LR;',
+      ...nodes.map(n => `  ${quoteDot(n.id)} [label=${quoteDot(n.label)}, ${DOT_SHAPES[n.kind]}];`),
+      ...edges.map(e =>
+        `  ${quoteDot(e.from)} -> ${quoteDot(e.to)} [label=${quoteDot(e.label)}${e.kind === 'written-by' ? ', style=dashed' : ''}];`
+      ),
+      '}'
+    ].join('\n');
+  }
+
+  /**
+   * Render a Mermaid flowchart, which GitHub renders in Markdown
+   */
+  toMermaid(options: ServerlessGraphExportOptions = {}): string {
+    const { nodes, edges } = this.build(options);
+    // Mermaid IDs can't contain the colons and slashes of node IDs
+    const ids = new Map(nodes.map((n, i) => [n.id, `n${i}`]));
+
+    return [
+      'flowchart LR',
+      ...nodes.map(n => {
+        const [open, close] = MERMAID_SHAPES[n.kind];
+        return `  ${ids.get(n.id)}${open}${quoteMermaid(n.label)}${close}`;
+      }),
+      ...edges.map(e =>
+        `  ${ids.get(e.from)} ${e.kind === 'written-by' ? '-.->' : '-->'}|${quoteMermaid(e.label)}| ${ids.get(e.to)}`
+      )
+    ].join('\n');
+  }
+
+  toJson(options: ServerlessGraphExportOptions = {}): string {
+    return JSON.stringify(this.build(options), null, 2);
+  }
+
+  /**
+   * Add the edge for one reference, through a parameter or export node when it reads one
+   */
+  private addReference(
+    from: string,
+    record: ServerlessDependency,
+    nodes: Map<string, ServerlessGraphExportNode>,
+    addEdge: (edge: ServerlessGraphExportEdge) => void
+  ): void {
+    const target = record.cdk ? `cdk:${record.cdk.stackId}` : this.graph.getReferenceTarget(record);
+
+    switch (record.kind) {
+      case 'ssm':
+      case 'import': {
+        const name = record.kind === 'ssm' ? record.parameter : record.exportName;
+        if (!name) {
+          return;
+        }
+
+        const id = `${record.kind === 'ssm' ? 'ssm' : 'export'}:${name}`;
+        nodes.set(id, { id, kind: record.kind === 'ssm' ? 'ssm-parameter' : 'export', label: name });
+        addEdge({ from, to: id, kind: record.kind, label: record.kind });
+        if (target && nodes.has(target)) {
+          addEdge({ from: id, to: target, kind: 'written-by', label: 'written-by' });
+        }
+        return;
+      }
+      case 'cloudformation':
+      case 'compose':
+        if (target) {
+          addEdge({ from, to: target, kind: record.kind, label: record.output ? `${record.kind}: ${record.output}` : record.kind });
+        }
+        return;
+      default:
+        return;
+    }
+  }
+}
+
+/**
+ * Keep a node, the nodes it reaches and the nodes that reach it
+ */
+function getSubgraph(graph: ServerlessGraphExport, root: string): ServerlessGraphExport {
+  if (!graph.nodes.some(n => n.id === root)) {
+    throw new Error(`Service '${root.replace(/^serverless:/, '')}' is not in the dependency graph`);
+  }
+
+  const reach = (forward: boolean): Set<string> => {
+    const reached = new Set([root]);
+    const queue = [root];
+
+    while (queue.length > 0) {
+      const id = queue.shift()!;
+      for (const edge of graph.edges) {
+        const [near, far] = forward ? [edge.from, edge.to] : [edge.to, edge.from];
+        if (near === id && !reached.has(far)) {
+          reached.add(far);
+          queue.push(far);
+        }
+      }
+    }
+
+    return reached;
+  };
+
+  const kept = new Set([...reach(true), ...reach(false)]);
+  return {
+    nodes: graph.nodes.filter(n => kept.has(n.id)),
+    edges: graph.edges.filter(e => kept.has(e.from) && kept.has(e.to))
+  };
+}
+
+function quoteDot(value: string): string {
+  return `"${value.replace(/["\\]/g, '\\$&')}"`;
+}
+
+function quoteMermaid(value: string): string {
+  return `"${value.replace(/"/g, '#quot;')}"`;
+}
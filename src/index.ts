@@ -3,11 +3,50 @@ import { Plugin, PluginConfig, OrcdkConfig, EventBus, EventTypes } from '@orcdke
 import * as fs from 'fs';
 import * as path from 'path';
 import { ServerlessPatternDetector } from './pattern-detector';
-import { ServerlessDependencyScanner } from './dependency-scanner';
+import { ServerlessDependencyScanner, getDependencyStacks } from './dependency-scanner';
 import { ServerlessCLI } from './cli';
 import { ServerlessHotReload } from './hot-reload';
 import { StackInspector } from './stack-inspector';
-import { ServerlessConfig, ServerlessService, ServerlessDeploymentOptions } from './types';
+import { ServiceInfoReader } from './service-info';
+import { ServerlessArtifactStore } from './artifact-store';
+import { ServerlessLogStreamer, LogStream } from './log-streamer';
+import { ServerlessInvoker } from './invoker';
+import { DeployProgressTracker } from './progress-parser';
+import { RetryAttempt, RetryPolicy } from './retry-policy';
+import { ServerlessConfigLoader } from './config-loader';
+import { ServerlessVariableResolver, VariableContext, VariableResolution } from './variable-resolver';
+import { ServerlessCommandOptions } from './cli';
+import { formatVersion } from './version';
+import { findFunctionsForFile } from './function-matcher';
+import { mergeCliOptions } from './cli-options';
+import { ServerlessInventoryQuery } from './inventory';
+import { ServerlessComposeReader } from './compose';
+import { ServerlessScanCache } from './scan-cache';
+import { ServerlessPluginVerifier } from './plugin-verifier';
+import { ServerlessDependencyGraph, findCdkOutDir, readCdkStacks } from './dependency-graph';
+import { CdkOutputIndex } from './cdk-output-index';
+import { ServerlessReferenceValidator } from './reference-validator';
+import { ServerlessGraphExportOptions, ServerlessGraphExporter } from './graph-export';
+import {
+  CdkStack,
+  ServerlessConfig,
+  ServerlessService,
+  ServerlessDependency,
+  ServerlessCompose,
+  ServerlessDeploymentOptions,
+  ServerlessCommandTimeouts,
+  ServerlessEventPayloads,
+  ServerlessArtifact,
+  ServerlessLogOptions,
+  ServerlessInvokeOptions,
+  ServerlessInvokeSummary,
+  ServerlessReferenceReport,
+  ServerlessGraphFormat,
+  ServiceInfo
+} from './types';
+
+// A service config resolved for a deploy's stage, region, options and params
+type DeployConfig = VariableResolution<Record<string, unknown>>;
 
 /**
  * Serverless Framework plugin for orcdkestrator
@@ -25,6 +64,23 @@ export class ServerlessPlugin implements Plugin {
   private dependencyScanner: ServerlessDependencyScanner | null = null;
   private hotReload: ServerlessHotReload | null = null;
   private stackInspector: StackInspector | null = null;
+  private serviceInfoReader: ServiceInfoReader | null = null;
+  private artifactStore: ServerlessArtifactStore | null = null;
+  private logStreamer: ServerlessLogStreamer | null = null;
+  private invoker: ServerlessInvoker | null = null;
+  private retryPolicy: RetryPolicy | null = null;
+  private configLoader: ServerlessConfigLoader | null = null;
+  private pluginVerifier: ServerlessPluginVerifier | null = null;
+  private services: ServerlessService[] = [];
+  private composeProjects: ServerlessCompose[] = [];
+  private dependencyGraph: ServerlessDependencyGraph | null = null;
+  private orphanedDependencies: Array<{ service: string; dependency: ServerlessDependency }> = [];
+  private cdkOutputIndex: CdkOutputIndex | null = null;
+  // The deployed service and its deploy options, by service name
+  private hotReloadTargets = new Map<string, { service: ServerlessService; options: ServerlessDeploymentOptions }>();
+  private functionDeploys = new Map<string, Promise<void>>();
+  // Configs resolved by the deploys in progress, by deploy options and service name
+  private deployConfigs = new WeakMap<ServerlessDeploymentOptions, Map<string, Promise<DeployConfig>>>();
   
   async initialize(config: PluginConfig, orcdkConfig: OrcdkConfig): Promise<void> {
     this.config = config.config as ServerlessConfig || {};
@@ -32,9 +88,46 @@ export class ServerlessPlugin implements Plugin {
     this.eventBus = EventBus.getInstance();
     
     // Initialize components
-    this.cli = new ServerlessCLI();
-    this.patternDetector = new ServerlessPatternDetector(process.cwd());
-    this.dependencyScanner = new ServerlessDependencyScanner();
+    this.cli = new ServerlessCLI({
+      binaryPath: this.config.binary?.path,
+      useNpx: this.config.binary?.useNpx,
+      accessKey: this.config.binary?.accessKey,
+      projectRoot: process.cwd()
+    });
+    this.configLoader = new ServerlessConfigLoader();
+    this.dependencyScanner = new ServerlessDependencyScanner(this.configLoader);
+    const variables = {
+      stage: this.config.serverless?.stage,
+      region: this.config.serverless?.region
+    };
+    const detection = this.config.detection || {};
+    this.patternDetector = new ServerlessPatternDetector(process.cwd(), {
+      configLoader: this.configLoader,
+      dependencyScanner: this.dependencyScanner,
+      scope: detection,
+      cache: detection.cache !== false
+        ? new ServerlessScanCache(
+          path.resolve(process.cwd(), detection.cacheFile || '.orcdk/serverless-scan-cache.json'),
+          variables
+        )
+        : undefined,
+      variables
+    });
+    this.serviceInfoReader = new ServiceInfoReader(new StackInspector());
+    this.logStreamer = new ServerlessLogStreamer(this.cli, this.eventBus);
+    this.invoker = new ServerlessInvoker(this.cli, this.eventBus, this.config.invoke?.fixturesDirectory);
+    // Without a configured policy every deploy runs once
+    this.retryPolicy = new RetryPolicy(this.config.retry || { maxAttempts: 1 });
+    this.pluginVerifier = new ServerlessPluginVerifier({
+      install: this.config.pluginCheck?.install,
+      packageManager: this.config.pluginCheck?.packageManager,
+      installTimeout: this.config.pluginCheck?.installTimeout,
+      projectRoot: process.cwd()
+    });
+    this.artifactStore = new ServerlessArtifactStore(
+      path.resolve(process.cwd(), this.config.artifacts?.directory || '.orcdk/serverless-artifacts'),
+      { retain: this.config.artifacts?.retain }
+    );
     
     // Initialize stack inspector for remote deployment capabilities
     if (this.config.enableRemoteDeployment) {
@@ -64,6 +157,16 @@ export class ServerlessPlugin implements Plugin {
       await this.configureServerlessLocalStack();
     });
     
+    // Redeploy changed functions when hot reloading
+    if (this.hotReload && this.config.hotReloading?.deployFunctions !== false) {
+      this.eventBus.on(
+        EventTypes['serverless:hot-reload:handler-updated'],
+        async (event: { data: ServerlessEventPayloads['serverless:hot-reload:handler-updated'] }) => {
+          await this.handleHandlerUpdated(event.data);
+        }
+      );
+    }
+    
     // Environment scanning integration
     this.eventBus.on(EventTypes['environment:scan:completed'], async () => {
       // Environment scanner will pick up serverless.yml files automatically
@@ -81,22 +184,149 @@ export class ServerlessPlugin implements Plugin {
     const pattern = await this.patternDetector!.scan();
     
     // Store detected services for later use
+    this.services = pattern.services;
+    this.composeProjects = pattern.composeProjects || [];
     if (pattern.services.length > 0) {
       console.log(`[serverless] Detected ${pattern.services.length} Serverless service(s)`);
     }
+    
+    const cdkStacks = await this.readCdkStacks();
+    this.cdkOutputIndex = await CdkOutputIndex.load(cdkStacks);
+    
+    // Before the CDK app is synthesized every reference would look orphaned
+    if (cdkStacks.length > 0) {
+      this.resolveCdkSources(this.cdkOutputIndex);
+    }
+    this.buildDependencyGraph(cdkStacks);
+  }
+  
+  /**
+   * Read the stacks synthesized into the CDK app's cloud assembly
+   */
+  private async readCdkStacks(): Promise<CdkStack[]> {
+    const cdkRoot = this.orcdkConfig?.cdkRoot;
+    return cdkRoot ? readCdkStacks(await findCdkOutDir(path.resolve(process.cwd(), cdkRoot))) : [];
+  }
+  
+  /**
+   * Match references to the CDK stacks that write them, reporting those no stack writes
+   */
+  private resolveCdkSources(index: CdkOutputIndex): void {
+    const stage = this.config.serverless?.stage;
+    // Outputs of the project's own services aren't in cdk.out
+    const serviceStacks = new Set(this.services.flatMap(s => [s.name, `${s.name}-${stage || 'dev'}`]));
+    
+    this.orphanedDependencies = [];
+    for (const service of this.services) {
+      const records = service.dependencyRecords || [];
+      const orphans = this.dependencyScanner!.resolveCdkSources(records, index, stage)
+        .filter(r => r.kind !== 'cloudformation' || !serviceStacks.has(r.stack!));
+      
+      service.dependencies = getDependencyStacks(records);
+      for (const dependency of orphans) {
+        this.orphanedDependencies.push({ service: service.name, dependency });
+        this.eventBus.emitEvent(
+          EventTypes['serverless:dependency:orphaned'],
+          { service: service.name, dependency },
+          this.name
+        );
+      }
+    }
+    
+    if (this.orphanedDependencies.length > 0) {
+      console.warn(
+        `[serverless] ${this.orphanedDependencies.length} reference(s) match no CDK parameter, output or export: ` +
+        this.orphanedDependencies.map(o => `${o.service}: ${o.dependency.expression}`).join(', ')
+      );
+    }
+  }
+  
+  /**
+   * Get references from the last detection that no synthesized CDK stack produces
+   */
+  getOrphanedDependencies(): Array<{ service: string; dependency: ServerlessDependency }> {
+    return this.orphanedDependencies;
+  }
+  
+  /**
+   * Build the dependency graph of detected services and the synthesized CDK stacks
+   *
+   * The graph is published so the orchestrator can deploy CDK stacks and
+   * services in one order.
+   */
+  private buildDependencyGraph(cdkStacks: CdkStack[]): void {
+    const graph = new ServerlessDependencyGraph(this.services, cdkStacks, this.config.serverless?.stage);
+    const cycles = graph.findCycles();
+    const deployOrder = cycles.length === 0 ? graph.getDeployOrder() : [];
+    
+    this.dependencyGraph = graph;
+    this.eventBus.emitEvent(
+      EventTypes['serverless:dependency-graph:built'],
+      {
+        nodes: graph.getNodes(),
+        deployOrder,
+        removalOrder: [...deployOrder].reverse(),
+        cycles
+      },
+      this.name
+    );
+    
+    if (cycles.length > 0) {
+      console.warn(`[serverless] Circular dependencies found: ${cycles.map(c => c.join(' -> ')).join('; ')}`);
+    }
+  }
+  
+  /**
+   * Get the dependency graph built by the last detection
+   */
+  getDependencyGraph(): ServerlessDependencyGraph {
+    return this.dependencyGraph || new ServerlessDependencyGraph(this.services, [], this.config.serverless?.stage);
+  }
+  
+  /**
+   * Render the dependency graph as a DOT, Mermaid or JSON diagram
+   */
+  exportDependencyGraph(format: ServerlessGraphFormat, options: ServerlessGraphExportOptions = {}): string {
+    return new ServerlessGraphExporter(this.services, this.getDependencyGraph()).render(format, options);
+  }
+  
+  /**
+   * Get the services found by the last detection
+   */
+  getServices(): ServerlessService[] {
+    return this.services;
+  }
+
+  /**
+   * Query functions, events and resources across detected services
+   */
+  getInventory(): ServerlessInventoryQuery {
+    return new ServerlessInventoryQuery(this.services);
   }
   
   /**
    * Deploy a Serverless service with optional remote stack inspection
    */
   async deployService(service: ServerlessService, options: ServerlessDeploymentOptions): Promise<void> {
-    // Check if this is a remote deployment
-    if (this.config.enableRemoteDeployment && options.environment) {
-      return this.deployServiceRemote(service, options);
-    }
+    // Validation, stack lookups and retries share one resolution of the config
+    const configs = this.deployConfigs.get(options) || new Map<string, Promise<DeployConfig>>();
+    this.deployConfigs.set(options, configs);
+    
+    try {
+      if (this.config.referenceValidation?.enabled !== false) {
+        await this.validateReferences(service, options);
+      }
 
-    // Original deployment logic
-    return this.deployServiceLocal(service, options);
+      // Check if this is a remote deployment
+      if (this.config.enableRemoteDeployment && options.environment) {
+        return await this.deployServiceRemote(service, options);
+      }
+
+      // Original deployment logic
+      return await this.deployServiceLocal(service, options);
+    } finally {
+      configs.delete(service.name);
+    }
   }
 
   /**
@@ -104,12 +334,13 @@ export class ServerlessPlugin implements Plugin {
    */
   async deployServiceRemote(service: ServerlessService, options: ServerlessDeploymentOptions): Promise<void> {
     const { environment } = options;
+    const stacks = await this.resolveDependencyStacks(service, options);
     
     this.eventBus.emitEvent(
       EventTypes['serverless:remote:deploy:started'],
       {
         service: service.name,
-        stackName: service.dependencies.join(',') || service.name,
+        stackName: stacks.map(s => s.stackName).join(',') || service.name,
         environment,
         profile: this.config.stackInspection?.defaultProfile
       },
@@ -120,14 +351,14 @@ export class ServerlessPlugin implements Plugin {
 
     try {
       // Step 1: Inspect stack dependencies if configured
-      if (service.dependencies.length > 0) {
-        for (const stackName of service.dependencies) {
+      if (stacks.length > 0) {
+        for (const { stackName, region } of stacks) {
           console.log(`[serverless] Inspecting stack: ${stackName}...`);
           
           const inspectionResult = await this.inspectStack(
             stackName, 
             this.config.stackInspection?.defaultProfile,
-            this.config.stackInspection?.defaultRegion
+            region || this.config.stackInspection?.defaultRegion
           );
 
           if (!inspectionResult.success) {
@@ -146,7 +377,8 @@ export class ServerlessPlugin implements Plugin {
           const validation = await this.validateEnvironmentVariables(
             service.name,
             environment || 'default',
-            inspectionResult.requirements
+            inspectionResult.requirements,
+            { service, stage: options.stage, region: options.region, configFile: this.getConfigFile(service, options) }
           );
 
           if (!validation.valid) {
@@ -204,59 +436,229 @@ export class ServerlessPlugin implements Plugin {
     }
   }
 
+  /**
+   * Check that the outputs, exports and SSM parameters a service reads exist
+   *
+   * References are checked against the synthesized CDK app, and against AWS
+   * when `referenceValidation.online` is set. Throws when any is missing.
+   */
+  async validateReferences(
+    service: ServerlessService,
+    options: ServerlessDeploymentOptions
+  ): Promise<ServerlessReferenceReport> {
+    const index = this.cdkOutputIndex || await CdkOutputIndex.load(await this.readCdkStacks());
+    const inspector = this.config.referenceValidation?.online
+      ? this.stackInspector || new StackInspector()
+      : undefined;
+    const validator = new ServerlessReferenceValidator(index, {
+      inspector,
+      profile: {
+        profile: this.config.stackInspection?.defaultProfile,
+        region: options.region || this.config.stackInspection?.defaultRegion
+      }
+    });
+    
+    const dependencies = await this.scanDeployRecords(service, options);
+    const report = await validator.validate(service.name, options.stage, dependencies);
+    
+    this.eventBus.emitEvent(EventTypes['serverless:references:validated'], report, this.name);
+    
+    // Unverified references don't block the deploy, but likely typos are worth a warning
+    for (const check of report.checks.filter(c => c.status === 'unverified' && c.suggestion)) {
+      console.warn(`[serverless] ${service.name}: ${check.dependency.expression || check.dependency.path}: ${check.message}`);
+    }
+    
+    const missing = report.checks.filter(c => c.status === 'missing');
+    if (missing.length > 0) {
+      throw new Error(
+        `${service.name} references ${missing.length} missing value(s):\n` +
+        missing.map(c => `  - ${c.dependency.expression}: ${c.message}`).join('\n')
+      );
+    }
+    
+    return report;
+  }
+
+  /**
+   * Get the stacks a service reads from as they're named for the deploy's stage
+   */
+  private async resolveDependencyStacks(
+    service: ServerlessService,
+    options: ServerlessDeploymentOptions
+  ): Promise<Array<{ stackName: string; region?: string }>> {
+    const stacks = new Map<string, { stackName: string; region?: string }>();
+    
+    // Compose dependencies are services deployed in order, not stacks to inspect
+    for (const record of await this.scanDeployRecords(service, options)) {
+      if (record.stack && record.kind !== 'compose') {
+        stacks.set(`${record.region}|${record.stack}`, { stackName: record.stack, region: record.region });
+      }
+    }
+    
+    return Array.from(stacks.values());
+  }
+
+  /**
+   * Get the references of a service as they resolve for a deploy
+   *
+   * Detection resolves names for the configured stage, so the config is scanned
+   * again with the deploy's stage, region, options and params, and matched to
+   * the synthesized CDK stacks as at detection. The detected records are only
+   * used when the config can't be scanned again.
+   */
+  private async scanDeployRecords(
+    service: ServerlessService,
+    options: ServerlessDeploymentOptions
+  ): Promise<ServerlessDependency[]> {
+    const configFile = this.getConfigFile(service, options);
+    
+    try {
+      const { config, stage } = await this.resolveDeployConfig(service, options);
+      
+      // References were reported when the service was detected
+      const records = await this.dependencyScanner!.scanConfig(config, configFile, stage, { emit: false });
+      if (this.cdkOutputIndex && this.cdkOutputIndex.getStackNames().length > 0) {
+        this.dependencyScanner!.resolveCdkSources(records, this.cdkOutputIndex, stage);
+      }
+      return records;
+    } catch (error) {
+      console.warn(
+        `[serverless] Could not rescan ${configFile} for stage ${options.stage}, ` +
+        `using the references found at detection: ${error instanceof Error ? error.message : String(error)}`
+      );
+      return service.dependencyRecords || [];
+    }
+  }
+
+  /**
+   * Load and resolve the config a deploy reads, once per deployService call
+   */
+  private resolveDeployConfig(service: ServerlessService, options: ServerlessDeploymentOptions): Promise<DeployConfig> {
+    const configs = this.deployConfigs.get(options);
+    const cached = configs?.get(service.name);
+    if (cached) {
+      return cached;
+    }
+    
+    const resolving = this.configLoader!.load(this.getConfigFile(service, options)).then(raw =>
+      new ServerlessVariableResolver({
+        ...this.getDeployVariables(service, options),
+        servicePath: service.path
+      }).resolve(raw)
+    );
+    configs?.set(service.name, resolving);
+    return resolving;
+  }
+
+  /**
+   * Get the config file Serverless reads for a deploy, honouring cliOptions.config
+   */
+  private getConfigFile(service: ServerlessService, options: ServerlessDeploymentOptions): string {
+    const { cliOptions } = mergeCliOptions(this.config.services?.[service.name], { cliOptions: options.cliOptions });
+    return cliOptions.config ? path.join(service.path, cliOptions.config) : service.configFile;
+  }
+
+  /**
+   * Get the stage, region, options and params a deploy resolves variables with
+   */
+  private getDeployVariables(
+    service: ServerlessService,
+    options: ServerlessDeploymentOptions
+  ): VariableContext {
+    const { params, cliOptions } = mergeCliOptions(
+      this.config.services?.[service.name],
+      { params: options.params, cliOptions: options.cliOptions }
+    );
+    
+    return {
+      stage: options.stage,
+      region: options.region,
+      options: Object.fromEntries(
+        Object.entries(cliOptions?.opts || {}).map(([name, value]) => [name, typeof value === 'number' ? String(value) : value])
+      ),
+      params
+    };
+  }
+
+  /**
+   * Get the CloudFormation stack and region a service deploys to
+   *
+   * Honours provider.stackName and provider.region as they resolve for the
+   * deploy, and falls back to Serverless' `<service>-<stage>` naming.
+   */
+  private async resolveServiceStack(
+    service: ServerlessService,
+    options: ServerlessDeploymentOptions
+  ): Promise<{ stackName: string; region?: string }> {
+    const resolved = (value: unknown): string | undefined =>
+      typeof value === 'string' && value && !value.includes('${') ? value : undefined;
+    
+    try {
+      const { config } = await this.resolveDeployConfig(service, options);
+      const provider = (config.provider || {}) as Record<string, unknown>;
+      const serviceName = resolved(
+        typeof config.service === 'object' && config.service
+          ? (config.service as Record<string, unknown>).name
+          : config.service
+      ) || service.name;
+      
+      return {
+        stackName: resolved(provider.stackName) || `${serviceName}-${options.stage}`,
+        region: resolved(provider.region) || options.region
+      };
+    } catch {
+      return { stackName: `${service.name}-${options.stage}`, region: options.region };
+    }
+  }
+
   /**
    * Deploy a Serverless service (original logic)
    */
   async deployServiceLocal(service: ServerlessService, options: ServerlessDeploymentOptions): Promise<void> {
+    const configFile = this.getConfigFile(service, options);
+    
     // Emit before deploy event
     this.eventBus.emitEvent(
       EventTypes['serverless:before:service-deploy'],
       {
         service: service.name,
         stage: options.stage,
-        configPath: service.configFile
+        configPath: configFile
       },
       this.name
     );
     
+    const progress = new DeployProgressTracker(this.eventBus, service.name, options.stage);
+    
     try {
       // Validate serverless config file exists
-      if (!service.configFile || !fs.existsSync(service.configFile)) {
-        throw new Error(`Serverless configuration file not found: ${service.configFile || 'serverless.yml'}`);
+      if (!configFile || !fs.existsSync(configFile)) {
+        throw new Error(`Serverless configuration file not found: ${configFile || 'serverless.yml'}`);
       }
       
-      // Ensure Serverless CLI is available
-      if (!(await this.cli!.hasServerlessCLI())) {
-        throw new Error('Serverless Framework CLI not found. Please install it: npm install -g serverless');
-      }
-      
-      // Package phase
-      this.eventBus.emitEvent(
-        EventTypes['serverless:before:service-package'],
-        { service: service.name },
-        this.name
+      // Ensure a Serverless CLI matching the service's frameworkVersion is available
+      const binary = await this.cli!.ensureCompatible(service.path, service.name, service.frameworkVersion);
+      console.log(
+        `[serverless] Using ${binary.flavor} ${formatVersion(binary.version)} (${binary.source}) for ${service.name}`
       );
       
-      console.log(`[serverless] Packaging ${service.name}...`);
-      await this.cli!.package(service.path, options.stage, options.region);
-      
-      this.eventBus.emitEvent(
-        EventTypes['serverless:after:service-package'],
-        { 
-          service: service.name,
-          packagePath: path.join(service.path, '.serverless')
-        },
-        this.name
-      );
+      // Package once, unless deploying a pre-built artifact
+      const artifact = options.artifact || await this.packageArtifact(service, options, progress);
       
       // Deploy phase
       if (!options.dryRun) {
-        console.log(`[serverless] Deploying ${service.name} to stage ${options.stage}...`);
-        await this.cli!.deploy(service.path, options.stage, options.region);
+        await this.deployPackage(service, artifact, options, progress);
+        
+        // Smoke test the deployed functions with their fixtures
+        if (this.config.invoke?.afterDeploy) {
+          await this.smokeTest(service, options);
+        }
       }
       
+      progress.finish(true);
+      
       // Get outputs
-      const outputs = await this.extractServiceOutputs(service, options.stage);
+      const outputs = await this.extractServiceOutputs(service, options, artifact);
       
       // Emit success event
       this.eventBus.emitEvent(
@@ -272,10 +674,13 @@ export class ServerlessPlugin implements Plugin {
       
       // Start hot reloading if enabled
       if (this.hotReload && this.shouldEnableHotReload(options)) {
+        this.hotReloadTargets.set(service.name, { service, options });
         await this.hotReload.startWatching(service);
       }
       
     } catch (error) {
+      progress.finish(false);
+      
       // Emit failure event
       this.eventBus.emitEvent(
         EventTypes['serverless:after:service-deploy'],
@@ -291,6 +696,290 @@ export class ServerlessPlugin implements Plugin {
     }
   }
   
+  /**
+   * Package a service into a versioned artifact for the stage in options
+   */
+  async packageArtifact(
+    service: ServerlessService,
+    options: ServerlessDeploymentOptions,
+    progress?: DeployProgressTracker
+  ): Promise<ServerlessArtifact> {
+    this.eventBus.emitEvent(
+      EventTypes['serverless:before:service-package'],
+      { service: service.name },
+      this.name
+    );
+    
+    await this.verifyPlugins(service);
+    
+    const stagingDir = await this.artifactStore!.createStagingDirectory(service.name);
+    
+    try {
+      console.log(`[serverless] Packaging ${service.name}...`);
+      progress?.enter('packaging', `Packaging ${service.name}`);
+      await this.cli!.package(service.path, options.stage, options.region, {
+        ...this.getCommandOptions('package', service, options),
+        packagePath: stagingDir,
+        onLine: progress?.onLine
+      });
+    } catch (error) {
+      await fs.promises.rm(stagingDir, { recursive: true, force: true });
+      throw error;
+    }
+    
+    const artifact = await this.artifactStore!.commit(stagingDir, {
+      service: service.name,
+      stage: options.stage,
+      region: options.region
+    });
+    
+    this.eventBus.emitEvent(
+      EventTypes['serverless:after:service-package'],
+      { 
+        service: service.name,
+        packagePath: artifact.directory
+      },
+      this.name
+    );
+    
+    this.eventBus.emitEvent(
+      EventTypes['serverless:artifact:created'],
+      {
+        service: service.name,
+        stage: artifact.stage,
+        version: artifact.version,
+        hash: artifact.hash,
+        directory: artifact.directory
+      },
+      this.name
+    );
+    
+    return artifact;
+  }
+  
+  /**
+   * Check that the framework plugins a service declares are installed
+   */
+  private async verifyPlugins(service: ServerlessService): Promise<void> {
+    const plugins = service.inventory?.plugins || [];
+    
+    if (this.config.pluginCheck?.enabled === false || plugins.length === 0) {
+      return;
+    }
+    
+    const { plugins: statuses, problems } = await this.pluginVerifier!.ensure(
+      service.path,
+      plugins,
+      service.inventory?.pluginsLocalPath
+    );
+    
+    this.eventBus.emitEvent(
+      EventTypes['serverless:plugins:verified'],
+      { service: service.name, success: problems.length === 0, plugins: statuses },
+      this.name
+    );
+    
+    if (problems.length > 0) {
+      throw new Error(
+        `Serverless plugins for ${service.name} are not ready:\n  - ${problems.join('\n  - ')}` +
+        (this.config.pluginCheck?.install ? '' : '\nSet pluginCheck.install: true to install them automatically.')
+      );
+    }
+  }
+  
+  /**
+   * Deploy a previously packaged artifact, e.g. to retry or roll back, to the stage it was built for
+   */
+  async deployArtifact(
+    service: ServerlessService,
+    artifact: ServerlessArtifact,
+    options: ServerlessDeploymentOptions
+  ): Promise<void> {
+    return this.deployService(service, { ...options, artifact });
+  }
+  
+  /**
+   * Run `serverless deploy --package` for a verified artifact
+   */
+  private async deployPackage(
+    service: ServerlessService,
+    artifact: ServerlessArtifact,
+    options: ServerlessDeploymentOptions,
+    progress?: DeployProgressTracker
+  ): Promise<void> {
+    // The compiled template holds the build stage's stack, resource names and ${sls:stage} values
+    if (artifact.stage !== options.stage) {
+      throw new Error(
+        `Artifact ${artifact.version} of ${service.name} was built for stage ${artifact.stage} ` +
+        `and can't be deployed to ${options.stage}; package it for ${options.stage} instead`
+      );
+    }
+    
+    await this.artifactStore!.verify(artifact);
+    
+    this.eventBus.emitEvent(
+      EventTypes['serverless:artifact:deploy'],
+      {
+        service: service.name,
+        version: artifact.version,
+        hash: artifact.hash,
+        builtForStage: artifact.stage,
+        stage: options.stage
+      },
+      this.name
+    );
+    
+    console.log(`[serverless] Deploying ${service.name} (${artifact.version}) to stage ${options.stage}...`);
+    const commandOptions = this.getCommandOptions('deploy', service, options);
+    
+    await this.retryPolicy!.run(
+      () => this.cli!.deploy(service.path, options.stage, options.region, {
+        ...commandOptions,
+        packagePath: artifact.directory,
+        force: options.force,
+        onLine: progress?.onLine
+      }),
+      {
+        signal: options.signal,
+        onRetry: retry => this.prepareDeployRetry(service, options, retry, commandOptions.cliOptions?.awsProfile)
+      }
+    );
+  }
+  
+  /**
+   * Report a deploy retry and wait for a busy stack to settle before it
+   */
+  private async prepareDeployRetry(
+    service: ServerlessService,
+    options: ServerlessDeploymentOptions,
+    retry: RetryAttempt,
+    profile?: string
+  ): Promise<void> {
+    this.eventBus.emitEvent(
+      EventTypes['serverless:deploy:retry'],
+      {
+        service: service.name,
+        stage: options.stage,
+        attempt: retry.attempt,
+        maxAttempts: retry.maxAttempts,
+        reason: retry.classification.reason,
+        delay: retry.delay,
+        error: retry.error.message
+      },
+      this.name
+    );
+    
+    console.warn(
+      `[serverless] Deploy of ${service.name} failed (${retry.classification.reason}), ` +
+      `retrying in ${retry.delay}ms (attempt ${retry.attempt + 1} of ${retry.maxAttempts})`
+    );
+    
+    if (retry.classification.waitForStack) {
+      const inspector = this.stackInspector || new StackInspector();
+      const { stackName, region } = await this.resolveServiceStack(service, options);
+      await inspector.waitForStackSettled(
+        stackName,
+        { region, profile },
+        { timeout: this.config.retry?.stackSettleTimeout, signal: options.signal }
+      );
+    }
+  }
+  
+  /**
+   * Deploy a single function's code without a full CloudFormation update
+   */
+  async deployFunction(
+    service: ServerlessService,
+    functionName: string,
+    options: ServerlessDeploymentOptions,
+    file?: string
+  ): Promise<void> {
+    this.eventBus.emitEvent(
+      EventTypes['serverless:before:function-deploy'],
+      {
+        service: service.name,
+        function: functionName,
+        stage: options.stage,
+        file
+      },
+      this.name
+    );
+    
+    const startTime = Date.now();
+    
+    try {
+      console.log(`[serverless] Deploying function ${functionName} of ${service.name} to stage ${options.stage}...`);
+      await this.cli!.deployFunction(service.path, functionName, options.stage, options.region, {
+        ...this.getCommandOptions('deploy', service, options),
+        updateConfig: this.config.hotReloading?.updateConfig
+      });
+      
+      this.eventBus.emitEvent(
+        EventTypes['serverless:after:function-deploy'],
+        {
+          service: service.name,
+          function: functionName,
+          stage: options.stage,
+          success: true,
+          duration: Date.now() - startTime,
+          file
+        },
+        this.name
+      );
+    } catch (error) {
+      this.eventBus.emitEvent(
+        EventTypes['serverless:after:function-deploy'],
+        {
+          service: service.name,
+          function: functionName,
+          stage: options.stage,
+          success: false,
+          duration: Date.now() - startTime,
+          file,
+          error: error instanceof Error ? error.message : String(error)
+        },
+        this.name
+      );
+      throw error;
+    }
+  }
+  
+  /**
+   * Redeploy the functions affected by a hot-reloaded file
+   */
+  private async handleHandlerUpdated(
+    payload: ServerlessEventPayloads['serverless:hot-reload:handler-updated']
+  ): Promise<void> {
+    const target = this.hotReloadTargets.get(payload.service);
+    
+    if (!target || !this.shouldEnableHotReload(target.options)) {
+      return;
+    }
+    
+    // options.service is the caller's service, which differs when deploying several
+    const { service, options } = target;
+    const functions = findFunctionsForFile(service.handlers || {}, payload.file);
+    
+    // Queue behind any in-flight deploy of the same service
+    const previous = this.functionDeploys.get(payload.service) || Promise.resolve();
+    const next = previous.then(async () => {
+      for (const functionName of functions) {
+        try {
+          await this.deployFunction(service, functionName, options, payload.file);
+        } catch (error) {
+          console.error(`[serverless] Failed to deploy function ${functionName}:`, error);
+        }
+      }
+    });
+    
+    this.functionDeploys.set(payload.service, next);
+    await next;
+    
+    if (this.functionDeploys.get(payload.service) === next) {
+      this.functionDeploys.delete(payload.service);
+    }
+  }
+  
   /**
    * Remove a Serverless service
    */
@@ -306,7 +995,12 @@ export class ServerlessPlugin implements Plugin {
     
     try {
       console.log(`[serverless] Removing ${service.name} from stage ${options.stage}...`);
-      await this.cli!.remove(service.path, options.stage, options.region);
+      await this.cli!.remove(
+        service.path,
+        options.stage,
+        options.region,
+        this.getCommandOptions('remove', service, options)
+      );
       
       this.eventBus.emitEvent(
         EventTypes['serverless:after:service-remove'],
@@ -332,6 +1026,210 @@ export class ServerlessPlugin implements Plugin {
     }
   }
   
+  /**
+   * Deploy every detected service, each after the services and stacks it depends on
+   *
+   * CDK stacks are left to the orchestrator; they're only used for ordering.
+   */
+  async deployAll(options: ServerlessDeploymentOptions): Promise<void> {
+    const services = this.getServicesInOrder(this.getDependencyGraph().getDeployOrder());
+    
+    console.log(`[serverless] Deploying services in order: ${services.map(s => s.name).join(', ')}`);
+    for (const service of services) {
+      await this.deployService(service, options);
+    }
+  }
+  
+  /**
+   * Remove every detected service, dependents first
+   */
+  async removeAll(options: ServerlessDeploymentOptions): Promise<void> {
+    const services = this.getServicesInOrder(this.getDependencyGraph().getRemovalOrder());
+    
+    console.log(`[serverless] Removing services in order: ${services.map(s => s.name).join(', ')}`);
+    for (const service of services) {
+      await this.removeService(service, options);
+    }
+  }
+  
+  /**
+   * Get the detected services behind the Serverless nodes of a graph order
+   */
+  private getServicesInOrder(order: string[]): ServerlessService[] {
+    const byId = new Map(this.services.map(s => [`serverless:${s.name}`, s]));
+    return order.filter(id => byId.has(id)).map(id => byId.get(id)!);
+  }
+  
+  /**
+   * Deploy the services of a compose project, each after the services it depends on
+   */
+  async deployCompose(options: ServerlessDeploymentOptions, composeFile?: string): Promise<void> {
+    const project = this.getComposeProject(composeFile);
+    const outputs: Record<string, Record<string, string>> = {};
+    
+    console.log(`[serverless] Deploying compose services in order: ${project.order.join(', ')}`);
+    for (const name of project.order) {
+      const service = this.getComposeService(project, name);
+      const params = await this.getComposeParams(project, service, options, outputs);
+      
+      await this.deployService(service, { ...options, params: { ...params, ...options.params } });
+      outputs[name] = await this.getDeployedOutputs(service, options);
+    }
+  }
+  
+  /**
+   * Remove the services of a compose project, dependents first
+   */
+  async removeCompose(options: ServerlessDeploymentOptions, composeFile?: string): Promise<void> {
+    const project = this.getComposeProject(composeFile);
+    const order = [...project.order].reverse();
+    
+    console.log(`[serverless] Removing compose services in order: ${order.join(', ')}`);
+    for (const name of order) {
+      const service = this.getComposeService(project, name);
+      // Dependencies may already be gone, and removing doesn't need their outputs
+      const params = ServerlessComposeReader.resolveParams(service.compose!, {}, { placeholders: true });
+      
+      await this.removeService(service, { ...options, params: { ...params, ...options.params } });
+    }
+  }
+  
+  /**
+   * Get a detected compose project, by file when there are several
+   */
+  private getComposeProject(composeFile?: string): ServerlessCompose {
+    if (composeFile) {
+      const project = this.composeProjects.find(p => p.file === path.resolve(composeFile));
+      if (!project) {
+        throw new Error(`Compose file ${composeFile} was not detected`);
+      }
+      return project;
+    }
+    
+    if (this.composeProjects.length === 0) {
+      throw new Error('No serverless-compose file was detected');
+    }
+    if (this.composeProjects.length > 1) {
+      throw new Error('Several serverless-compose files were detected; pass the one to use');
+    }
+    
+    return this.composeProjects[0]!;
+  }
+  
+  /**
+   * Get the detected service behind a compose service
+   */
+  private getComposeService(project: ServerlessCompose, name: string): ServerlessService {
+    const service = this.services.find(s => s.compose?.file === project.file && s.compose.name === name);
+    
+    if (!service) {
+      throw new Error(`Compose service '${name}' in ${project.file} has no Serverless config`);
+    }
+    
+    return service;
+  }
+  
+  /**
+   * Resolve a compose service's params, reading outputs of its dependencies when not yet known
+   *
+   * Dry runs deploy nothing, so outputs that don't exist yet become placeholders.
+   */
+  private async getComposeParams(
+    project: ServerlessCompose,
+    service: ServerlessService,
+    options: ServerlessDeploymentOptions,
+    outputs: Record<string, Record<string, string>>
+  ): Promise<Record<string, string>> {
+    for (const dependency of service.compose!.dependsOn) {
+      if (!outputs[dependency]) {
+        outputs[dependency] = await this.getDeployedOutputs(this.getComposeService(project, dependency), options);
+      }
+    }
+    
+    return ServerlessComposeReader.resolveParams(service.compose!, outputs, { placeholders: options.dryRun });
+  }
+  
+  /**
+   * Read the outputs of a deployed service's stack, empty when it can't be read
+   */
+  private async getDeployedOutputs(
+    service: ServerlessService,
+    options: ServerlessDeploymentOptions
+  ): Promise<Record<string, string>> {
+    const { stackName, region } = await this.resolveServiceStack(service, options);
+    const { cliOptions } = mergeCliOptions(this.config.services?.[service.name], { cliOptions: options.cliOptions });
+    
+    try {
+      const inspector = this.stackInspector || new StackInspector();
+      return await inspector.getStackOutputs(stackName, {
+        profile: cliOptions.awsProfile || this.config.stackInspection?.defaultProfile,
+        region: region || this.config.stackInspection?.defaultRegion
+      }) || {};
+    } catch {
+      return {};
+    }
+  }
+  
+  /**
+   * Stream logs of a deployed service's functions, defaulting to all of them
+   */
+  tailLogs(service: ServerlessService, options: ServerlessLogOptions): LogStream {
+    const functions = options.functions?.length ? options.functions : Object.keys(service.handlers || {});
+    
+    if (functions.length === 0) {
+      throw new Error(`No functions to stream logs for in ${service.name}`);
+    }
+    
+    const { params, cliOptions } = mergeCliOptions(this.config.services?.[service.name]);
+    
+    console.log(`[serverless] Streaming logs for ${service.name}: ${functions.join(', ')}`);
+    return this.logStreamer!.stream(service, functions, {
+      ...options,
+      commandOptions: { params, cliOptions }
+    });
+  }
+  
+  /**
+   * Invoke a service's functions with the fixture payloads in its events/ directory
+   */
+  async invokeService(service: ServerlessService, options: ServerlessInvokeOptions): Promise<ServerlessInvokeSummary> {
+    const mode = options.mode || this.config.invoke?.mode || 'local';
+    
+    console.log(`[serverless] Invoking ${service.name} fixtures (${mode}) on stage ${options.stage}...`);
+    return this.invoker!.invokeAll(service, {
+      ...options,
+      mode,
+      summaryFile: options.summaryFile || this.config.invoke?.summaryFile,
+      commandOptions: this.getCommandOptions('invoke', service, {
+        service,
+        stage: options.stage,
+        signal: options.signal
+      })
+    });
+  }
+  
+  /**
+   * Invoke the deployed service's fixtures, failing the deployment if any invocation fails
+   */
+  private async smokeTest(service: ServerlessService, options: ServerlessDeploymentOptions): Promise<void> {
+    const summary = await this.invokeService(service, {
+      stage: options.stage,
+      region: options.region,
+      mode: this.config.invoke?.mode || 'remote',
+      signal: options.signal
+    });
+    
+    if (summary.failed > 0) {
+      const failures = summary.results
+        .filter(r => !r.success)
+        .map(r => `  - ${r.function} (${r.fixture}): ${r.error}`);
+      throw new Error(
+        `Smoke test failed for ${service.name}: ${summary.failed} of ${summary.total} invocations failed\n` +
+        failures.join('\n')
+      );
+    }
+  }
+  
   /**
    * Configure serverless-localstack plugin
    */
@@ -361,35 +1259,22 @@ export class ServerlessPlugin implements Plugin {
   /**
    * Extract service outputs after deployment
    */
-  private async extractServiceOutputs(service: ServerlessService, stage: string): Promise<Record<string, unknown>> {
+  private async extractServiceOutputs(
+    service: ServerlessService,
+    options: ServerlessDeploymentOptions,
+    artifact?: ServerlessArtifact
+  ): Promise<ServiceInfo | undefined> {
+    const { cliOptions } = mergeCliOptions(this.config.services?.[service.name], { cliOptions: options.cliOptions });
+    
     try {
-      const info = await this.cli!.info(service.path, stage);
-      // Parse info output for endpoints, functions, etc.
-      return this.parseServiceInfo(info);
+      return await this.serviceInfoReader!.read(service.path, options.stage, {
+        packagePath: artifact?.directory,
+        region: options.region,
+        profile: cliOptions.awsProfile || this.config.stackInspection?.defaultProfile
+      });
     } catch {
-      return {};
-    }
-  }
-  
-  /**
-   * Parse serverless info output
-   */
-  private parseServiceInfo(info: string): Record<string, unknown> {
-    const outputs: Record<string, unknown> = {};
-    
-    // Extract endpoints
-    const endpointMatch = info.match(/endpoints:([\s\S]*?)functions:/);
-    if (endpointMatch) {
-      outputs.endpoints = endpointMatch[1]?.trim().split('\n').filter(e => e.trim()) || [];
+      return undefined;
     }
-    
-    // Extract function names
-    const functionsMatch = info.match(/functions:([\s\S]*?)$/);
-    if (functionsMatch) {
-      outputs.functions = functionsMatch[1]?.trim().split('\n').filter(f => f.trim()) || [];
-    }
-    
-    return outputs;
   }
   
   /**
@@ -414,7 +1299,8 @@ export class ServerlessPlugin implements Plugin {
   async validateEnvironmentVariables(
     serviceName: string, 
     environment: string, 
-    stackRequirements: any
+    stackRequirements: any,
+    serviceContext?: { service: ServerlessService; stage: string; region?: string; configFile?: string }
   ): Promise<{ valid: boolean; missing: string[]; resolved: Record<string, string> }> {
     this.eventBus.emitEvent(
       EventTypes['serverless:before:environment-validation'],
@@ -443,6 +1329,16 @@ export class ServerlessPlugin implements Plugin {
           missing.push(varName);
         }
       }
+      
+      // ${env:...} references in the service config that nothing provides
+      if (serviceContext) {
+        const unresolved = await this.findUnresolvedEnvReferences(serviceContext, { ...process.env, ...resolved });
+        for (const varName of unresolved) {
+          if (!missing.includes(varName)) {
+            missing.push(varName);
+          }
+        }
+      }
 
       const valid = missing.length === 0;
 
@@ -489,7 +1385,51 @@ export class ServerlessPlugin implements Plugin {
       throw error;
     }
   }
+  
+  /**
+   * Find environment variables the service config references without a fallback
+   */
+  private async findUnresolvedEnvReferences(
+    context: { service: ServerlessService; stage: string; region?: string; configFile?: string },
+    env: Record<string, string | undefined>
+  ): Promise<string[]> {
+    const raw = await this.configLoader!.load(context.configFile || context.service.configFile);
+    const { unresolved } = new ServerlessVariableResolver({
+      stage: context.stage,
+      region: context.region,
+      params: mergeCliOptions(this.config.services?.[context.service.name]).params,
+      env,
+      servicePath: context.service.path
+    }).resolve(raw);
+    
+    return Array.from(new Set(
+      unresolved.filter(u => u.source === 'env' && u.address).map(u => u.address!)
+    ));
+  }
+
+  /**
+   * Build CLI command options from the configured timeouts, the service's defaults
+   * and the caller's params, pass-through options and abort signal
+   */
+  private getCommandOptions(
+    command: Exclude<keyof ServerlessCommandTimeouts, 'default'>,
+    service: ServerlessService,
+    options: ServerlessDeploymentOptions
+  ): ServerlessCommandOptions {
+    const timeouts = this.config.commandTimeouts || {};
+    const { params, cliOptions } = mergeCliOptions(
+      this.config.services?.[service.name],
+      { params: options.params, cliOptions: options.cliOptions }
+    );
 
+    return {
+      signal: options.signal,
+      timeout: timeouts[command] ?? timeouts.default,
+      params,
+      cliOptions
+    };
+  }
+  
   /**
    * Check if hot reload should be enabled
    */
@@ -498,6 +1438,11 @@ export class ServerlessPlugin implements Plugin {
   }
   
   async cleanup(): Promise<void> {
+    // Cancel in-flight Serverless commands
+    if (this.cli) {
+      this.cli.cancelAll();
+    }
+    
     // Stop hot reloading
     if (this.hotReload) {
       await this.hotReload.stopWatching();
@@ -506,6 +1451,7 @@ export class ServerlessPlugin implements Plugin {
     // Unsubscribe from events
     this.eventBus.removeAllListeners(EventTypes['orchestrator:before:pattern-detection']);
     this.eventBus.removeAllListeners(EventTypes['localstack:ready']);
+    this.eventBus.removeAllListeners(EventTypes['serverless:hot-reload:handler-updated']);
   }
 }
 
@@ -0,0 +1,256 @@
+import {
+  ServerlessFunction,
+  ServerlessFunctionEvent,
+  ServerlessInventory,
+  ServerlessLayer,
+  ServerlessResource,
+  ServerlessService,
+  ServerlessYamlConfig,
+  ServerlessYamlResources
+} from './types';
+
+const EVENT_TYPES: ServerlessFunctionEvent['type'][] = ['http', 'httpApi', 'sqs', 's3', 'schedule', 'stream'];
+
+/**
+ * CloudFormation properties that hold a resource's physical name
+ */
+const NAME_PROPERTIES = ['QueueName', 'BucketName', 'TableName', 'TopicName', 'StreamName', 'FunctionName', 'Name'];
+
+/**
+ * A function in a detected service
+ */
+export interface InventoryFunctionMatch {
+  service: ServerlessService;
+  function: ServerlessFunction;
+  event?: ServerlessFunctionEvent;
+}
+
+/**
+ * Build the inventory of a resolved service config
+ *
+ * Function runtime, memory and timeout fall back to the provider defaults, the
+ * same way Serverless applies them at deploy time.
+ */
+export function buildInventory(config: ServerlessYamlConfig): ServerlessInventory {
+  const provider = config.provider || {};
+
+  const functions = Object.entries(config.functions || {}).map(([name, fn]): ServerlessFunction => ({
+    name,
+    handler: typeof fn?.handler === 'string' ? fn.handler : undefined,
+    runtime: fn?.runtime || provider.runtime,
+    memorySize: fn?.memorySize || provider.memorySize,
+    timeout: fn?.timeout || provider.timeout,
+    events: (fn?.events || []).map(parseEvent).filter((e): e is ServerlessFunctionEvent => e !== null),
+    layers: (fn?.layers || []).map(getReference).filter((l): l is string => !!l)
+  }));
+
+  const layers = Object.entries(config.layers || {}).map(([name, layer]): ServerlessLayer => ({
+    name,
+    path: layer?.path,
+    compatibleRuntimes: layer?.compatibleRuntimes
+  }));
+
+  return {
+    functions,
+    layers,
+    resources: extractResources(config.resources),
+    plugins: Array.isArray(config.plugins) ? config.plugins : config.plugins?.modules || [],
+    pluginsLocalPath: Array.isArray(config.plugins) ? undefined : config.plugins?.localPath
+  };
+}
+
+/**
+ * Parse an http, httpApi, sqs, s3, schedule or stream event; other events are skipped
+ */
+export function parseEvent(event: Record<string, unknown>): ServerlessFunctionEvent | null {
+  const type = EVENT_TYPES.find(t => event && event[t] !== undefined);
+  if (!type) {
+    return null;
+  }
+
+  const value = event[type];
+  const settings = typeof value === 'object' && value !== null ? value as Record<string, unknown> : null;
+
+  switch (type) {
+    case 'http':
+    case 'httpApi':
+      return { type, ...parseHttpEvent(value) };
+    case 'sqs':
+    case 'stream':
+      return { type, ...parseSource(settings && 'arn' in settings ? settings.arn : value) };
+    case 's3':
+      return { type, ...parseSource(settings ? settings.bucket : value) };
+    case 'schedule': {
+      const rate = settings ? settings.rate : value;
+      return { type, source: Array.isArray(rate) ? rate.join(', ') : typeof rate === 'string' ? rate : undefined };
+    }
+  }
+}
+
+/**
+ * Parse an http or httpApi event in either string or object form
+ */
+export function parseHttpEvent(event: unknown): { method?: string; path?: string } {
+  if (typeof event === 'string') {
+    if (event === '*') {
+      return { method: '*', path: '*' };
+    }
+
+    const [method, eventPath] = event.trim().split(/\s+/);
+    return { method: method?.toUpperCase(), path: eventPath };
+  }
+
+  const settings = typeof event === 'object' && event !== null ? event as Record<string, unknown> : {};
+  return {
+    method: settings.method ? String(settings.method).toUpperCase() : undefined,
+    path: typeof settings.path === 'string' ? settings.path : undefined
+  };
+}
+
+/**
+ * Read an event source that is either a literal or a reference to a resource
+ */
+function parseSource(value: unknown): Pick<ServerlessFunctionEvent, 'source' | 'resource'> {
+  if (typeof value === 'string') {
+    return { source: value };
+  }
+
+  const resource = getReference(value);
+  return resource ? { resource } : {};
+}
+
+/**
+ * Get the string or referenced logical ID of a value like `{ Ref: X }` or `{ 'Fn::GetAtt': [X, 'Arn'] }`
+ */
+function getReference(value: unknown): string | undefined {
+  if (typeof value === 'string') {
+    return value;
+  }
+
+  if (!value || typeof value !== 'object') {
+    return undefined;
+  }
+
+  const ref = value as Record<string, unknown>;
+  if (typeof ref.Ref === 'string') {
+    return ref.Ref;
+  }
+
+  const getAtt = ref['Fn::GetAtt'];
+  if (Array.isArray(getAtt)) {
+    return typeof getAtt[0] === 'string' ? getAtt[0] : undefined;
+  }
+
+  return typeof getAtt === 'string' ? getAtt.split('.')[0] : undefined;
+}
+
+/**
+ * Extract resources from a `resources` block, which may be a list of fragments
+ */
+function extractResources(resources: ServerlessYamlResources | ServerlessYamlResources[] | undefined): ServerlessResource[] {
+  const fragments = Array.isArray(resources) ? resources : resources ? [resources] : [];
+
+  return fragments.flatMap(fragment =>
+    Object.entries(fragment?.Resources || {}).map(([logicalId, resource]): ServerlessResource => {
+      const properties = resource?.Properties || {};
+      const name = NAME_PROPERTIES.map(p => properties[p]).find((v): v is string => typeof v === 'string');
+
+      return { logicalId, type: resource?.Type || 'Unknown', name };
+    })
+  );
+}
+
+/**
+ * Answers questions across the inventories of detected services
+ */
+export class ServerlessInventoryQuery {
+  private readonly services: ServerlessService[];
+
+  constructor(services: ServerlessService[]) {
+    this.services = services;
+  }
+
+  /**
+   * Find the service that declares a resource, by logical ID, physical name or ARN
+   */
+  findResourceOwner(nameOrArn: string): { service: ServerlessService; resource: ServerlessResource } | undefined {
+    const name = getNameFromArn(nameOrArn);
+
+    for (const service of this.services) {
+      const resource = service.inventory?.resources.find(r =>
+        r.logicalId === nameOrArn || r.name === nameOrArn || r.name === name
+      );
+
+      if (resource) {
+        return { service, resource };
+      }
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Find functions triggered by an event source, e.g. every consumer of a queue
+   */
+  findEventConsumers(type: ServerlessFunctionEvent['type'], source: string): InventoryFunctionMatch[] {
+    const name = getNameFromArn(source);
+    const owner = this.findResourceOwner(source);
+    const matches: InventoryFunctionMatch[] = [];
+
+    for (const service of this.services) {
+      for (const fn of service.inventory?.functions || []) {
+        for (const event of fn.events) {
+          const sameSource = event.source !== undefined &&
+            (event.source === source || getNameFromArn(event.source) === name);
+          // A Ref or Fn::GetAtt only points into the template of its own service
+          const sameResource = event.resource !== undefined && owner?.service === service &&
+            event.resource === owner.resource.logicalId;
+
+          if (event.type === type && (sameSource || sameResource)) {
+            matches.push({ service, function: fn, event });
+          }
+        }
+      }
+    }
+
+    return matches;
+  }
+
+  /**
+   * Find a function by name, optionally within one service
+   */
+  findFunction(name: string, serviceName?: string): InventoryFunctionMatch | undefined {
+    for (const service of this.services) {
+      if (serviceName && service.name !== serviceName) {
+        continue;
+      }
+
+      const fn = service.inventory?.functions.find(f => f.name === name);
+      if (fn) {
+        return { service, function: fn };
+      }
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Find the services that declare a plugin
+   */
+  findServicesUsingPlugin(plugin: string): ServerlessService[] {
+    return this.services.filter(s => s.inventory?.plugins.includes(plugin));
+  }
+}
+
+/**
+ * Get the resource name from an ARN such as `arn:aws:sqs:us-east-1:123:orders` or `arn:aws:s3:::bucket`
+ */
+function getNameFromArn(value: string): string {
+  if (!value.startsWith('arn:')) {
+    return value;
+  }
+
+  const resource = value.split(':').slice(5).join(':');
+  // Streams and tables are `table/orders/stream/...`; keep the resource name
+  return resource.includes('/') ? resource.split('/')[1] || resource : resource;
+}
@@ -0,0 +1,264 @@
+/* eslint-disable no-console */
+import * as fs from 'fs';
+import * as path from 'path';
+import { EventBus, EventTypes } from '@orcdkestrator/core';
+import { InvokeCommandOptions, ServerlessCommandOptions } from './cli';
+import { ServerlessInvokeResult, ServerlessInvokeSummary, ServerlessService } from './types';
+
+/**
+ * The part of ServerlessCLI the invoker needs, so tests can supply a fake
+ */
+export interface InvokeSource {
+  invoke(
+    servicePath: string,
+    functionName: string,
+    stage: string,
+    region?: string,
+    options?: InvokeCommandOptions
+  ): Promise<string>;
+}
+
+/**
+ * A payload file for one function
+ */
+export interface InvokeFixture {
+  function: string;
+  name: string;
+  path: string;
+}
+
+/**
+ * Options for invoking a service's fixtures
+ */
+export interface InvokeRunOptions {
+  stage: string;
+  region?: string;
+  mode?: 'local' | 'remote';
+  functions?: string[];
+  summaryFile?: string;
+  commandOptions?: ServerlessCommandOptions;
+}
+
+// Serverless prints this between the result and the logs of `invoke --log`
+const LOG_SEPARATOR = /^-{20,}$/;
+const REPORT_DURATION = /^REPORT\b.*?\bDuration:\s*([\d.]+)\s*ms/;
+
+/**
+ * Invokes functions with fixture payloads from a service's events/ directory
+ *
+ * Fixtures are keyed by function name: events/<function>.json holds a single
+ * payload, events/<function>/<name>.json holds several named ones
+ */
+export class ServerlessInvoker {
+  private readonly source: InvokeSource;
+  private readonly eventBus: EventBus;
+  private readonly fixturesDirectory: string;
+
+  constructor(source: InvokeSource, eventBus: EventBus, fixturesDirectory = 'events') {
+    this.source = source;
+    this.eventBus = eventBus;
+    this.fixturesDirectory = fixturesDirectory;
+  }
+
+  /**
+   * Find the fixtures of the given functions, defaulting to every known handler
+   */
+  async discoverFixtures(service: ServerlessService, functions?: string[]): Promise<InvokeFixture[]> {
+    const root = path.join(service.path, this.fixturesDirectory);
+    const names = functions || Object.keys(service.handlers || {});
+    const fixtures: InvokeFixture[] = [];
+
+    if (!fs.existsSync(root)) {
+      return fixtures;
+    }
+
+    for (const functionName of names) {
+      const single = path.join(root, `${functionName}.json`);
+      if (fs.existsSync(single)) {
+        fixtures.push({ function: functionName, name: 'default', path: single });
+      }
+
+      const directory = path.join(root, functionName);
+      if (fs.existsSync(directory) && fs.statSync(directory).isDirectory()) {
+        const files = (await fs.promises.readdir(directory))
+          .filter(file => file.endsWith('.json'))
+          .sort();
+
+        for (const file of files) {
+          fixtures.push({
+            function: functionName,
+            name: path.basename(file, '.json'),
+            path: path.join(directory, file)
+          });
+        }
+      }
+    }
+
+    return fixtures;
+  }
+
+  /**
+   * Invoke every fixture of a service in turn and summarize the results
+   */
+  async invokeAll(service: ServerlessService, options: InvokeRunOptions): Promise<ServerlessInvokeSummary> {
+    const mode = options.mode || 'local';
+    const fixtures = await this.discoverFixtures(service, options.functions);
+    const startTime = Date.now();
+    const results: ServerlessInvokeResult[] = [];
+
+    for (const fixture of fixtures) {
+      const result = await this.invoke(service, fixture, options);
+      results.push(result);
+
+      this.eventBus.emitEvent(
+        EventTypes['serverless:invoke:result'],
+        { ...result, service: service.name, stage: options.stage, mode },
+        'ServerlessInvoker'
+      );
+
+      const status = result.success ? '✅' : '❌';
+      console.log(`[serverless] ${status} ${fixture.function} (${fixture.name}) in ${result.duration}ms`);
+    }
+
+    const passed = results.filter(r => r.success).length;
+    const summary: ServerlessInvokeSummary = {
+      service: service.name,
+      stage: options.stage,
+      mode,
+      total: results.length,
+      passed,
+      failed: results.length - passed,
+      duration: Date.now() - startTime,
+      results
+    };
+
+    if (options.summaryFile) {
+      await fs.promises.mkdir(path.dirname(options.summaryFile), { recursive: true });
+      await fs.promises.writeFile(options.summaryFile, JSON.stringify(summary, null, 2));
+    }
+
+    this.eventBus.emitEvent(EventTypes['serverless:invoke:summary'], summary, 'ServerlessInvoker');
+
+    return summary;
+  }
+
+  /**
+   * Invoke one function with one fixture, capturing its result, logs and duration
+   */
+  async invoke(
+    service: ServerlessService,
+    fixture: InvokeFixture,
+    options: InvokeRunOptions
+  ): Promise<ServerlessInvokeResult> {
+    const local = (options.mode || 'local') === 'local';
+    const startTime = Date.now();
+    const base = { function: fixture.function, fixture: fixture.name, fixturePath: fixture.path };
+
+    try {
+      const output = await this.source.invoke(service.path, fixture.function, options.stage, options.region, {
+        ...options.commandOptions,
+        local,
+        path: fixture.path,
+        log: true
+      });
+      const { result, logs } = this.parseOutput(output);
+      const error = this.getFunctionError(result);
+
+      return {
+        ...base,
+        success: !error,
+        duration: Date.now() - startTime,
+        logs,
+        result,
+        reportedDuration: this.getReportedDuration(logs),
+        error
+      };
+    } catch (error) {
+      return {
+        ...base,
+        success: false,
+        duration: Date.now() - startTime,
+        logs: [],
+        error: error instanceof Error ? error.message : String(error)
+      };
+    }
+  }
+
+  /**
+   * Split invoke output into the function's return value and its log lines
+   */
+  parseOutput(output: string): { result?: unknown; logs: string[] } {
+    const lines = output.replace(/\s+$/, '').split(/\r?\n/);
+    const separator = lines.findIndex(line => LOG_SEPARATOR.test(line.trim()));
+
+    // invoke --log: result first, then logs
+    if (separator >= 0) {
+      return {
+        result: this.parseValue(lines.slice(0, separator).join('\n')),
+        logs: lines.slice(separator + 1).filter(line => line.trim())
+      };
+    }
+
+    // invoke local: logs first, the result is the trailing JSON value
+    for (let i = 0; i < lines.length; i++) {
+      const candidate = lines.slice(i).join('\n').trim();
+      if (!candidate) {
+        break;
+      }
+
+      try {
+        return {
+          result: JSON.parse(candidate),
+          logs: lines.slice(0, i).filter(line => line.trim())
+        };
+      } catch {
+        // Not the start of the result yet
+      }
+    }
+
+    return { logs: lines.filter(line => line.trim()) };
+  }
+
+  /**
+   * Parse a result as JSON, falling back to the raw text
+   */
+  private parseValue(text: string): unknown {
+    const trimmed = text.trim();
+
+    if (!trimmed) {
+      return undefined;
+    }
+
+    try {
+      return JSON.parse(trimmed);
+    } catch {
+      return trimmed;
+    }
+  }
+
+  /**
+   * Detect a Lambda error payload returned in place of a result
+   */
+  private getFunctionError(result: unknown): string | undefined {
+    if (result && typeof result === 'object' && 'errorMessage' in result) {
+      const { errorType, errorMessage } = result as { errorType?: string; errorMessage: string };
+      return errorType ? `${errorType}: ${errorMessage}` : String(errorMessage);
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Read the duration Lambda reported in the REPORT line of a remote invocation
+   */
+  private getReportedDuration(logs: string[]): number | undefined {
+    for (const line of logs) {
+      const match = line.match(REPORT_DURATION);
+      if (match) {
+        return parseFloat(match[1]!);
+      }
+    }
+
+    return undefined;
+  }
+}
@@ -0,0 +1,228 @@
+/* eslint-disable no-console */
+import { EventBus, EventTypes } from '@orcdkestrator/core';
+import { LogsCommandOptions } from './cli';
+import { ServerlessLogEntry, ServerlessService } from './types';
+
+/**
+ * The part of ServerlessCLI the streamer needs, so tests can supply a fake
+ */
+export interface LogSource {
+  logs(
+    servicePath: string,
+    functionName: string,
+    stage: string,
+    region?: string,
+    options?: LogsCommandOptions
+  ): Promise<void>;
+}
+
+/**
+ * Options for streaming function logs
+ */
+export interface LogStreamOptions {
+  stage: string;
+  region?: string;
+  tail?: boolean;
+  startTime?: string;
+  filter?: string;
+  echo?: boolean;
+  signal?: AbortSignal;
+  commandOptions?: LogsCommandOptions;
+  onEntry?: (entry: ServerlessLogEntry) => void;
+}
+
+/**
+ * A running log stream across one or more functions
+ */
+export interface LogStream {
+  functions: string[];
+  done: Promise<void>;
+  stop(): void;
+}
+
+const LOG_LEVELS = ['TRACE', 'DEBUG', 'INFO', 'WARN', 'ERROR', 'FATAL'];
+
+/**
+ * Matches timestamped Lambda log lines in raw CloudWatch and Serverless formats:
+ * 2024-01-15T10:00:00.123Z\t<request id>\tINFO\tmessage
+ * 2024-01-15 10:00:00.123 (+00:00)\t<request id>\tINFO\tmessage
+ * 2024-01-15 10:00:00.123 INFO   message
+ */
+const TIMESTAMPED_LINE = new RegExp(
+  '^(\\d{4}-\\d{2}-\\d{2}[ T]\\d{2}:\\d{2}:\\d{2}(?:\\.\\d+)?Z?)(?:\\s*\\(([+-]\\d{2}:\\d{2})\\))?' +
+  '\\s+(?:([0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12})\\s+)?' +
+  `(?:(${LOG_LEVELS.join('|')})\\s+)?(.*)$`
+);
+
+/**
+ * Matches Lambda lifecycle lines: START/END/REPORT with an optional request id
+ */
+const LIFECYCLE_LINE = /^(START|END|REPORT)(?:\s+RequestId:\s*([0-9a-f-]+))?\b\s*(.*)$/;
+
+/**
+ * Parses the log output of one function, carrying the current request id across lines
+ */
+export class LogLineParser {
+  private readonly service: string;
+  private readonly functionName: string;
+  private requestId?: string;
+
+  constructor(service: string, functionName: string) {
+    this.service = service;
+    this.functionName = functionName;
+  }
+
+  /**
+   * Parse a raw output line, returning null for blank lines
+   */
+  parse(raw: string): ServerlessLogEntry | null {
+    const line = raw.replace(/\s+$/, '');
+
+    if (!line.trim()) {
+      return null;
+    }
+
+    const base = { service: this.service, function: this.functionName, raw: line };
+    const lifecycle = line.match(LIFECYCLE_LINE);
+
+    if (lifecycle) {
+      const kind = lifecycle[1]!.toLowerCase() as 'start' | 'end' | 'report';
+      if (lifecycle[2]) {
+        this.requestId = lifecycle[2];
+      }
+
+      const entry: ServerlessLogEntry = {
+        ...base,
+        type: kind,
+        requestId: this.requestId,
+        message: (lifecycle[3] || '').trim()
+      };
+
+      if (kind !== 'start') {
+        this.requestId = undefined;
+      }
+      return entry;
+    }
+
+    const timestamped = line.match(TIMESTAMPED_LINE);
+
+    if (timestamped) {
+      if (timestamped[3]) {
+        this.requestId = timestamped[3];
+      }
+
+      return {
+        ...base,
+        type: 'message',
+        timestamp: this.toIsoTimestamp(timestamped[1]!, timestamped[2]),
+        requestId: this.requestId,
+        level: timestamped[4],
+        message: (timestamped[5] || '').trim()
+      };
+    }
+
+    // Continuation of a multi-line message, e.g. a stack trace
+    return {
+      ...base,
+      type: 'message',
+      requestId: this.requestId,
+      message: line
+    };
+  }
+
+  /**
+   * Normalize a log timestamp and optional UTC offset to ISO 8601
+   */
+  private toIsoTimestamp(timestamp: string, offset?: string): string {
+    const iso = timestamp.replace(' ', 'T');
+
+    if (iso.endsWith('Z')) {
+      return iso;
+    }
+
+    return `${iso}${offset || 'Z'}`;
+  }
+}
+
+/**
+ * Streams logs for several functions at once as structured, prefixed entries
+ */
+export class ServerlessLogStreamer {
+  private readonly source: LogSource;
+  private readonly eventBus: EventBus;
+
+  constructor(source: LogSource, eventBus: EventBus) {
+    this.source = source;
+    this.eventBus = eventBus;
+  }
+
+  /**
+   * Start streaming logs for the given functions of a service
+   */
+  stream(service: ServerlessService, functions: string[], options: LogStreamOptions): LogStream {
+    const controller = new AbortController();
+    const onAbort = (): void => controller.abort();
+    options.signal?.addEventListener('abort', onAbort, { once: true });
+
+    const width = Math.max(0, ...functions.map(f => f.length));
+    const failures: unknown[] = [];
+
+    const runs = functions.map(functionName => {
+      const parser = new LogLineParser(service.name, functionName);
+      const prefix = `[${functionName.padEnd(width)}]`;
+
+      return this.source.logs(service.path, functionName, options.stage, options.region, {
+        ...options.commandOptions,
+        tail: options.tail !== false,
+        startTime: options.startTime,
+        filter: options.filter,
+        signal: controller.signal,
+        onLine: line => {
+          const entry = parser.parse(line);
+          if (entry) {
+            this.publish({ ...entry, prefix }, options);
+          }
+        }
+      }).catch(error => {
+        // Streams ending because they were stopped aren't failures; the first failure stops the others
+        if (!controller.signal.aborted) {
+          failures.push(error);
+          controller.abort();
+        }
+      });
+    });
+
+    const done = Promise.all(runs).then(() => {
+      options.signal?.removeEventListener('abort', onAbort);
+
+      if (failures.length > 0) {
+        throw failures[0];
+      }
+    });
+    // Callers that only stop the stream don't have to handle done
+    done.catch(() => undefined);
+
+    return {
+      functions,
+      done,
+      stop: () => controller.abort()
+    };
+  }
+
+  /**
+   * Deliver a parsed entry to the callback, the event bus and the terminal
+   */
+  private publish(entry: ServerlessLogEntry, options: LogStreamOptions): void {
+    options.onEntry?.(entry);
+
+    this.eventBus.emitEvent(
+      EventTypes['serverless:logs:entry'],
+      entry,
+      'ServerlessLogStreamer'
+    );
+
+    if (options.echo !== false) {
+      console.log(`${entry.prefix} ${entry.raw}`);
+    }
+  }
+}
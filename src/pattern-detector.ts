@@ -1,9 +1,42 @@
 import * as fs from 'fs';
 import * as path from 'path';
 import { glob } from 'fast-glob';
-import * as yaml from 'js-yaml';
 import { EventBus, EventTypes } from '@orcdkestrator/core';
-import { ServerlessPattern, ServerlessService, ServerlessYamlConfig } from './types';
+import { ServerlessConfigLoader, SERVERLESS_CONFIG_FILES } from './config-loader';
+import { ServerlessDependencyScanner, getDependencyStacks } from './dependency-scanner';
+import { buildInventory } from './inventory';
+import { ServerlessComposeReader, SERVERLESS_COMPOSE_FILES } from './compose';
+import { ServerlessScanCache } from './scan-cache';
+import { gitignoreToGlobs } from './gitignore';
+import { ServerlessConfigValidator } from './config-validator';
+import { ServerlessVariableResolver, VariableContext } from './variable-resolver';
+import {
+  ServerlessCompose,
+  ServerlessDetectionConfig,
+  ServerlessDiagnostic,
+  ServerlessPattern,
+  ServerlessService,
+  ServerlessYamlConfig
+} from './types';
+
+// Directories that never hold services
+const DEFAULT_IGNORE = ['**/node_modules/**', '**/dist/**', '**/build/**', '**/.serverless/**'];
+
+/**
+ * Options for detecting services
+ */
+export interface PatternDetectorOptions {
+  configLoader?: ServerlessConfigLoader;
+  dependencyScanner?: ServerlessDependencyScanner;
+  composeReader?: ServerlessComposeReader;
+  validator?: ServerlessConfigValidator;
+  // Where to search and whether to be strict; the cache settings are read by the caller
+  scope?: ServerlessDetectionConfig;
+  // Reuses services parsed from unchanged configs between scans
+  cache?: ServerlessScanCache;
+  // Stage, region and options used to resolve variables in service configs
+  variables?: VariableContext;
+}
 
 /**
  * Detects Serverless Framework services in a project
@@ -11,10 +44,24 @@ import { ServerlessPattern, ServerlessService, ServerlessYamlConfig } from './ty
 export class ServerlessPatternDetector {
   private readonly projectRoot: string;
   private readonly eventBus: EventBus;
+  private readonly configLoader: ServerlessConfigLoader;
+  private readonly dependencyScanner: ServerlessDependencyScanner;
+  private readonly composeReader: ServerlessComposeReader;
+  private readonly validator: ServerlessConfigValidator;
+  private readonly scope: ServerlessDetectionConfig;
+  private readonly cache: ServerlessScanCache | null;
+  private readonly variables: VariableContext;
 
-  constructor(projectRoot: string) {
+  constructor(projectRoot: string, options: PatternDetectorOptions = {}) {
     this.projectRoot = projectRoot;
     this.eventBus = EventBus.getInstance();
+    this.configLoader = options.configLoader || new ServerlessConfigLoader();
+    this.dependencyScanner = options.dependencyScanner || new ServerlessDependencyScanner(this.configLoader);
+    this.composeReader = options.composeReader || new ServerlessComposeReader(this.configLoader);
+    this.validator = options.validator || new ServerlessConfigValidator();
+    this.scope = options.scope || {};
+    this.cache = options.cache || null;
+    this.variables = options.variables || {};
   }
 
   /**
@@ -22,13 +69,30 @@ export class ServerlessPatternDetector {
    */
   async scan(): Promise<ServerlessPattern> {
     this.emitBeforeEvent();
+    await this.cache?.load();
+    
+    // A directory with several configs is one service; use the file Serverless would
+    const configFiles = ServerlessConfigLoader.selectPreferred(await this.findServerlessConfigs());
+    const diagnostics: ServerlessDiagnostic[] = [];
+    const composeProjects = await this.parseComposeFiles(await this.findComposeFiles(), diagnostics);
+    const services = await this.parseServices([
+      ...configFiles,
+      ...this.findComposeConfigs(composeProjects, configFiles)
+    ], diagnostics);
+    this.applyCompose(services, composeProjects);
+    await this.saveCache();
     
-    const configFiles = await this.findServerlessConfigs();
-    const services = await this.parseServices(configFiles);
+    diagnostics.forEach(d => this.emitDiagnosticEvent(d));
+    const errors = diagnostics.filter(d => d.severity === 'error');
+    if (this.scope.strict && errors.length > 0) {
+      throw new Error(`Invalid Serverless configs:\n  - ${errors.map(formatDiagnostic).join('\n  - ')}`);
+    }
     
     const pattern: ServerlessPattern = {
       type: 'serverless',
-      services
+      services,
+      composeProjects,
+      diagnostics
     };
     
     this.emitAfterEvent(pattern);
@@ -39,31 +103,134 @@ export class ServerlessPatternDetector {
    * Find serverless config files
    */
   private async findServerlessConfigs(): Promise<string[]> {
-    const patterns = [
-      'serverless.yml',
-      'serverless.yaml',
-      '**/serverless.yml',
-      '**/serverless.yaml'
+    return this.findFiles(SERVERLESS_CONFIG_FILES);
+  }
+
+  /**
+   * Find serverless-compose files
+   */
+  private async findComposeFiles(): Promise<string[]> {
+    return this.findFiles(SERVERLESS_COMPOSE_FILES);
+  }
+
+  /**
+   * Find files by name within the configured scope
+   */
+  private async findFiles(names: string[]): Promise<string[]> {
+    const patterns = this.scope.include?.length
+      ? this.scope.include.flatMap(dir => names.map(name => path.posix.join(dir, name)))
+      : [...names, ...names.map(name => `**/${name}`)];
+    
+    const ignore = [
+      ...DEFAULT_IGNORE,
+      ...(this.scope.exclude || []),
+      ...(this.scope.respectGitignore !== false ? await this.readGitignore() : [])
     ];
     
     return this.glob(patterns, {
       cwd: this.projectRoot,
       absolute: true,
-      ignore: [
-        '**/node_modules/**',
-        '**/dist/**',
-        '**/build/**',
-        '**/.serverless/**'
-      ]
+      ignore,
+      // fast-glob counts the project root as the first level
+      deep: this.scope.maxDepth !== undefined ? this.scope.maxDepth + 1 : undefined
     });
   }
 
+  /**
+   * Read ignore globs from the project's .gitignore
+   */
+  private async readGitignore(): Promise<string[]> {
+    try {
+      const content = await fs.promises.readFile(path.join(this.projectRoot, '.gitignore'), 'utf-8');
+      return typeof content === 'string' ? gitignoreToGlobs(content) : [];
+    } catch {
+      return [];
+    }
+  }
+
+  /**
+   * Write the scan cache; detection doesn't depend on it succeeding
+   */
+  private async saveCache(): Promise<void> {
+    try {
+      await this.cache?.save();
+    } catch {
+      // Parsed again on the next scan
+    }
+  }
+
+  /**
+   * Read compose files, skipping ones that can't be read
+   */
+  private async parseComposeFiles(files: string[], diagnostics: ServerlessDiagnostic[]): Promise<ServerlessCompose[]> {
+    const projects = await Promise.all(files.map(async file => {
+      if (!this.isPathSafe(file)) {
+        return null;
+      }
+      
+      try {
+        return await this.composeReader.read(file);
+      } catch (error) {
+        diagnostics.push(this.validator.fromError(file, error));
+        return null;
+      }
+    }));
+    
+    return projects.filter(p => p !== null) as ServerlessCompose[];
+  }
+
+  /**
+   * Find configs with custom names that compose services point to
+   */
+  private findComposeConfigs(composeProjects: ServerlessCompose[], configFiles: string[]): string[] {
+    const detected = new Set(configFiles.map(f => path.dirname(f)));
+    
+    return composeProjects.flatMap(project => project.services)
+      .filter(s => s.config && !detected.has(s.path))
+      .map(s => path.join(s.path, s.config!));
+  }
+
+  /**
+   * Link services to their compose definitions and record compose dependencies
+   */
+  private applyCompose(services: ServerlessService[], composeProjects: ServerlessCompose[]): void {
+    for (const project of composeProjects) {
+      const byName = new Map(project.services.map(c => [
+        c.name,
+        services.find(s => path.resolve(s.path) === c.path)
+      ]));
+      
+      for (const composeService of project.services) {
+        const service = byName.get(composeService.name);
+        if (!service) {
+          continue;
+        }
+        
+        service.compose = composeService;
+        const records = [...(service.dependencyRecords || [])];
+        const references = ServerlessComposeReader.findOutputReferences(composeService.params);
+        
+        for (const dependency of composeService.dependsOn) {
+          const stack = byName.get(dependency)?.name || dependency;
+          const outputs = references.filter(r => r.service === dependency).map(r => r.output);
+          
+          for (const output of outputs.length > 0 ? Array.from(new Set(outputs)) : [undefined]) {
+            records.push({ kind: 'compose', stack, output, sourceFile: project.file });
+          }
+        }
+        
+        service.dependencyRecords = records;
+        service.dependencies = getDependencyStacks(records);
+      }
+    }
+  }
+
   /**
    * Parse services from config files
    */
-  private async parseServices(files: string[]): Promise<ServerlessService[]> {
+  private async parseServices(files: string[], diagnostics: ServerlessDiagnostic[]): Promise<ServerlessService[]> {
     const services = await Promise.all(
-      files.map(f => this.parseService(f))
+      files.map(f => this.parseService(f, diagnostics))
     );
     
     return services.filter(s => s !== null) as ServerlessService[];
@@ -72,41 +239,91 @@ export class ServerlessPatternDetector {
   /**
    * Parse a single service file
    */
-  private async parseService(file: string): Promise<ServerlessService | null> {
+  private async parseService(file: string, diagnostics: ServerlessDiagnostic[]): Promise<ServerlessService | null> {
+    // Files outside the project are never read
+    if (!this.isPathSafe(file)) {
+      return null;
+    }
+    
+    const cached = await this.cache?.get(file);
+    if (cached) {
+      return cached;
+    }
+    
+    let raw: ServerlessYamlConfig;
+    try {
+      raw = await this.loadConfig(file);
+    } catch (error) {
+      diagnostics.push(this.validator.fromError(file, error));
+      return null;
+    }
+    
     try {
-      const config = await this.loadYaml(file);
-      return {
+      const { config, stage } = new ServerlessVariableResolver({
+        ...this.variables,
+        servicePath: path.dirname(file)
+      }).resolve(raw);
+      const problems = await this.validator.validate(file, config as unknown as Record<string, unknown>);
+      diagnostics.push(...problems);
+      
+      const dependencyRecords = await this.dependencyScanner.scanConfig(
+        config as unknown as Record<string, unknown>,
+        file,
+        stage
+      );
+      
+      const service: ServerlessService = {
         name: config.service || path.basename(path.dirname(file)),
         path: path.dirname(file),
         configFile: file,
         provider: 'serverless',
-        dependencies: []
+        dependencies: getDependencyStacks(dependencyRecords),
+        dependencyRecords,
+        frameworkVersion: config.frameworkVersion !== undefined ? String(config.frameworkVersion) : undefined,
+        handlers: this.extractHandlers(config),
+        inventory: buildInventory(config)
       };
+      
+      // Services with problems are parsed again so their diagnostics are reported every scan
+      if (problems.length === 0) {
+        await this.cache?.set(file, service, raw as unknown as Record<string, unknown>);
+      }
+      return service;
     } catch (error) {
+      diagnostics.push({
+        file,
+        severity: 'error',
+        message: `Failed to parse config: ${error instanceof Error ? error.message : String(error)}`
+      });
       return null;
     }
   }
 
   /**
-   * Load and parse YAML file
+   * Map function names to their handlers
    */
-  private async loadYaml(file: string): Promise<ServerlessYamlConfig> {
+  private extractHandlers(config: ServerlessYamlConfig): Record<string, string> {
+    const handlers: Record<string, string> = {};
+
+    for (const [name, fn] of Object.entries(config.functions || {})) {
+      if (fn && typeof fn.handler === 'string') {
+        handlers[name] = fn.handler;
+      }
+    }
+
+    return handlers;
+  }
+
+  /**
+   * Load and parse a config file in any supported format
+   */
+  private async loadConfig(file: string): Promise<ServerlessYamlConfig> {
     // Validate path is within project boundaries
     if (!this.isPathSafe(file)) {
       throw new Error(`Invalid path: ${file} is outside project boundaries`);
     }
     
-    // Check file size to prevent DoS attacks
-    const stats = await fs.promises.stat(file);
-    const maxFileSizeMB = 10;
-    const maxFileSize = maxFileSizeMB * 1024 * 1024; // 10MB limit
-    
-    if (stats.size > maxFileSize) {
-      throw new Error(`File ${file} exceeds maximum size limit of ${maxFileSizeMB}MB`);
-    }
-    
-    const content = await fs.promises.readFile(file, 'utf-8');
-    return yaml.load(content) as ServerlessYamlConfig;
+    return await this.configLoader.load(file) as unknown as ServerlessYamlConfig;
   }
 
   /**
@@ -129,16 +346,31 @@ export class ServerlessPatternDetector {
       {
         pattern,
         servicesFound: pattern.services.length,
-        services: pattern.services.map(s => s.name)
+        services: pattern.services.map(s => s.name),
+        dependencies: Object.fromEntries(pattern.services.map(s => [s.name, s.dependencyRecords || []]))
       },
       'ServerlessPatternDetector'
     );
   }
 
+  /**
+   * Emit config diagnostic event
+   */
+  private emitDiagnosticEvent(diagnostic: ServerlessDiagnostic): void {
+    this.eventBus.emitEvent(
+      EventTypes['serverless:config:diagnostic'],
+      diagnostic,
+      'ServerlessPatternDetector'
+    );
+  }
+
   /**
    * Wrapper for glob to enable testing
    */
-  private async glob(patterns: string[], options: { cwd: string; ignore?: string[]; absolute?: boolean }): Promise<string[]> {
+  private async glob(
+    patterns: string[],
+    options: { cwd: string; ignore?: string[]; absolute?: boolean; deep?: number }
+  ): Promise<string[]> {
     return glob(patterns, options);
   }
 
@@ -156,4 +388,12 @@ export class ServerlessPatternDetector {
       return false;
     }
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Format a diagnostic as `file:line:column path: message`
+ */
+function formatDiagnostic(diagnostic: ServerlessDiagnostic): string {
+  const location = [diagnostic.file, diagnostic.line, diagnostic.column].filter(v => v !== undefined).join(':');
+  return `${location}${diagnostic.path ? ` ${diagnostic.path}` : ''}: ${diagnostic.message}`;
+}
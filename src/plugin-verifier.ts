@@ -0,0 +1,310 @@
+import { spawn } from 'child_process';
+import * as fs from 'fs';
+import * as path from 'path';
+import { satisfiesRange } from './version';
+import { ServerlessPluginStatus } from './types';
+
+// Where Serverless looks for local plugins when plugins.localPath isn't set
+const DEFAULT_LOCAL_PLUGIN_PATH = '.serverless_plugins';
+
+const LOCKFILES: Array<[string, PackageManager]> = [
+  ['pnpm-lock.yaml', 'pnpm'],
+  ['yarn.lock', 'yarn'],
+  ['package-lock.json', 'npm']
+];
+
+/**
+ * Package managers the verifier can install plugins with
+ */
+export type PackageManager = 'npm' | 'yarn' | 'pnpm';
+
+// The package.json fields the verifier reads
+interface PackageManifest {
+  version?: unknown;
+  dependencies?: Record<string, unknown>;
+  devDependencies?: Record<string, unknown>;
+}
+
+/**
+ * Plugin statuses and a fix for each one that can't be loaded
+ */
+export interface PluginVerification {
+  plugins: ServerlessPluginStatus[];
+  problems: string[];
+}
+
+/**
+ * Options for verifying plugins
+ */
+export interface PluginVerifierOptions {
+  install?: boolean;
+  packageManager?: PackageManager;
+  // Time allowed for an install in milliseconds (default 300000)
+  installTimeout?: number;
+  // Highest directory searched for package.json, node_modules and lockfiles
+  projectRoot?: string;
+}
+
+/**
+ * Checks that the framework plugins a service declares can be loaded
+ *
+ * npm plugins are looked up in node_modules from the service directory up to
+ * the project root, so hoisted installs in a monorepo are found, and compared
+ * with the nearest package.json that lists them.
+ */
+export class ServerlessPluginVerifier {
+  private readonly options: PluginVerifierOptions;
+
+  constructor(options: PluginVerifierOptions = {}) {
+    this.options = options;
+  }
+
+  /**
+   * Resolve each declared plugin
+   */
+  async verify(servicePath: string, plugins: string[], localPath?: string): Promise<ServerlessPluginStatus[]> {
+    return plugins.map(name => this.isLocal(servicePath, name, localPath)
+      ? this.verifyLocal(servicePath, name, localPath)
+      : this.verifyPackage(servicePath, name));
+  }
+
+  /**
+   * Verify plugins, installing missing ones when enabled, and explain what is still wrong
+   */
+  async ensure(servicePath: string, plugins: string[], localPath?: string): Promise<PluginVerification> {
+    let statuses = await this.verify(servicePath, plugins, localPath);
+
+    if (this.options.install && statuses.some(isProblem)) {
+      await this.install(servicePath, statuses.filter(isProblem));
+      statuses = await this.verify(servicePath, plugins, localPath);
+    }
+
+    return {
+      plugins: statuses,
+      problems: statuses.filter(isProblem).map(p => this.describeProblem(servicePath, p))
+    };
+  }
+
+  /**
+   * Install plugins with the service's package manager
+   */
+  async install(servicePath: string, plugins: ServerlessPluginStatus[]): Promise<void> {
+    const undeclared = plugins.filter(p => p.declared === undefined && !p.name.startsWith('.'));
+    const packageDir = this.findPackageDir(servicePath) || servicePath;
+    const manager = this.options.packageManager || this.detectPackageManager(servicePath);
+
+    // Plugins already in package.json only need an install; others are added as dev dependencies
+    if (plugins.some(p => p.declared !== undefined)) {
+      await this.run(manager, ['install'], packageDir);
+    }
+    if (undeclared.length > 0) {
+      await this.run(manager, [...this.getAddArgs(manager), ...undeclared.map(p => p.name)], packageDir);
+    }
+  }
+
+  /**
+   * Whether a plugin is loaded from a path rather than node_modules
+   */
+  private isLocal(servicePath: string, name: string, localPath?: string): boolean {
+    if (name.startsWith('./') || name.startsWith('../')) {
+      return true;
+    }
+
+    const localDir = path.resolve(servicePath, localPath || DEFAULT_LOCAL_PLUGIN_PATH);
+    return this.findLocalFile(path.join(localDir, name)) !== null;
+  }
+
+  /**
+   * Resolve a plugin from a path relative to the service or the local plugins directory
+   */
+  private verifyLocal(servicePath: string, name: string, localPath?: string): ServerlessPluginStatus {
+    const base = name.startsWith('.') ? servicePath : path.resolve(servicePath, localPath || DEFAULT_LOCAL_PLUGIN_PATH);
+    const location = this.findLocalFile(path.resolve(base, name));
+
+    return location
+      ? { name, status: 'local', location }
+      : { name, status: 'missing' };
+  }
+
+  /**
+   * Resolve an npm plugin and compare it with package.json
+   */
+  private verifyPackage(servicePath: string, name: string): ServerlessPluginStatus {
+    const declared = this.findDeclaredRange(servicePath, name);
+    const installed = this.findInstalled(servicePath, name);
+
+    if (!installed) {
+      return { name, status: 'missing', declared };
+    }
+
+    // Ranges like workspace:*, file:../x or git URLs can't be compared
+    const comparable = declared !== undefined && /^[\^~<>=\d]/.test(declared);
+    const matches = !comparable || satisfiesRange(installed.version, declared!);
+    return {
+      name,
+      status: matches ? 'installed' : 'version-mismatch',
+      declared,
+      installed: installed.version,
+      location: installed.location
+    };
+  }
+
+  /**
+   * Find a local plugin file or directory
+   */
+  private findLocalFile(file: string): string | null {
+    for (const candidate of [file, `${file}.js`, `${file}.cjs`, `${file}.mjs`]) {
+      if (fs.existsSync(candidate)) {
+        return candidate;
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Find the version range of a plugin in the nearest package.json that lists it
+   */
+  private findDeclaredRange(servicePath: string, name: string): string | undefined {
+    for (const dir of this.getSearchDirs(servicePath)) {
+      const manifest = this.readJson(path.join(dir, 'package.json'));
+      const range = manifest?.devDependencies?.[name] ?? manifest?.dependencies?.[name];
+
+      if (typeof range === 'string') {
+        return range;
+      }
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Find an installed plugin package and its version
+   */
+  private findInstalled(servicePath: string, name: string): { version: string; location: string } | null {
+    for (const dir of this.getSearchDirs(servicePath)) {
+      const location = path.join(dir, 'node_modules', name);
+      const manifest = this.readJson(path.join(location, 'package.json'));
+
+      if (manifest) {
+        return { version: String(manifest.version || '0.0.0'), location };
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Get the nearest directory with a package.json
+   */
+  private findPackageDir(servicePath: string): string | null {
+    return this.getSearchDirs(servicePath).find(dir => fs.existsSync(path.join(dir, 'package.json'))) || null;
+  }
+
+  /**
+   * Detect the package manager from the nearest lockfile
+   */
+  private detectPackageManager(servicePath: string): PackageManager {
+    for (const dir of this.getSearchDirs(servicePath)) {
+      const match = LOCKFILES.find(([file]) => fs.existsSync(path.join(dir, file)));
+      if (match) {
+        return match[1];
+      }
+    }
+
+    return 'npm';
+  }
+
+  /**
+   * Directories from the service up to the project root
+   */
+  private getSearchDirs(servicePath: string): string[] {
+    const start = path.resolve(servicePath);
+    const root = path.resolve(this.options.projectRoot || path.parse(start).root);
+    const dirs: string[] = [];
+    let dir = start;
+
+    for (;;) {
+      dirs.push(dir);
+
+      const parent = path.dirname(dir);
+      if (dir === root || parent === dir || !parent.startsWith(root)) {
+        return dirs;
+      }
+      dir = parent;
+    }
+  }
+
+  private getAddArgs(manager: PackageManager): string[] {
+    return manager === 'npm' ? ['install', '--save-dev'] : ['add', '-D'];
+  }
+
+  /**
+   * Explain a plugin problem and how to fix it
+   */
+  private describeProblem(servicePath: string, plugin: ServerlessPluginStatus): string {
+    const manager = this.options.packageManager || this.detectPackageManager(servicePath);
+    const dir = this.findPackageDir(servicePath) || servicePath;
+
+    if (plugin.status === 'version-mismatch') {
+      return `${plugin.name} ${plugin.installed} is installed but package.json wants ${plugin.declared}. ` +
+        `Run \`${manager} install\` in ${dir}.`;
+    }
+
+    if (plugin.name.startsWith('.')) {
+      return `${plugin.name} was not found relative to ${servicePath}.`;
+    }
+
+    if (plugin.declared !== undefined) {
+      return `${plugin.name} is not installed (package.json wants ${plugin.declared}). Run \`${manager} install\` in ${dir}.`;
+    }
+
+    return `${plugin.name} is not in package.json. ` +
+      `Run \`${manager} ${[...this.getAddArgs(manager), plugin.name].join(' ')}\` in ${dir}.`;
+  }
+
+  /**
+   * Run a package manager command
+   */
+  private run(manager: PackageManager, args: string[], cwd: string): Promise<void> {
+    const command = process.platform === 'win32' ? `${manager}.cmd` : manager;
+    const timeout = this.options.installTimeout ?? 300000;
+
+    return new Promise((resolve, reject) => {
+      let output = '';
+      const proc = spawn(command, args, { cwd, stdio: ['ignore', 'pipe', 'pipe'] });
+      const timer = setTimeout(() => proc.kill('SIGKILL'), timeout);
+
+      proc.stdout?.on('data', data => {
+        output += data.toString();
+      });
+      proc.stderr?.on('data', data => {
+        output += data.toString();
+      });
+      proc.on('error', error => {
+        clearTimeout(timer);
+        reject(error);
+      });
+      proc.on('close', code => {
+        clearTimeout(timer);
+        if (code === 0) {
+          resolve();
+        } else {
+          reject(new Error(`${manager} ${args.join(' ')} failed in ${cwd}: ${output.trim().slice(-2000) || `exit code ${code}`}`));
+        }
+      });
+    });
+  }
+
+  private readJson(file: string): PackageManifest | null {
+    try {
+      return JSON.parse(fs.readFileSync(file, 'utf-8')) as PackageManifest;
+    } catch {
+      return null;
+    }
+  }
+}
+
+function isProblem(plugin: ServerlessPluginStatus): boolean {
+  return plugin.status === 'missing' || plugin.status === 'version-mismatch';
+}
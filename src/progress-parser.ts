@@ -0,0 +1,171 @@
+import { EventBus, EventTypes } from '@orcdkestrator/core';
+import { ServerlessDeployPhase, ServerlessEventPayloads } from './types';
+
+/**
+ * What a single line of CLI output says about deploy progress
+ */
+export type ProgressSignal =
+  | { kind: 'phase'; phase: ServerlessDeployPhase; message: string }
+  | { kind: 'resource'; message: string; resource: { status: string; type: string; logicalId: string } };
+
+// eslint-disable-next-line no-control-regex
+const ANSI_ESCAPE = /\u001b\[[0-9;]*[A-Za-z]/g;
+// v1/v2 prefix and v3/v4 spinner and status symbols
+const LINE_DECORATION = /^(?:Serverless:\s*|[✔✖✓✗⠋⠙⠹⠸⠼⠴⠦⠧⠇⠏]\s*)/;
+
+// Phase markers across Serverless v2 to v4 output, checked in order
+const PHASE_PATTERNS: Array<{ phase: ServerlessDeployPhase; pattern: RegExp }> = [
+  {
+    phase: 'complete',
+    pattern: /^(?:Service deployed|Stack update finished|No changes to deploy|Service files not changed)/i
+  },
+  // The initial "Creating Stack" of a first v2 deploy only creates the deployment bucket, so isn't a marker
+  {
+    phase: 'stack-update',
+    pattern: /^(?:Updating (?:CloudFormation )?Stack|Checking Stack update progress|Creating new change set|Executing created change set)/i
+  },
+  { phase: 'uploading', pattern: /^Uploading/i },
+  { phase: 'packaging', pattern: /^(?:Packaging|Excluding development dependencies)/i }
+];
+
+// Resource status lines printed with --verbose, e.g.
+// "CloudFormation - UPDATE_IN_PROGRESS - AWS::Lambda::Function - HelloLambdaFunction" (v2)
+// "UPDATE_COMPLETE - AWS::Lambda::Function - HelloLambdaFunction" (v3/v4)
+const RESOURCE_LINE = /^(?:CloudFormation - )?([A-Z_]+_(?:IN_PROGRESS|COMPLETE|FAILED|SKIPPED))\s+-\s+((?:AWS|Custom)::\S+)\s+-\s+(\S+)/;
+
+// Later phases never move progress back to earlier ones
+const PHASE_ORDER: ServerlessDeployPhase[] = ['packaging', 'uploading', 'stack-update', 'complete'];
+
+/**
+ * Classify a line of Serverless CLI output
+ */
+export function parseProgressLine(raw: string): ProgressSignal | null {
+  const line = raw.replace(ANSI_ESCAPE, '').trim().replace(LINE_DECORATION, '');
+
+  if (!line) {
+    return null;
+  }
+
+  const resource = line.match(RESOURCE_LINE);
+  if (resource) {
+    return {
+      kind: 'resource',
+      message: line,
+      resource: { status: resource[1]!, type: resource[2]!, logicalId: resource[3]! }
+    };
+  }
+
+  for (const { phase, pattern } of PHASE_PATTERNS) {
+    if (pattern.test(line)) {
+      return { kind: 'phase', phase, message: line };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Turns the output of a service's package and deploy commands into
+ * serverless:deploy:progress events with elapsed times
+ */
+export class DeployProgressTracker {
+  private readonly eventBus: EventBus;
+  private readonly service: string;
+  private readonly stage: string;
+  private readonly startTime = Date.now();
+  private phase: ServerlessDeployPhase | null = null;
+  private phaseStartTime = 0;
+
+  constructor(eventBus: EventBus, service: string, stage: string) {
+    this.eventBus = eventBus;
+    this.service = service;
+    this.stage = stage;
+  }
+
+  /**
+   * Line callback to pass to ServerlessCLI commands
+   */
+  readonly onLine = (line: string): void => {
+    const signal = parseProgressLine(line);
+
+    if (!signal) {
+      return;
+    }
+
+    if (signal.kind === 'phase') {
+      this.enter(signal.phase, signal.message);
+      return;
+    }
+
+    // Resource events only happen while the stack is updating
+    this.enter('stack-update', 'Updating CloudFormation stack');
+    this.emit({
+      phase: 'stack-update',
+      status: 'resource',
+      message: signal.message,
+      phaseElapsed: Date.now() - this.phaseStartTime,
+      resource: signal.resource
+    });
+  };
+
+  /**
+   * Move to a phase, completing the current one; moving backwards is ignored
+   */
+  enter(phase: ServerlessDeployPhase, message: string): void {
+    if (this.phase && PHASE_ORDER.indexOf(phase) <= PHASE_ORDER.indexOf(this.phase)) {
+      return;
+    }
+
+    this.completeCurrentPhase('completed');
+
+    this.phase = phase;
+    this.phaseStartTime = Date.now();
+    this.emit({ phase, status: phase === 'complete' ? 'completed' : 'started', message });
+  }
+
+  /**
+   * Close the current phase once the commands have finished
+   */
+  finish(success: boolean): void {
+    if (success) {
+      this.enter('complete', 'Finished');
+    } else {
+      this.completeCurrentPhase('failed');
+      this.phase = null;
+    }
+  }
+
+  /**
+   * Emit the end of the current phase
+   */
+  private completeCurrentPhase(status: 'completed' | 'failed'): void {
+    if (!this.phase || this.phase === 'complete') {
+      return;
+    }
+
+    this.emit({
+      phase: this.phase,
+      status,
+      message: status === 'failed' ? `Failed during ${this.phase}` : `Finished ${this.phase}`,
+      phaseElapsed: Date.now() - this.phaseStartTime
+    });
+  }
+
+  /**
+   * Emit a progress event for this service
+   */
+  private emit(
+    progress: Omit<ServerlessEventPayloads['serverless:deploy:progress'], 'service' | 'stage' | 'elapsed'>
+  ): void {
+    this.eventBus.emitEvent(
+      EventTypes['serverless:deploy:progress'],
+      {
+        service: this.service,
+        stage: this.stage,
+        elapsed: Date.now() - this.startTime,
+        ...progress
+      },
+      'DeployProgressTracker'
+    );
+  }
+}
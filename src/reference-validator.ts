@@ -0,0 +1,214 @@
+import { CdkOutputIndex } from './cdk-output-index';
+import { AWSProfileConfig, StackInspector } from './stack-inspector';
+import { ServerlessDependency, ServerlessReferenceCheck, ServerlessReferenceReport } from './types';
+
+/**
+ * Options for validating references
+ */
+export interface ReferenceValidatorOptions {
+  // Checks stacks, parameters and exports that aren't in cdk.out against AWS
+  inspector?: StackInspector;
+  profile?: AWSProfileConfig;
+}
+
+/**
+ * Checks that the outputs, exports and SSM parameters services read exist
+ *
+ * References are looked up in the synthesized CDK templates first. A stack
+ * in cdk.out declares all of its outputs, so a missing output there is
+ * definitive. Anything else may be created outside CDK, so without online
+ * checks it's unverified, with a suggestion when a similar name exists.
+ */
+export class ServerlessReferenceValidator {
+  private readonly index: CdkOutputIndex;
+  private readonly inspector: StackInspector | null;
+  private readonly profile: AWSProfileConfig;
+  // Shared by every reference to the same stack or region
+  private readonly stackOutputs = new Map<string, Promise<Record<string, string> | null>>();
+  private readonly exportNames = new Map<string, Promise<string[]>>();
+
+  constructor(index: CdkOutputIndex, options: ReferenceValidatorOptions = {}) {
+    this.index = index;
+    this.inspector = options.inspector || null;
+    this.profile = options.profile || {};
+  }
+
+  /**
+   * Check every SSM, CloudFormation and import reference of a service
+   */
+  async validate(service: string, stage: string, dependencies: ServerlessDependency[]): Promise<ServerlessReferenceReport> {
+    const checks: ServerlessReferenceCheck[] = [];
+
+    for (const dependency of dependencies) {
+      const check = await this.check(dependency);
+      if (check) {
+        checks.push(check);
+      }
+    }
+
+    return { service, stage, passed: checks.every(c => c.status !== 'missing'), checks };
+  }
+
+  /**
+   * Check one reference; other kinds of references aren't checked
+   */
+  private async check(dependency: ServerlessDependency): Promise<ServerlessReferenceCheck | null> {
+    switch (dependency.kind) {
+      case 'cloudformation':
+        return dependency.stack && dependency.output ? this.checkOutput(dependency, dependency.stack, dependency.output) : null;
+      case 'ssm':
+        return dependency.parameter ? this.checkParameter(dependency, dependency.parameter) : null;
+      case 'import':
+        return dependency.exportName ? this.checkExport(dependency, dependency.exportName) : null;
+      default:
+        return null;
+    }
+  }
+
+  private async checkOutput(dependency: ServerlessDependency, stack: string, output: string): Promise<ServerlessReferenceCheck> {
+    const synthesized = this.index.getOutputNames(stack);
+    if (synthesized) {
+      return synthesized.includes(output)
+        ? { dependency, status: 'ok', checkedIn: 'cdk.out' }
+        : this.missing(dependency, 'cdk.out', `Output '${output}' is not declared by stack '${stack}'`, output, synthesized);
+    }
+
+    if (!this.inspector) {
+      return this.unverified(dependency, `Stack '${stack}' is not in cdk.out`, stack, this.index.getStackNames());
+    }
+
+    const deployed = await this.getStackOutputs(stack, dependency.region);
+    if (!deployed) {
+      return this.missing(dependency, 'aws', `Stack '${stack}' does not exist`, stack, this.index.getStackNames());
+    }
+
+    return output in deployed
+      ? { dependency, status: 'ok', checkedIn: 'aws' }
+      : this.missing(dependency, 'aws', `Stack '${stack}' has no output '${output}'`, output, Object.keys(deployed));
+  }
+
+  private async checkParameter(dependency: ServerlessDependency, name: string): Promise<ServerlessReferenceCheck> {
+    if (this.index.findParameter(name)) {
+      return { dependency, status: 'ok', checkedIn: 'cdk.out' };
+    }
+
+    if (this.inspector && await this.inspector.hasParameter(name, this.getProfile(dependency.region))) {
+      return { dependency, status: 'ok', checkedIn: 'aws' };
+    }
+
+    return this.inspector
+      ? this.missing(dependency, 'aws', `SSM parameter '${name}' does not exist`, name, this.index.getParameterNames())
+      : this.unverified(dependency, `SSM parameter '${name}' is not written by a CDK stack`, name, this.index.getParameterNames());
+  }
+
+  private async checkExport(dependency: ServerlessDependency, name: string): Promise<ServerlessReferenceCheck> {
+    if (this.index.findExport(name)) {
+      return { dependency, status: 'ok', checkedIn: 'cdk.out' };
+    }
+
+    if (!this.inspector) {
+      return this.unverified(dependency, `Export '${name}' is not declared by a CDK stack`, name, this.index.getExportNames());
+    }
+
+    const exported = await this.getExportNames(dependency.region);
+    return exported.includes(name)
+      ? { dependency, status: 'ok', checkedIn: 'aws' }
+      : this.missing(dependency, 'aws', `Export '${name}' does not exist`, name, [...this.index.getExportNames(), ...exported]);
+  }
+
+  private missing(
+    dependency: ServerlessDependency,
+    checkedIn: ServerlessReferenceCheck['checkedIn'],
+    message: string,
+    name: string,
+    candidates: string[]
+  ): ServerlessReferenceCheck {
+    const suggestion = findClosestName(name, candidates);
+    return {
+      dependency,
+      status: 'missing',
+      checkedIn,
+      message: suggestion ? `${message}. Did you mean '${suggestion}'?` : message,
+      suggestion
+    };
+  }
+
+  /**
+   * Report a reference that can't be checked offline, suggesting a known name it may be a typo of
+   */
+  private unverified(dependency: ServerlessDependency, message: string, name: string, candidates: string[]): ServerlessReferenceCheck {
+    const suggestion = findClosestName(name, candidates);
+    return {
+      dependency,
+      status: 'unverified',
+      message: suggestion ? `${message}. Did you mean '${suggestion}'?` : message,
+      suggestion
+    };
+  }
+
+  private getStackOutputs(stack: string, region?: string): Promise<Record<string, string> | null> {
+    const key = `${region}|${stack}`;
+    if (!this.stackOutputs.has(key)) {
+      this.stackOutputs.set(key, this.inspector!.getStackOutputs(stack, this.getProfile(region)));
+    }
+    return this.stackOutputs.get(key)!;
+  }
+
+  private getExportNames(region?: string): Promise<string[]> {
+    const key = String(region);
+    if (!this.exportNames.has(key)) {
+      this.exportNames.set(key, this.inspector!.listExports(this.getProfile(region)));
+    }
+    return this.exportNames.get(key)!;
+  }
+
+  private getProfile(region?: string): AWSProfileConfig {
+    return region ? { ...this.profile, region } : this.profile;
+  }
+}
+
+/**
+ * Find the candidate closest to a name, if it's close enough to be a typo
+ *
+ * Allows one edit per three characters (at least two), ignoring case.
+ */
+export function findClosestName(name: string, candidates: string[]): string | undefined {
+  const limit = Math.max(2, Math.floor(name.length / 3));
+  let closest: string | undefined;
+  let closestDistance = Infinity;
+
+  for (const candidate of new Set(candidates)) {
+    if (candidate === name) {
+      continue;
+    }
+
+    const distance = getEditDistance(name.toLowerCase(), candidate.toLowerCase());
+    if (distance <= limit && distance < closestDistance) {
+      closest = candidate;
+      closestDistance = distance;
+    }
+  }
+
+  return closest;
+}
+
+/**
+ * Levenshtein distance between two strings
+ */
+function getEditDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j]! + 1,
+        current[j - 1]! + 1,
+        previous[j - 1]! + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+
+  return previous[b.length]!;
+}
@@ -0,0 +1,147 @@
+import { ServerlessRetryClassifier, ServerlessRetryPolicy } from './types';
+
+/**
+ * Transient failures retried by default, matched against the command's error output
+ */
+export const DEFAULT_RETRY_CLASSIFIERS: ServerlessRetryClassifier[] = [
+  {
+    reason: 'throttling',
+    pattern: 'Throttling|Rate exceeded|TooManyRequestsException|SlowDown'
+  },
+  {
+    reason: 'stack-busy',
+    pattern: 'is in [A-Z_]+_IN_PROGRESS state|is currently being updated',
+    waitForStack: true
+  },
+  {
+    reason: 'network',
+    pattern: 'ECONNRESET|ETIMEDOUT|EAI_AGAIN|EPIPE|socket hang up|NetworkingError|RequestTimeout'
+  }
+];
+
+/**
+ * Why a failure is worth retrying
+ */
+export interface RetryClassification {
+  reason: string;
+  waitForStack: boolean;
+}
+
+/**
+ * Details of an upcoming retry
+ */
+export interface RetryAttempt {
+  attempt: number;
+  maxAttempts: number;
+  delay: number;
+  classification: RetryClassification;
+  error: Error;
+}
+
+/**
+ * Options for a single retried operation
+ */
+export interface RetryRunOptions {
+  signal?: AbortSignal;
+  // Called before waiting out the delay, e.g. to report the retry or wait for a stack
+  onRetry?: (attempt: RetryAttempt) => Promise<void> | void;
+}
+
+/**
+ * Retries operations that fail with classified transient errors, using exponential backoff
+ */
+export class RetryPolicy {
+  readonly maxAttempts: number;
+  private readonly initialDelay: number;
+  private readonly maxDelay: number;
+  private readonly backoffFactor: number;
+  private readonly classifiers: Array<{ reason: string; pattern: RegExp; waitForStack: boolean }>;
+
+  constructor(config: ServerlessRetryPolicy = {}) {
+    this.maxAttempts = Math.max(1, config.maxAttempts ?? 3);
+    this.initialDelay = config.initialDelay ?? 5000;
+    this.maxDelay = config.maxDelay ?? 60000;
+    this.backoffFactor = config.backoffFactor ?? 2;
+
+    // Custom classifiers take precedence over the defaults
+    this.classifiers = [...(config.classifiers || []), ...DEFAULT_RETRY_CLASSIFIERS].map(c => {
+      try {
+        return { reason: c.reason, pattern: new RegExp(c.pattern, 'i'), waitForStack: c.waitForStack === true };
+      } catch (error) {
+        throw new Error(`Invalid retry classifier '${c.reason}': ${error instanceof Error ? error.message : error}`);
+      }
+    });
+  }
+
+  /**
+   * Classify an error, returning null when it shouldn't be retried
+   */
+  classify(error: unknown): RetryClassification | null {
+    const message = error instanceof Error ? error.message : String(error);
+
+    for (const classifier of this.classifiers) {
+      if (classifier.pattern.test(message)) {
+        return { reason: classifier.reason, waitForStack: classifier.waitForStack };
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Delay before the given retry (1-based), capped at maxDelay
+   */
+  getDelay(retry: number): number {
+    return Math.min(this.maxDelay, this.initialDelay * Math.pow(this.backoffFactor, retry - 1));
+  }
+
+  /**
+   * Run an operation, retrying classified failures until maxAttempts is reached
+   */
+  async run<T>(operation: (attempt: number) => Promise<T>, options: RetryRunOptions = {}): Promise<T> {
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await operation(attempt);
+      } catch (error) {
+        const classification = this.classify(error);
+
+        if (!classification || attempt >= this.maxAttempts || options.signal?.aborted) {
+          throw error;
+        }
+
+        const delay = this.getDelay(attempt);
+        await options.onRetry?.({
+          attempt,
+          maxAttempts: this.maxAttempts,
+          delay,
+          classification,
+          error: error instanceof Error ? error : new Error(String(error))
+        });
+        await this.sleep(delay, options.signal);
+      }
+    }
+  }
+
+  /**
+   * Wait for a delay, rejecting early if aborted
+   */
+  private sleep(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(new Error('Retry aborted'));
+        return;
+      }
+
+      const onAbort = (): void => {
+        clearTimeout(timer);
+        reject(new Error('Retry aborted'));
+      };
+      const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+      }, ms);
+
+      signal?.addEventListener('abort', onAbort, { once: true });
+    });
+  }
+}
@@ -0,0 +1,165 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { ServerlessService } from './types';
+
+const CACHE_VERSION = 1;
+const SCRIPT_EXTENSIONS = new Set(['.js', '.cjs', '.mjs', '.ts']);
+const ENV_REFERENCE = /\$\{env:([a-zA-Z_][a-zA-Z0-9_]*)/g;
+const FILE_REFERENCE = /\$\{file\(([^)]+)\)/g;
+
+/**
+ * A parsed service and what it was parsed from
+ */
+interface ScanCacheEntry {
+  mtimeMs: number;
+  size: number;
+  // Other files and environment variables the config reads, checked along with the config
+  files: Record<string, number>;
+  env: Record<string, string | null>;
+  service: ServerlessService;
+}
+
+interface ScanCacheContent {
+  version: number;
+  context: string;
+  entries: Record<string, ScanCacheEntry>;
+}
+
+/**
+ * On-disk cache of parsed services, keyed by config path and mtime
+ *
+ * An entry is reused while the config, the files it includes with
+ * `${file(...)}` and the environment variables it reads are unchanged. JS and
+ * TS configs can read anything, so they're always parsed again.
+ */
+export class ServerlessScanCache {
+  private readonly file: string;
+  private readonly context: string;
+  private entries: Record<string, ScanCacheEntry> = {};
+  private readonly seen = new Set<string>();
+
+  /**
+   * @param context Anything else parsing depends on, e.g. the stage; a different context discards the cache
+   */
+  constructor(file: string, context: unknown = {}) {
+    this.file = file;
+    this.context = JSON.stringify(context);
+  }
+
+  /**
+   * Read the cache from disk, starting empty when it's missing, unreadable or stale
+   */
+  async load(): Promise<void> {
+    this.entries = {};
+    this.seen.clear();
+
+    try {
+      const content = JSON.parse(await fs.promises.readFile(this.file, 'utf-8')) as ScanCacheContent;
+
+      if (content.version === CACHE_VERSION && content.context === this.context && content.entries) {
+        this.entries = content.entries;
+      }
+    } catch {
+      // No usable cache yet
+    }
+  }
+
+  /**
+   * Get the cached service for a config, if nothing it was parsed from has changed
+   */
+  async get(configFile: string): Promise<ServerlessService | null> {
+    this.seen.add(configFile);
+    const entry = this.entries[configFile];
+
+    if (!entry) {
+      return null;
+    }
+
+    const stats = await this.stat(configFile);
+    const unchanged = stats !== null &&
+      stats.mtimeMs === entry.mtimeMs &&
+      stats.size === entry.size &&
+      await this.filesUnchanged(entry.files) &&
+      Object.entries(entry.env).every(([name, value]) => (process.env[name] ?? null) === value);
+
+    return unchanged ? JSON.parse(JSON.stringify(entry.service)) : null;
+  }
+
+  /**
+   * Remember a parsed service along with the raw config it came from
+   */
+  async set(configFile: string, service: ServerlessService, raw: Record<string, unknown>): Promise<void> {
+    this.seen.add(configFile);
+    delete this.entries[configFile];
+
+    const stats = await this.stat(configFile);
+    if (!stats || SCRIPT_EXTENSIONS.has(path.extname(configFile))) {
+      return;
+    }
+
+    const text = JSON.stringify(raw);
+    const files: Record<string, number> = {};
+
+    for (const [, reference] of text.matchAll(FILE_REFERENCE)) {
+      // Paths built from variables can't be checked
+      if (reference!.includes('${')) {
+        return;
+      }
+
+      const included = path.resolve(path.dirname(configFile), reference!.trim().replace(/^['"]|['"]$/g, ''));
+      files[included] = (await this.stat(included))?.mtimeMs ?? -1;
+    }
+
+    const env: Record<string, string | null> = {};
+    for (const [, name] of text.matchAll(ENV_REFERENCE)) {
+      env[name!] = process.env[name!] ?? null;
+    }
+
+    this.entries[configFile] = {
+      mtimeMs: stats.mtimeMs,
+      size: stats.size,
+      files,
+      env,
+      service: JSON.parse(JSON.stringify(service))
+    };
+  }
+
+  /**
+   * Write the cache, dropping configs that weren't seen since it was loaded
+   */
+  async save(): Promise<void> {
+    const entries: Record<string, ScanCacheEntry> = {};
+
+    for (const file of this.seen) {
+      if (this.entries[file]) {
+        entries[file] = this.entries[file]!;
+      }
+    }
+
+    const content: ScanCacheContent = { version: CACHE_VERSION, context: this.context, entries };
+
+    await fs.promises.mkdir(path.dirname(this.file), { recursive: true });
+    await fs.promises.writeFile(this.file, JSON.stringify(content));
+  }
+
+  /**
+   * Check that files a config includes still have the recorded mtimes
+   */
+  private async filesUnchanged(files: Record<string, number>): Promise<boolean> {
+    for (const [file, mtimeMs] of Object.entries(files)) {
+      if (((await this.stat(file))?.mtimeMs ?? -1) !== mtimeMs) {
+        return false;
+      }
+    }
+
+    return true;
+  }
+
+  private async stat(file: string): Promise<fs.Stats | null> {
+    try {
+      return await fs.promises.stat(file);
+    } catch {
+      return null;
+    }
+  }
+}
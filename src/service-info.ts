@@ -0,0 +1,256 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { StackInspector } from './stack-inspector';
+import { parseHttpEvent } from './inventory';
+import {
+  ServiceInfo,
+  ServiceEndpoint,
+  ServiceFunctionInfo,
+  ServiceLayerInfo,
+  ServiceApiKeyInfo
+} from './types';
+
+const STATE_FILE = 'serverless-state.json';
+const UPDATE_TEMPLATE_FILE = 'cloudformation-template-update-stack.json';
+
+// The parts of serverless-state.json the reader uses
+interface ServerlessFunctionState {
+  name?: string;
+  handler?: string;
+  runtime?: string;
+  memorySize?: number;
+  timeout?: number;
+  events?: Array<Record<string, unknown>>;
+}
+
+interface ServerlessServiceState {
+  service?: string | { name?: string };
+  serviceObject?: { name?: string };
+  provider?: {
+    region?: string;
+    stackName?: string;
+    runtime?: string;
+    memorySize?: number;
+    timeout?: number;
+  };
+  functions?: Record<string, ServerlessFunctionState | null>;
+  layers?: Record<string, unknown>;
+}
+
+interface ServerlessState {
+  service?: ServerlessServiceState;
+}
+
+// The parts of the compiled CloudFormation template the reader uses
+interface CompiledTemplate {
+  Resources?: Record<string, { Type?: string; Properties?: { Name?: string } } | null>;
+}
+
+/**
+ * Options for reading service info
+ */
+export interface ServiceInfoOptions {
+  packagePath?: string;
+  region?: string;
+  profile?: string;
+}
+
+/**
+ * Builds a typed ServiceInfo model from the .serverless state files
+ * and the outputs of the deployed CloudFormation stack
+ */
+export class ServiceInfoReader {
+  private readonly stackInspector: StackInspector | null;
+
+  constructor(stackInspector?: StackInspector) {
+    this.stackInspector = stackInspector || null;
+  }
+
+  /**
+   * Read service info for a packaged or deployed service
+   */
+  async read(servicePath: string, stage: string, options: ServiceInfoOptions = {}): Promise<ServiceInfo> {
+    const serverlessDir = options.packagePath || path.join(servicePath, '.serverless');
+    const state = await this.readJson<ServerlessState>(path.join(serverlessDir, STATE_FILE));
+
+    if (!state || !state.service) {
+      throw new Error(`Serverless state not found in ${serverlessDir}. Package or deploy the service first.`);
+    }
+
+    const template = await this.readJson<CompiledTemplate>(path.join(serverlessDir, UPDATE_TEMPLATE_FILE)) || {};
+    const serviceObject = state.service;
+    const provider = serviceObject.provider || {};
+
+    const service = this.getServiceName(serviceObject);
+    const region = provider.region || options.region || 'us-east-1';
+    const stackName = provider.stackName || `${service}-${stage}`;
+    const outputs = await this.getStackOutputs(stackName, region, options.profile);
+
+    return {
+      service,
+      stage,
+      region,
+      stackName,
+      endpoints: this.extractEndpoints(serviceObject.functions || {}, outputs),
+      functions: this.extractFunctions(serviceObject, service, stage, outputs),
+      layers: this.extractLayers(serviceObject.layers || {}, outputs),
+      apiKeys: this.extractApiKeys(template),
+      outputs
+    };
+  }
+
+  /**
+   * Get the service name from the state's service object
+   */
+  private getServiceName(serviceObject: ServerlessServiceState): string {
+    if (typeof serviceObject.service === 'string') {
+      return serviceObject.service;
+    }
+
+    return serviceObject.serviceObject?.name || serviceObject.service?.name || 'unknown';
+  }
+
+  /**
+   * Get deployed stack outputs, tolerating a missing stack or inspector
+   */
+  private async getStackOutputs(stackName: string, region: string, profile?: string): Promise<Record<string, string>> {
+    if (!this.stackInspector) {
+      return {};
+    }
+
+    try {
+      return await this.stackInspector.getStackOutputs(stackName, { region, profile }) || {};
+    } catch {
+      return {};
+    }
+  }
+
+  /**
+   * Extract function details, applying provider-level defaults
+   */
+  private extractFunctions(
+    serviceObject: ServerlessServiceState,
+    service: string,
+    stage: string,
+    outputs: Record<string, string>
+  ): ServiceFunctionInfo[] {
+    const provider = serviceObject.provider || {};
+
+    return Object.entries(serviceObject.functions || {}).map(([name, fn]) => ({
+      name,
+      functionName: fn?.name || `${service}-${stage}-${name}`,
+      handler: fn?.handler,
+      runtime: fn?.runtime || provider.runtime,
+      memorySize: fn?.memorySize || provider.memorySize,
+      timeout: fn?.timeout || provider.timeout,
+      arn: outputs[`${this.normalizeName(name)}LambdaFunctionQualifiedArn`]
+    }));
+  }
+
+  /**
+   * Extract http, httpApi and websocket endpoints from function events
+   */
+  private extractEndpoints(functions: Record<string, ServerlessFunctionState | null>, outputs: Record<string, string>): ServiceEndpoint[] {
+    const endpoints: ServiceEndpoint[] = [];
+
+    for (const [name, fn] of Object.entries(functions)) {
+      for (const event of fn?.events || []) {
+        if (event.http) {
+          const { method, path: eventPath } = parseHttpEvent(event.http);
+          endpoints.push({
+            type: 'http',
+            function: name,
+            method,
+            path: eventPath,
+            url: this.joinUrl(outputs.ServiceEndpoint, eventPath)
+          });
+        } else if (event.httpApi) {
+          const { method, path: eventPath } = parseHttpEvent(event.httpApi);
+          endpoints.push({
+            type: 'httpApi',
+            function: name,
+            method,
+            path: eventPath,
+            url: this.joinUrl(outputs.HttpApiUrl, eventPath)
+          });
+        } else if (event.websocket) {
+          const route = typeof event.websocket === 'string' ? event.websocket : (event.websocket as { route?: string }).route;
+          endpoints.push({
+            type: 'websocket',
+            function: name,
+            path: route,
+            url: outputs.ServiceEndpointWebsocket
+          });
+        }
+      }
+    }
+
+    return endpoints;
+  }
+
+  /**
+   * Join a base URL and an event path
+   */
+  private joinUrl(base: string | undefined, eventPath: string | undefined): string | undefined {
+    if (!base) {
+      return undefined;
+    }
+
+    if (!eventPath || eventPath === '*') {
+      return base;
+    }
+
+    return `${base.replace(/\/+$/, '')}/${eventPath.replace(/^\/+/, '')}`;
+  }
+
+  /**
+   * Extract layers with their published ARNs
+   */
+  private extractLayers(layers: Record<string, unknown>, outputs: Record<string, string>): ServiceLayerInfo[] {
+    return Object.keys(layers).map(name => ({
+      name,
+      arn: outputs[`${this.normalizeName(name)}LambdaLayerQualifiedArn`]
+    }));
+  }
+
+  /**
+   * Extract API keys declared in the compiled template
+   */
+  private extractApiKeys(template: CompiledTemplate): ServiceApiKeyInfo[] {
+    const apiKeys: ServiceApiKeyInfo[] = [];
+
+    for (const [logicalId, resource] of Object.entries(template.Resources || {})) {
+      if (resource?.Type === 'AWS::ApiGateway::ApiKey') {
+        apiKeys.push({
+          name: resource.Properties?.Name || logicalId,
+          logicalId
+        });
+      }
+    }
+
+    return apiKeys;
+  }
+
+  /**
+   * Normalize a function or layer name the way Serverless does for logical IDs
+   */
+  private normalizeName(name: string): string {
+    const normalized = name.replace(/-/g, 'Dash').replace(/_/g, 'Underscore');
+    return normalized.charAt(0).toUpperCase() + normalized.slice(1);
+  }
+
+  /**
+   * Read a JSON file, returning null when it does not exist
+   */
+  private async readJson<T>(file: string): Promise<T | null> {
+    try {
+      const content = await fs.promises.readFile(file, 'utf-8');
+      return JSON.parse(content) as T;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException)?.code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+  }
+}
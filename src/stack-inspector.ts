@@ -1,6 +1,12 @@
 /* eslint-disable no-console, @typescript-eslint/no-explicit-any */
-import { CloudFormationClient, DescribeStacksCommand, DescribeStacksCommandOutput, Stack } from '@aws-sdk/client-cloudformation';
-import { SSMClient, GetParametersByPathCommand } from '@aws-sdk/client-ssm';
+import {
+  CloudFormationClient,
+  DescribeStacksCommand,
+  DescribeStacksCommandOutput,
+  ListExportsCommand,
+  Stack
+} from '@aws-sdk/client-cloudformation';
+import { SSMClient, GetParameterCommand, GetParametersByPathCommand } from '@aws-sdk/client-ssm';
 import { EventBus, EventTypes } from '@orcdkestrator/core';
 
 /**
@@ -129,6 +135,88 @@ export class StackInspector {
     }
   }
 
+  /**
+   * Get the outputs of a deployed stack, or null if the stack does not exist
+   */
+  async getStackOutputs(
+    stackName: string,
+    profileConfig: AWSProfileConfig = {}
+  ): Promise<Record<string, string> | null> {
+    this.initializeClients(profileConfig);
+
+    const stackData = await this.getStackDetails(stackName);
+    return stackData ? this.extractOutputs(stackData) : null;
+  }
+
+  /**
+   * Check whether an SSM parameter exists
+   */
+  async hasParameter(name: string, profileConfig: AWSProfileConfig = {}): Promise<boolean> {
+    this.initializeClients(profileConfig);
+
+    try {
+      await this.ssmClient!.send(new GetParameterCommand({ Name: name }));
+      return true;
+    } catch (error: any) {
+      if (error.name === 'ParameterNotFound') {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * List the names of every CloudFormation export in the region
+   */
+  async listExports(profileConfig: AWSProfileConfig = {}): Promise<string[]> {
+    this.initializeClients(profileConfig);
+
+    const names: string[] = [];
+    let nextToken: string | undefined;
+    do {
+      const response = await this.cloudFormationClient!.send(new ListExportsCommand({ NextToken: nextToken }));
+      names.push(...(response.Exports || []).flatMap(e => e.Name ? [e.Name] : []));
+      nextToken = response.NextToken;
+    } while (nextToken);
+
+    return names;
+  }
+
+  /**
+   * Wait until a stack has no operation in progress, returning its final status
+   * or null if it does not exist
+   */
+  async waitForStackSettled(
+    stackName: string,
+    profileConfig: AWSProfileConfig = {},
+    options: { timeout?: number; pollInterval?: number; signal?: AbortSignal } = {}
+  ): Promise<string | null> {
+    const { timeout = 600000, pollInterval = 10000, signal } = options;
+    const deadline = Date.now() + timeout;
+
+    this.initializeClients(profileConfig);
+
+    for (;;) {
+      const stackData = await this.getStackDetails(stackName);
+      const status = stackData?.StackStatus;
+
+      if (!status || !status.endsWith('_IN_PROGRESS')) {
+        return status || null;
+      }
+
+      if (signal?.aborted) {
+        throw new Error(`Aborted waiting for stack ${stackName} to settle`);
+      }
+
+      if (Date.now() + pollInterval > deadline) {
+        throw new Error(`Timed out after ${timeout}ms waiting for stack ${stackName} to settle (${status})`);
+      }
+
+      console.log(`[serverless] Waiting for stack ${stackName} to settle (${status})...`);
+      await new Promise(resolve => setTimeout(resolve, pollInterval));
+    }
+  }
+
   /**
    * Get stack details from CloudFormation
    */
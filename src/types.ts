@@ -6,6 +6,22 @@
 export interface ServerlessPattern {
   type: 'serverless';
   services: ServerlessService[];
+  composeProjects?: ServerlessCompose[];
+  diagnostics?: ServerlessDiagnostic[];
+}
+
+/**
+ * A problem found in a config file
+ */
+export interface ServerlessDiagnostic {
+  file: string;
+  // 1-based; absent when the problem can't be located, e.g. in JS configs
+  line?: number;
+  column?: number;
+  // Key path in the config, like functions.hello.handler
+  path?: string;
+  severity: 'error' | 'warning';
+  message: string;
 }
 
 export interface ServerlessService {
@@ -13,7 +29,80 @@ export interface ServerlessService {
   path: string;
   configFile: string;
   provider: 'serverless';
+  // Names of the stacks the service depends on
   dependencies: string[];
+  dependencyRecords?: ServerlessDependency[];
+  frameworkVersion?: string;
+  handlers?: Record<string, string>;
+  inventory?: ServerlessInventory;
+  // Set when the service is part of a serverless-compose project
+  compose?: ServerlessComposeService;
+}
+
+/**
+ * A serverless-compose project
+ */
+export interface ServerlessCompose {
+  file: string;
+  services: ServerlessComposeService[];
+  // Service names in deploy order; remove runs in reverse
+  order: string[];
+}
+
+export interface ServerlessComposeService {
+  // Name of the service in the compose file, used in ${name.output} references
+  name: string;
+  file: string;
+  path: string;
+  config?: string;
+  params: Record<string, unknown>;
+  dependsOn: string[];
+}
+
+/**
+ * Functions, layers, resources and plugins declared by a service
+ */
+export interface ServerlessInventory {
+  functions: ServerlessFunction[];
+  layers: ServerlessLayer[];
+  resources: ServerlessResource[];
+  plugins: string[];
+  // Directory of local plugins, from plugins.localPath
+  pluginsLocalPath?: string;
+}
+
+export interface ServerlessFunction {
+  name: string;
+  handler?: string;
+  runtime?: string;
+  memorySize?: number;
+  timeout?: number;
+  events: ServerlessFunctionEvent[];
+  // Layer ARNs, or logical IDs for layers referenced with Ref
+  layers: string[];
+}
+
+export interface ServerlessFunctionEvent {
+  type: 'http' | 'httpApi' | 'sqs' | 's3' | 'schedule' | 'stream';
+  method?: string;
+  path?: string;
+  // Queue or stream ARN, bucket name or schedule expression
+  source?: string;
+  // Logical ID when the source is a resource referenced with Ref or Fn::GetAtt
+  resource?: string;
+}
+
+export interface ServerlessLayer {
+  name: string;
+  path?: string;
+  compatibleRuntimes?: string[];
+}
+
+export interface ServerlessResource {
+  logicalId: string;
+  type: string;
+  // Physical name from properties like QueueName or BucketName, when set
+  name?: string;
 }
 
 export interface ServerlessConfig {
@@ -23,6 +112,7 @@ export interface ServerlessConfig {
     runtime?: string;
   };
   autoDetect?: boolean;
+  detection?: ServerlessDetectionConfig;
   enableRemoteDeployment?: boolean;
   stackInspection?: {
     enabled?: boolean;
@@ -39,7 +129,250 @@ export interface ServerlessConfig {
     enabled?: boolean;
     watchPaths?: string[];
     watchInterval?: number;
+    deployFunctions?: boolean;
+    updateConfig?: boolean;
   };
+  commandTimeouts?: ServerlessCommandTimeouts;
+  binary?: {
+    path?: string;
+    useNpx?: boolean;
+    accessKey?: string;
+  };
+  artifacts?: {
+    directory?: string;
+    // Artifacts kept per service and stage (default 5, 0 keeps all)
+    retain?: number;
+  };
+  invoke?: {
+    fixturesDirectory?: string;
+    afterDeploy?: boolean;
+    mode?: 'local' | 'remote';
+    summaryFile?: string;
+  };
+  services?: Record<string, ServerlessServiceDefaults>;
+  retry?: ServerlessRetryPolicy;
+  referenceValidation?: {
+    // Check cross-stack references before deploying (default true)
+    enabled?: boolean;
+    // Check stacks that aren't in cdk.out against AWS
+    online?: boolean;
+  };
+  pluginCheck?: {
+    // Check declared framework plugins before packaging (default true)
+    enabled?: boolean;
+    // Run the service's package manager when plugins are missing
+    install?: boolean;
+    // Detected from lockfiles when not set
+    packageManager?: 'npm' | 'yarn' | 'pnpm';
+    installTimeout?: number;
+  };
+}
+
+/**
+ * Whether a framework plugin a service declares can be loaded
+ */
+export interface ServerlessPluginStatus {
+  name: string;
+  status: 'installed' | 'local' | 'missing' | 'version-mismatch';
+  // Version range from package.json, when the plugin is listed there
+  declared?: string;
+  installed?: string;
+  location?: string;
+}
+
+/**
+ * Retry policy for transient deploy failures
+ */
+export interface ServerlessRetryPolicy {
+  // Total attempts including the first (default 3)
+  maxAttempts?: number;
+  // Delay before the first retry in milliseconds (default 5000)
+  initialDelay?: number;
+  maxDelay?: number;
+  backoffFactor?: number;
+  // Matched against the error output before the built-in classifiers
+  classifiers?: ServerlessRetryClassifier[];
+  // How long to wait for a busy stack to settle in milliseconds (default 600000)
+  stackSettleTimeout?: number;
+}
+
+/**
+ * Classifies a failure as retryable when its error output matches the pattern
+ */
+export interface ServerlessRetryClassifier {
+  reason: string;
+  pattern: string;
+  // Wait for the service's stack to leave *_IN_PROGRESS before retrying
+  waitForStack?: boolean;
+}
+
+/**
+ * Where to look for services and whether to reuse earlier scans
+ */
+export interface ServerlessDetectionConfig {
+  // Directory globs to search, relative to the project root (default: the whole tree)
+  include?: string[];
+  // Globs to skip, in addition to node_modules, dist, build and .serverless
+  exclude?: string[];
+  // Skip paths ignored by the project's .gitignore (default true)
+  respectGitignore?: boolean;
+  // Directory levels below the project root to search; 0 searches the root only
+  maxDepth?: number;
+  // Fail detection on config errors instead of skipping or keeping the service
+  strict?: boolean;
+  // Reuse services parsed from unchanged configs (default true)
+  cache?: boolean;
+  cacheFile?: string;
+}
+
+/**
+ * A stack from a CDK cloud assembly (cdk.out/manifest.json)
+ */
+export interface CdkStack {
+  // Construct ID of the stack artifact
+  id: string;
+  stackName: string;
+  // IDs of the stacks it depends on
+  dependencies: string[];
+  templateFile?: string;
+}
+
+/**
+ * The CDK stack resource or output that produces a referenced value
+ */
+export interface CdkOutputSource {
+  stackId: string;
+  stackName: string;
+  logicalId: string;
+  // From aws:cdk:path metadata, e.g. NetworkStack/VpcIdParameter/Resource
+  constructPath?: string;
+}
+
+/**
+ * Whether the value a cross-stack reference reads exists
+ */
+export interface ServerlessReferenceCheck {
+  dependency: ServerlessDependency;
+  // unverified: the target isn't in cdk.out and online checks are off
+  status: 'ok' | 'missing' | 'unverified';
+  // Where the answer came from
+  checkedIn?: 'cdk.out' | 'aws';
+  message?: string;
+  // Closest existing name to a missing or unverified one
+  suggestion?: string;
+}
+
+/**
+ * Reference checks of one service; passed unless a reference is missing
+ */
+export interface ServerlessReferenceReport {
+  service: string;
+  stage: string;
+  passed: boolean;
+  checks: ServerlessReferenceCheck[];
+}
+
+/**
+ * A Serverless service, CDK stack or stack outside the project in the dependency graph
+ */
+export interface ServerlessGraphNode {
+  // `serverless:<service>`, `cdk:<artifact ID>` or `external:<stack>`
+  id: string;
+  kind: 'serverless' | 'cdk' | 'external';
+  name: string;
+  // CloudFormation stack name, when known
+  stackName?: string;
+  dependsOn: string[];
+}
+
+/**
+ * A node of an exported dependency diagram
+ */
+export interface ServerlessGraphExportNode {
+  id: string;
+  // `stack` is a stack outside the project
+  kind: 'service' | 'cdk-stack' | 'stack' | 'ssm-parameter' | 'export';
+  label: string;
+}
+
+/**
+ * An edge of an exported dependency diagram, from the node that reads or depends on the other
+ */
+export interface ServerlessGraphExportEdge {
+  from: string;
+  to: string;
+  // Reference kind, `depends-on` between CDK stacks, or `written-by` from a parameter or export to its stack
+  kind: ServerlessDependency['kind'] | 'depends-on' | 'written-by';
+  label: string;
+}
+
+export interface ServerlessGraphExport {
+  nodes: ServerlessGraphExportNode[];
+  edges: ServerlessGraphExportEdge[];
+}
+
+export type ServerlessGraphFormat = 'dot' | 'mermaid' | 'json';
+
+/**
+ * A stack the service reads from, and where
+ */
+export interface ServerlessDependency {
+  kind: 'ssm' | 'cloudformation' | 'import' | 's3' | 'param' | 'aws' | 'compose';
+  // Stack name, or the Serverless service name for compose dependencies; unset when the reference names no stack
+  stack?: string;
+  // Stack name without the stage, e.g. api-stack for prod-api-stack
+  logicalStack?: string;
+  // CloudFormation output for cf and compose references
+  output?: string;
+  // Parameter path for ssm references, or the name of a param or aws variable
+  parameter?: string;
+  // Export read with Fn::ImportValue
+  exportName?: string;
+  bucket?: string;
+  key?: string;
+  // Region of a reference to another region, e.g. ${cf(us-west-2):stack.Output}
+  region?: string;
+  // The reference as written
+  expression?: string;
+  // The CDK stack that produces the value, when it was found in cdk.out
+  cdk?: CdkOutputSource;
+  sourceFile: string;
+  // 1-based; absent when the reference can't be located, e.g. in JS configs
+  line?: number;
+  column?: number;
+  // Key path of the value holding the reference, like functions.api.environment.TABLE
+  path?: string;
+}
+
+/**
+ * Per-service defaults, keyed by service name in ServerlessConfig.services
+ */
+export interface ServerlessServiceDefaults {
+  params?: Record<string, string>;
+  cliOptions?: ServerlessCliOptions;
+}
+
+/**
+ * Typed pass-through options for Serverless CLI commands
+ */
+export interface ServerlessCliOptions {
+  awsProfile?: string;
+  config?: string;
+  conceal?: boolean;
+  verbose?: boolean;
+  opts?: Record<string, string | number | boolean>;
+}
+
+/**
+ * Per-command timeouts in milliseconds; `default` applies to commands without their own value
+ */
+export interface ServerlessCommandTimeouts {
+  default?: number;
+  package?: number;
+  deploy?: number;
+  remove?: number;
+  info?: number;
+  invoke?: number;
 }
 
 export interface ServerlessDeploymentOptions {
@@ -49,6 +382,142 @@ export interface ServerlessDeploymentOptions {
   environment?: string;
   dryRun?: boolean;
   force?: boolean;
+  signal?: AbortSignal;
+  artifact?: ServerlessArtifact;
+  params?: Record<string, string>;
+  cliOptions?: ServerlessCliOptions;
+}
+
+/**
+ * Options for streaming the logs of a deployed service
+ */
+export interface ServerlessLogOptions {
+  stage: string;
+  region?: string;
+  functions?: string[];
+  startTime?: string;
+  tail?: boolean;
+  filter?: string;
+  signal?: AbortSignal;
+  onEntry?: (entry: ServerlessLogEntry) => void;
+}
+
+/**
+ * A structured log line from a deployed function
+ */
+export interface ServerlessLogEntry {
+  service: string;
+  function: string;
+  type: 'start' | 'end' | 'report' | 'message';
+  message: string;
+  raw: string;
+  timestamp?: string;
+  requestId?: string;
+  level?: string;
+  prefix?: string;
+}
+
+/**
+ * Options for invoking a service's functions with their fixture payloads
+ */
+export interface ServerlessInvokeOptions {
+  stage: string;
+  region?: string;
+  mode?: 'local' | 'remote';
+  functions?: string[];
+  summaryFile?: string;
+  signal?: AbortSignal;
+}
+
+/**
+ * The outcome of invoking one function with one fixture
+ */
+export interface ServerlessInvokeResult {
+  function: string;
+  fixture: string;
+  fixturePath: string;
+  success: boolean;
+  duration: number;
+  logs: string[];
+  result?: unknown;
+  reportedDuration?: number;
+  error?: string;
+}
+
+/**
+ * Results of invoking every fixture of a service
+ */
+export interface ServerlessInvokeSummary {
+  service: string;
+  stage: string;
+  mode: 'local' | 'remote';
+  total: number;
+  passed: number;
+  failed: number;
+  duration: number;
+  results: ServerlessInvokeResult[];
+}
+
+/**
+ * Phases of packaging and deploying a service, in order
+ */
+export type ServerlessDeployPhase = 'packaging' | 'uploading' | 'stack-update' | 'complete';
+
+/**
+ * A packaged service stored for deployment to one or more stages
+ */
+export interface ServerlessArtifact {
+  service: string;
+  stage: string;
+  region?: string;
+  version: string;
+  hash: string;
+  directory: string;
+  createdAt: string;
+}
+
+/**
+ * Deployed service information built from the .serverless state files
+ * and the outputs of the service's CloudFormation stack
+ */
+export interface ServiceInfo {
+  service: string;
+  stage: string;
+  region: string;
+  stackName: string;
+  endpoints: ServiceEndpoint[];
+  functions: ServiceFunctionInfo[];
+  layers: ServiceLayerInfo[];
+  apiKeys: ServiceApiKeyInfo[];
+  outputs: Record<string, string>;
+}
+
+export interface ServiceEndpoint {
+  type: 'http' | 'httpApi' | 'websocket';
+  function: string;
+  method?: string;
+  path?: string;
+  url?: string;
+}
+
+export interface ServiceFunctionInfo {
+  name: string;
+  functionName: string;
+  handler?: string;
+  runtime?: string;
+  memorySize?: number;
+  timeout?: number;
+  arn?: string;
+}
+
+export interface ServiceLayerInfo {
+  name: string;
+  arn?: string;
+}
+
+export interface ServiceApiKeyInfo {
+  name: string;
+  logicalId?: string;
 }
 
 export interface ServerlessEventPayloads {
@@ -60,6 +529,7 @@ export interface ServerlessEventPayloads {
     pattern: ServerlessPattern;
     servicesFound: number;
     services: string[];
+    dependencies: Record<string, ServerlessDependency[]>;
   };
   
   'serverless:before:service-deploy': {
@@ -72,10 +542,26 @@ export interface ServerlessEventPayloads {
     service: string;
     stage: string;
     success: boolean;
-    outputs?: Record<string, unknown>;
+    outputs?: ServiceInfo;
     error?: string;
   };
 
+  'serverless:artifact:created': {
+    service: string;
+    stage: string;
+    version: string;
+    hash: string;
+    directory: string;
+  };
+
+  'serverless:artifact:deploy': {
+    service: string;
+    version: string;
+    hash: string;
+    builtForStage: string;
+    stage: string;
+  };
+
   'serverless:after:service-remove': {
     service: string;
     stage: string;
@@ -90,12 +576,95 @@ export interface ServerlessEventPayloads {
     timestamp: number;
   };
   
+  'serverless:before:function-deploy': {
+    service: string;
+    function: string;
+    stage: string;
+    file?: string;
+  };
+
+  'serverless:after:function-deploy': {
+    service: string;
+    function: string;
+    stage: string;
+    success: boolean;
+    duration: number;
+    file?: string;
+    error?: string;
+  };
+  
+  'serverless:deploy:progress': {
+    service: string;
+    stage: string;
+    phase: ServerlessDeployPhase;
+    status: 'started' | 'completed' | 'failed' | 'resource';
+    message: string;
+    elapsed: number;
+    phaseElapsed?: number;
+    resource?: {
+      status: string;
+      type: string;
+      logicalId: string;
+    };
+  };
+  
+  'serverless:deploy:retry': {
+    service: string;
+    stage: string;
+    attempt: number;
+    maxAttempts: number;
+    reason: string;
+    delay: number;
+    error: string;
+  };
+  
+  'serverless:logs:entry': ServerlessLogEntry;
+  
+  'serverless:invoke:result': ServerlessInvokeResult & {
+    service: string;
+    stage: string;
+    mode: 'local' | 'remote';
+  };
+  
+  'serverless:invoke:summary': ServerlessInvokeSummary;
+  
+  'serverless:config:diagnostic': ServerlessDiagnostic;
+  
+  'serverless:plugins:verified': {
+    service: string;
+    success: boolean;
+    plugins: ServerlessPluginStatus[];
+  };
+  
+  'serverless:dependency-graph:built': {
+    nodes: ServerlessGraphNode[];
+    // Empty when there are cycles
+    deployOrder: string[];
+    removalOrder: string[];
+    cycles: string[][];
+  };
+  
+  'serverless:references:validated': ServerlessReferenceReport;
+  
+  'serverless:dependency:orphaned': {
+    service: string;
+    dependency: ServerlessDependency;
+  };
+  
   'serverless:dependency:detected': {
-    type: 'ssm' | 'cloudformation' | 'lambda';
+    type: ServerlessDependency['kind'] | 'lambda';
     source: string;
+    // Stack, export, S3 object, param or AWS variable the reference reads
     target: string;
+    // Target stack without the stage
+    logicalTarget?: string;
     parameterPath?: string;
     outputName?: string;
+    region?: string;
+    expression?: string;
+    line?: number;
+    column?: number;
+    path?: string;
   };
 
   'serverless:before:stack-inspection': {
@@ -155,19 +724,36 @@ export interface ServerlessEventPayloads {
 
 export interface ServerlessYamlConfig {
   service: string;
+  frameworkVersion?: string;
   provider?: {
     name?: string;
     runtime?: string;
     stage?: string;
     region?: string;
+    memorySize?: number;
+    timeout?: number;
     environment?: Record<string, string | number | boolean>;
   };
   functions?: Record<string, {
     handler: string;
     runtime?: string;
+    memorySize?: number;
+    timeout?: number;
     environment?: Record<string, string | number | boolean>;
     events?: Array<Record<string, unknown>>;
+    layers?: unknown[];
+  }>;
+  layers?: Record<string, {
+    path?: string;
+    name?: string;
+    compatibleRuntimes?: string[];
   }>;
+  resources?: ServerlessYamlResources | ServerlessYamlResources[];
   custom?: Record<string, unknown>;
-  plugins?: string[];
+  plugins?: string[] | { localPath?: string; modules?: string[] };
+}
+
+export interface ServerlessYamlResources {
+  Resources?: Record<string, { Type?: string; Properties?: Record<string, unknown> }>;
+  Outputs?: Record<string, unknown>;
 }
\ No newline at end of file
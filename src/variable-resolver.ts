@@ -0,0 +1,551 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as yaml from 'js-yaml';
+import { CLOUDFORMATION_SCHEMA } from './config-loader';
+
+/**
+ * Variable sources that can only be resolved against a live AWS account
+ */
+export type CloudVariableSource = 'ssm' | 'cf' | 's3' | 'aws';
+
+/**
+ * What the resolver knows about the deployment
+ */
+export interface VariableContext {
+  stage?: string;
+  region?: string;
+  // CLI options for ${opt:...}
+  options?: Record<string, string | boolean>;
+  // Values for ${param:...}
+  params?: Record<string, string>;
+  // Environment for ${env:...}, defaults to process.env
+  env?: Record<string, string | undefined>;
+  // Base directory for ${file(...)}
+  servicePath?: string;
+}
+
+/**
+ * A cloud variable left in the config for Serverless to resolve at deploy time
+ */
+export interface VariablePlaceholder {
+  source: CloudVariableSource;
+  address: string;
+  // Region from sources like ${cf.us-east-1:stack.Output}
+  region?: string;
+  expression: string;
+  // Dotted path of the config value that contains it
+  path: string;
+}
+
+/**
+ * A local variable that could not be resolved
+ */
+export interface UnresolvedVariable {
+  expression: string;
+  path: string;
+  source?: string;
+  address?: string;
+  reason: string;
+}
+
+/**
+ * A config with every locally resolvable variable expanded
+ */
+export interface VariableResolution<T> {
+  config: T;
+  // Stage the config resolves for: --stage, then provider.stage, then dev
+  stage: string;
+  placeholders: VariablePlaceholder[];
+  unresolved: UnresolvedVariable[];
+}
+
+type Outcome =
+  | { kind: 'value'; value: unknown }
+  | { kind: 'placeholder'; text: string }
+  | { kind: 'missing'; reason: string; source?: string; address?: string };
+
+const CLOUD_SOURCES = new Set<string>(['ssm', 'cf', 's3']);
+// source[.region][(param)][:address], e.g. self:custom.stage, cf.eu-west-1:stack.Output, file(./a.yml):key
+const SOURCE_PATTERN = /^([a-zA-Z]\w*)(?:\.([a-z0-9-]+))?(?:\(([^)]*)\))?(?::([\s\S]*))?$/;
+// Fn::Sub references such as ${AWS::Region} or ${MyBucket.Arn} aren't Serverless variables
+const CLOUDFORMATION_SUB = /^[A-Za-z0-9]+(?:::[A-Za-z0-9]+)*(?:\.[A-Za-z0-9]+)?$/;
+
+/**
+ * Resolves Serverless variables offline
+ *
+ * Supports self, opt, env, sls, param, aws:region and file() sources, nested
+ * variables and fallback chains. ssm, cf, s3 and aws:accountId need AWS, so
+ * they're left in place as placeholders with their inner variables resolved.
+ */
+export class ServerlessVariableResolver {
+  private readonly context: VariableContext;
+
+  constructor(context: VariableContext = {}) {
+    this.context = context;
+  }
+
+  /**
+   * Resolve every variable in a config
+   */
+  resolve<T>(config: T): VariableResolution<T> {
+    const resolution = new ConfigResolution(config, this.context);
+    const resolved = resolution.resolveDeep(config, []) as T;
+
+    return {
+      config: resolved,
+      stage: String(resolution.getStage()),
+      placeholders: resolution.placeholders,
+      unresolved: resolution.unresolved
+    };
+  }
+}
+
+/**
+ * State of resolving one config
+ */
+class ConfigResolution {
+  readonly placeholders: VariablePlaceholder[] = [];
+  readonly unresolved: UnresolvedVariable[] = [];
+
+  private readonly raw: unknown;
+  private readonly context: VariableContext;
+  private readonly resolved = new Map<string, unknown>();
+  private readonly inProgress = new Set<string>();
+  private readonly files = new Map<string, unknown>();
+
+  constructor(raw: unknown, context: VariableContext) {
+    this.raw = raw;
+    this.context = context;
+  }
+
+  /**
+   * Resolve a value and everything below it
+   */
+  resolveDeep(value: unknown, at: string[]): unknown {
+    if (typeof value === 'string') {
+      return this.resolveAt(at, value);
+    }
+
+    if (Array.isArray(value)) {
+      return value.map((item, i) => this.resolveDeep(item, [...at, String(i)]));
+    }
+
+    if (value && typeof value === 'object') {
+      const result: Record<string, unknown> = {};
+      for (const [key, child] of Object.entries(value)) {
+        result[key] = this.resolveDeep(child, [...at, key]);
+      }
+      return result;
+    }
+
+    return value;
+  }
+
+  /**
+   * Resolve the string at a config path once, detecting circular references
+   */
+  private resolveAt(at: string[], text: string): unknown {
+    const key = JSON.stringify(at);
+
+    if (this.resolved.has(key)) {
+      return this.resolved.get(key);
+    }
+
+    if (this.inProgress.has(key)) {
+      throw new CircularReferenceError(at.join('.'));
+    }
+
+    this.inProgress.add(key);
+    try {
+      const value = this.resolveString(text, at);
+      this.resolved.set(key, value);
+      return value;
+    } finally {
+      this.inProgress.delete(key);
+    }
+  }
+
+  /**
+   * Resolve the variables in a string, keeping the value's type when the
+   * string is a single variable
+   */
+  private resolveString(text: string, at: string[]): unknown {
+    const variables = findVariables(text);
+
+    if (variables.length === 0) {
+      return text;
+    }
+
+    const record = (variable: { expression: string }, outcome: Outcome): void => {
+      if (outcome.kind === 'missing') {
+        this.unresolved.push({
+          expression: variable.expression,
+          path: at.join('.'),
+          source: outcome.source,
+          address: outcome.address,
+          reason: outcome.reason
+        });
+      }
+    };
+
+    const only = variables[0]!;
+    if (variables.length === 1 && only.start === 0 && only.end === text.length) {
+      const outcome = this.resolveExpression(only.inner, at);
+      record(only, outcome);
+
+      if (outcome.kind === 'value') {
+        return outcome.value;
+      }
+      return outcome.kind === 'placeholder' ? outcome.text : text;
+    }
+
+    let result = '';
+    let last = 0;
+
+    for (const variable of variables) {
+      let outcome = this.resolveExpression(variable.inner, at);
+
+      if (outcome.kind === 'value' && outcome.value !== null && typeof outcome.value === 'object') {
+        outcome = { kind: 'missing', reason: 'Objects and arrays cannot be embedded in a string' };
+      }
+      record(variable, outcome);
+
+      result += text.slice(last, variable.start);
+      if (outcome.kind === 'value') {
+        result += String(outcome.value);
+      } else if (outcome.kind === 'placeholder') {
+        result += outcome.text;
+      } else {
+        result += variable.expression;
+      }
+      last = variable.end;
+    }
+
+    return result + text.slice(last);
+  }
+
+  /**
+   * Resolve the inside of ${...}: nested variables first, then the first
+   * source of a fallback chain that has a value
+   */
+  private resolveExpression(inner: string, at: string[]): Outcome {
+    if (CLOUDFORMATION_SUB.test(inner.trim())) {
+      return { kind: 'placeholder', text: `\${${inner}}` };
+    }
+
+    const expanded = this.interpolate(inner, at);
+    if (typeof expanded !== 'string') {
+      return expanded;
+    }
+
+    const misses: Array<Extract<Outcome, { kind: 'missing' }>> = [];
+
+    for (const part of splitFallbacks(expanded)) {
+      const outcome = this.resolveSource(part, at);
+
+      if (outcome.kind === 'missing') {
+        misses.push(outcome);
+      } else if (outcome.kind === 'placeholder' || (outcome.value !== undefined && outcome.value !== null)) {
+        return outcome;
+      } else {
+        misses.push({ kind: 'missing', reason: `${part} has no value` });
+      }
+    }
+
+    return {
+      kind: 'missing',
+      reason: misses.map(m => m.reason).join('; '),
+      source: misses[0]?.source,
+      address: misses[0]?.address
+    };
+  }
+
+  /**
+   * Expand nested variables inside an expression to plain text
+   */
+  private interpolate(text: string, at: string[]): string | Outcome {
+    const variables = findVariables(text);
+    let result = '';
+    let last = 0;
+
+    for (const variable of variables) {
+      const outcome = this.resolveExpression(variable.inner, at);
+
+      if (outcome.kind === 'missing') {
+        return outcome;
+      }
+
+      result += text.slice(last, variable.start);
+      result += outcome.kind === 'placeholder' ? outcome.text : String(outcome.value);
+      last = variable.end;
+    }
+
+    return result + text.slice(last);
+  }
+
+  /**
+   * Resolve a single source or literal
+   */
+  private resolveSource(part: string, at: string[]): Outcome {
+    const literal = parseLiteral(part);
+    if (literal !== undefined) {
+      return { kind: 'value', value: literal };
+    }
+
+    const match = part.match(SOURCE_PATTERN);
+    if (!match) {
+      return { kind: 'missing', reason: `Invalid variable '${part}'` };
+    }
+
+    const [, source = '', dotted, param, address = ''] = match;
+    const region = getSourceRegion(dotted, param);
+    const missing = (reason: string): Outcome => ({ kind: 'missing', reason, source, address });
+    const value = (v: unknown): Outcome =>
+      v === undefined ? missing(`${source}:${address} is not set`) : { kind: 'value', value: v };
+
+    try {
+      switch (source) {
+        case 'self':
+          return value(this.navigate(this.raw, [], address));
+        case 'opt':
+          return value(this.getOption(address));
+        case 'env':
+          return value((this.context.env || process.env)[address]);
+        case 'param':
+          return value(this.context.params?.[address]);
+        case 'sls':
+          if (address === 'stage') {
+            return value(this.getStage());
+          }
+          return missing(`sls:${address} is only known at deploy time`);
+        case 'aws':
+          if (address === 'region') {
+            return value(this.getRegion());
+          }
+          return this.placeholder('aws', address, region, part, at);
+        case 'file':
+          return this.readFile(param || '', address);
+        default:
+          if (CLOUD_SOURCES.has(source)) {
+            return this.placeholder(source as CloudVariableSource, address, region, part, at);
+          }
+          return missing(`Unsupported variable source '${source}'`);
+      }
+    } catch (error) {
+      if (error instanceof CircularReferenceError) {
+        return missing(error.message);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Record a cloud variable and keep it in the config
+   */
+  private placeholder(
+    source: CloudVariableSource,
+    address: string,
+    region: string | undefined,
+    part: string,
+    at: string[]
+  ): Outcome {
+    const expression = `\${${part}}`;
+    const configPath = at.join('.');
+
+    if (!this.placeholders.some(p => p.path === configPath && p.expression === expression)) {
+      this.placeholders.push({ source, address, region, expression, path: configPath });
+    }
+
+    return { kind: 'placeholder', text: expression };
+  }
+
+  /**
+   * Walk a dotted address, resolving variables along the way
+   */
+  private navigate(root: unknown, rootPath: string[], address: string): unknown {
+    const segments = address ? address.split('.') : [];
+    let node = root;
+    const walked = [...rootPath];
+
+    for (const segment of segments) {
+      if (typeof node === 'string') {
+        node = this.resolveAt(walked, node);
+      }
+      if (!node || typeof node !== 'object') {
+        return undefined;
+      }
+
+      node = (node as Record<string, unknown>)[segment];
+      walked.push(segment);
+
+      if (node === undefined) {
+        return undefined;
+      }
+    }
+
+    return this.resolveDeep(node, walked);
+  }
+
+  /**
+   * Read a value from a YAML or JSON file relative to the service
+   */
+  private readFile(relativePath: string, address: string): Outcome {
+    const missing = (reason: string): Outcome => ({ kind: 'missing', reason, source: 'file', address });
+    const filePath = path.resolve(this.context.servicePath || process.cwd(), relativePath.trim());
+
+    if (!/\.(ya?ml|json)$/.test(filePath)) {
+      return missing(`file(${relativePath}) can't be read offline: only YAML and JSON files are supported`);
+    }
+
+    if (!this.files.has(filePath)) {
+      try {
+        const content = fs.readFileSync(filePath, 'utf-8');
+        this.files.set(filePath, filePath.endsWith('.json') ? JSON.parse(content) : yaml.load(content, { schema: CLOUDFORMATION_SCHEMA }));
+      } catch (error) {
+        this.files.set(filePath, undefined);
+        if ((error as NodeJS.ErrnoException)?.code !== 'ENOENT') {
+          return missing(`file(${relativePath}) could not be read: ${error instanceof Error ? error.message : error}`);
+        }
+      }
+    }
+
+    const content = this.files.get(filePath);
+    if (content === undefined) {
+      return { kind: 'value', value: undefined };
+    }
+
+    return { kind: 'value', value: this.navigate(content, [`file(${relativePath})`], address) };
+  }
+
+  /**
+   * Get a CLI option, treating stage and region as options
+   */
+  private getOption(name: string): unknown {
+    const option = this.context.options?.[name];
+
+    if (option !== undefined) {
+      return option;
+    }
+    if (name === 'stage') {
+      return this.context.stage;
+    }
+    if (name === 'region') {
+      return this.context.region;
+    }
+    return undefined;
+  }
+
+  /**
+   * The stage Serverless would use: --stage, then provider.stage, then dev
+   */
+  getStage(): unknown {
+    return this.getOption('stage') ?? this.navigate(this.raw, [], 'provider.stage') ?? 'dev';
+  }
+
+  /**
+   * The region Serverless would use: --region, then provider.region, then us-east-1
+   */
+  private getRegion(): unknown {
+    return this.getOption('region') ?? this.navigate(this.raw, [], 'provider.region') ?? 'us-east-1';
+  }
+}
+
+/**
+ * Thrown when a self reference depends on itself
+ */
+class CircularReferenceError extends Error {
+  constructor(configPath: string) {
+    super(`Circular reference at ${configPath}`);
+  }
+}
+
+/**
+ * Find the top-level ${...} expressions in a string
+ */
+function findVariables(text: string): Array<{ start: number; end: number; inner: string; expression: string }> {
+  const variables: Array<{ start: number; end: number; inner: string; expression: string }> = [];
+  let i = text.indexOf('${');
+
+  while (i >= 0) {
+    let depth = 1;
+    let j = i + 2;
+
+    while (j < text.length && depth > 0) {
+      if (text.startsWith('${', j)) {
+        depth++;
+        j += 2;
+      } else {
+        if (text[j] === '}') {
+          depth--;
+        }
+        j++;
+      }
+    }
+
+    if (depth > 0) {
+      break;
+    }
+
+    variables.push({ start: i, end: j, inner: text.slice(i + 2, j - 1), expression: text.slice(i, j) });
+    i = text.indexOf('${', j);
+  }
+
+  return variables;
+}
+
+/**
+ * Split a fallback chain on top-level commas
+ */
+function splitFallbacks(expression: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let quote: string | null = null;
+  let current = '';
+
+  for (const char of expression) {
+    if (quote) {
+      if (char === quote) {
+        quote = null;
+      }
+    } else if (char === '\'' || char === '"') {
+      quote = char;
+    } else if (char === '(') {
+      depth++;
+    } else if (char === ')') {
+      depth--;
+    } else if (char === ',' && depth === 0) {
+      parts.push(current.trim());
+      current = '';
+      continue;
+    }
+    current += char;
+  }
+
+  parts.push(current.trim());
+  return parts.filter(p => p !== '');
+}
+
+/**
+ * Parse a quoted string, number or boolean literal
+ */
+function parseLiteral(part: string): unknown {
+  const quoted = part.match(/^(['"])([\s\S]*)\1$/);
+  if (quoted) {
+    return quoted[2];
+  }
+  if (/^-?\d+(?:\.\d+)?$/.test(part)) {
+    return Number(part);
+  }
+  if (part === 'true' || part === 'false') {
+    return part === 'true';
+  }
+  return undefined;
+}
+
+/**
+ * Region of a variable source, from `.region` or `(region)`; params like `(raw)` aren't regions
+ */
+export function getSourceRegion(dotted?: string, param?: string): string | undefined {
+  const region = dotted || param;
+  return region && /^[a-z]{2}(-gov|-iso[a-z]?)?-[a-z]+-\d+$/.test(region) ? region : undefined;
+}
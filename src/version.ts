@@ -0,0 +1,191 @@
+/**
+ * Minimal semantic version parsing and range matching for framework and plugin versions
+ */
+
+export interface SemVer {
+  major: number;
+  minor: number;
+  patch: number;
+}
+
+interface PartialVersion {
+  major: number;
+  minor?: number;
+  patch?: number;
+}
+
+type Comparator = { operator: '>=' | '>' | '<=' | '<' | '='; version: SemVer };
+
+/**
+ * Parse the first version number found in a string, e.g. "Framework Core: 3.38.0"
+ */
+export function parseVersion(input: string): SemVer | null {
+  const match = input.match(/(\d+)\.(\d+)(?:\.(\d+))?/);
+
+  if (!match) {
+    return null;
+  }
+
+  return {
+    major: Number(match[1]),
+    minor: Number(match[2]),
+    patch: Number(match[3] || 0)
+  };
+}
+
+/**
+ * Compare two versions, returning a negative, zero or positive number
+ */
+export function compareVersions(a: SemVer, b: SemVer): number {
+  return a.major - b.major || a.minor - b.minor || a.patch - b.patch;
+}
+
+/**
+ * Format a version as a string
+ */
+export function formatVersion(version: SemVer): string {
+  return `${version.major}.${version.minor}.${version.patch}`;
+}
+
+/**
+ * Check whether a version satisfies a range such as "3", "^3.0.0", "~3.1", ">=2.0.0 <4" or "2 || 3"
+ */
+export function satisfiesRange(version: string | SemVer, range: string): boolean {
+  const parsed = typeof version === 'string' ? parseVersion(version) : version;
+
+  if (!parsed) {
+    return false;
+  }
+
+  return range.split('||').some(set => {
+    const comparators = parseComparatorSet(set.trim());
+    return comparators !== null && comparators.every(c => testComparator(parsed, c));
+  });
+}
+
+/**
+ * Parse a whitespace-separated set of range terms into comparators
+ */
+function parseComparatorSet(set: string): Comparator[] | null {
+  if (set === '' || set === '*' || set === 'x' || set === 'latest') {
+    return [];
+  }
+
+  const comparators: Comparator[] = [];
+  // Allow "> = 3" style spacing by joining operators to their versions
+  const terms = set.replace(/([<>=^~]+)\s+/g, '$1').split(/\s+/);
+
+  for (const term of terms) {
+    const match = term.match(/^(\^|~|>=|<=|>|<|=)?v?(\d+|[xX*])(?:\.(\d+|[xX*]))?(?:\.(\d+|[xX*]))?(?:[-+].*)?$/);
+
+    if (!match) {
+      return null;
+    }
+
+    const partial = toPartial(match[2], match[3], match[4]);
+    if (!partial) {
+      // A bare wildcard matches everything
+      continue;
+    }
+
+    comparators.push(...expandTerm(match[1] || '', partial));
+  }
+
+  return comparators;
+}
+
+/**
+ * Convert captured version segments into a partial version, stopping at the first wildcard
+ */
+function toPartial(major?: string, minor?: string, patch?: string): PartialVersion | null {
+  const isNumber = (s?: string): s is string => s !== undefined && /^\d+$/.test(s);
+
+  if (!isNumber(major)) {
+    return null;
+  }
+
+  if (!isNumber(minor)) {
+    return { major: Number(major) };
+  }
+
+  return {
+    major: Number(major),
+    minor: Number(minor),
+    patch: isNumber(patch) ? Number(patch) : undefined
+  };
+}
+
+/**
+ * Expand an operator and partial version into lower/upper bound comparators
+ */
+function expandTerm(operator: string, partial: PartialVersion): Comparator[] {
+  const lower: SemVer = { major: partial.major, minor: partial.minor ?? 0, patch: partial.patch ?? 0 };
+
+  switch (operator) {
+  case '^': {
+    // Allows changes below the first non-zero segment: ^1.2.3 <2.0.0, ^0.2.3 <0.3.0, ^0.0.3 <0.0.4
+    let upper: SemVer;
+    if (lower.major > 0 || partial.minor === undefined) {
+      upper = { major: lower.major + 1, minor: 0, patch: 0 };
+    } else if (lower.minor > 0 || partial.patch === undefined) {
+      upper = { major: 0, minor: lower.minor + 1, patch: 0 };
+    } else {
+      upper = { major: 0, minor: 0, patch: lower.patch + 1 };
+    }
+    return [{ operator: '>=', version: lower }, { operator: '<', version: upper }];
+  }
+  case '~': {
+    const upper = partial.minor === undefined
+      ? { major: lower.major + 1, minor: 0, patch: 0 }
+      : { major: lower.major, minor: lower.minor + 1, patch: 0 };
+    return [{ operator: '>=', version: lower }, { operator: '<', version: upper }];
+  }
+  case '>=':
+  case '<':
+    return [{ operator, version: lower }];
+  case '>':
+    return [{ operator: '>=', version: nextAfter(partial) }];
+  case '<=':
+    return [{ operator: '<', version: nextAfter(partial) }];
+  default:
+    if (partial.patch !== undefined) {
+      return [{ operator: '=', version: lower }];
+    }
+    return [{ operator: '>=', version: lower }, { operator: '<', version: nextAfter(partial) }];
+  }
+}
+
+/**
+ * The smallest version that is greater than every version matching a partial version
+ */
+function nextAfter(partial: PartialVersion): SemVer {
+  if (partial.minor === undefined) {
+    return { major: partial.major + 1, minor: 0, patch: 0 };
+  }
+
+  if (partial.patch === undefined) {
+    return { major: partial.major, minor: partial.minor + 1, patch: 0 };
+  }
+
+  return { major: partial.major, minor: partial.minor, patch: partial.patch + 1 };
+}
+
+/**
+ * Test a version against a single comparator
+ */
+function testComparator(version: SemVer, comparator: Comparator): boolean {
+  const result = compareVersions(version, comparator.version);
+
+  switch (comparator.operator) {
+  case '>=':
+    return result >= 0;
+  case '>':
+    return result > 0;
+  case '<=':
+    return result <= 0;
+  case '<':
+    return result < 0;
+  default:
+    return result === 0;
+  }
+}